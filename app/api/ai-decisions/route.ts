@@ -1,14 +1,27 @@
 import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/client';
+import { toDecisionView } from '@/lib/dashboard/views';
 
-// Placeholder for AI decisions - will be implemented when AI engine is integrated
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '5');
+    const modelId = searchParams.get('modelId') || undefined;
 
-    // For now, return empty array
-    // In the future, this would fetch from database or AI service
-    return NextResponse.json([]);
+    const decisions = await prisma.aIDecision.findMany({
+      where: modelId ? { modelId } : undefined,
+      orderBy: {
+        timestamp: 'desc',
+      },
+      take: limit,
+      include: {
+        model: {
+          select: { name: true },
+        },
+      },
+    });
+
+    return NextResponse.json(decisions.map(toDecisionView));
   } catch (error: any) {
     console.error('Failed to fetch AI decisions:', error);
     return NextResponse.json(
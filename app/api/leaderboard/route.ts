@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/client';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sortBy = searchParams.get('sortBy') === 'sharpe' ? 'sharpe' : 'return';
+
+    const accounts = await prisma.account.findMany({
+      include: {
+        model: {
+          select: { name: true, provider: true, active: true },
+        },
+      },
+    });
+
+    const entries = accounts
+      .map(account => ({
+        modelId: account.modelId,
+        model: account.model.name,
+        provider: account.model.provider,
+        active: account.model.active,
+        totalValue: account.totalValue,
+        initialBalance: account.initialBalance,
+        totalReturn: account.totalReturn,
+        sharpeRatio: account.sharpeRatio,
+        maxDrawdown: account.maxDrawdown,
+        winRate: account.winRate,
+        totalTrades: account.totalTrades,
+        feesPaid: account.feesPaid,
+        updatedAt: account.updatedAt.toISOString(),
+      }))
+      .sort((a, b) =>
+        sortBy === 'sharpe'
+          ? b.sharpeRatio - a.sharpeRatio || b.totalReturn - a.totalReturn
+          : b.totalReturn - a.totalReturn || b.sharpeRatio - a.sharpeRatio
+      )
+      .map((entry, index) => ({ rank: index + 1, ...entry }));
+
+    return NextResponse.json(entries);
+  } catch (error: any) {
+    console.error('Failed to fetch leaderboard:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -37,7 +37,7 @@ export async function GET(request: Request) {
       },
       select: {
         executedAt: true,
-        realizedPnl: true,
+        pnl: true,
       },
     });
 
@@ -66,8 +66,8 @@ export async function GET(request: Request) {
     } else {
       // Calculate actual cumulative PnL from trades
       trades.forEach(trade => {
-        if (trade.realizedPnl) {
-          cumulativePnl += parseFloat(trade.realizedPnl.toString());
+        if (trade.pnl) {
+          cumulativePnl += trade.pnl;
         }
         pnlHistory.push({
           time: trade.executedAt.toISOString(),
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { BinanceClient } from '@/lib/binance/client';
+import { activePositionRisks, buildPositionView } from '@/lib/dashboard/views';
+import { openPositionFundingFees } from '@/lib/trading/funding';
 
 export async function GET() {
   try {
@@ -9,49 +11,15 @@ export async function GET() {
       testnet: process.env.BINANCE_TESTNET === 'true',
     });
 
-    const positionRisks = await binance.getPositionRisk();
+    const [positionRisks, fundingFees] = await Promise.all([
+      binance.getPositionRisk(),
+      openPositionFundingFees(),
+    ]);
 
     // Filter out positions with 0 quantity
-    const activePositions = positionRisks
-      .filter((p: any) => Math.abs(parseFloat(p.positionAmt)) > 0)
-      .map((p: any) => {
-        const size = Math.abs(parseFloat(p.positionAmt));
-        const entryPrice = parseFloat(p.entryPrice);
-        const markPrice = parseFloat(p.markPrice);
-        const unrealizedPnl = parseFloat(p.unRealizedProfit);
-        const leverage = parseInt(p.leverage);
-        const side = parseFloat(p.positionAmt) > 0 ? 'LONG' : 'SHORT';
-        const liquidationPrice = parseFloat(p.liquidationPrice);
-
-        // Calculate position value
-        const positionValue = size * markPrice;
-
-        // Calculate margin (position value / leverage)
-        const margin = positionValue / leverage;
-
-        // Calculate PnL percentage
-        const pnlPercent = side === 'LONG'
-          ? ((markPrice - entryPrice) / entryPrice) * 100 * leverage
-          : ((entryPrice - markPrice) / entryPrice) * 100 * leverage;
-
-        // Estimate funding cost (placeholder - would need actual funding rate history)
-        const fundingCost = unrealizedPnl * 0.05; // Rough estimate
-
-        return {
-          symbol: p.symbol,
-          side,
-          size,
-          leverage,
-          positionValue,
-          entryPrice,
-          markPrice,
-          liqPrice: liquidationPrice,
-          unrealizedPnl,
-          pnlPercent,
-          margin,
-          fundingCost,
-        };
-      });
+    const activePositions = activePositionRisks(positionRisks).map((p: any) =>
+      buildPositionView(p, undefined, fundingFees)
+    );
 
     return NextResponse.json(activePositions);
   } catch (error: any) {
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { promptTemplates } from '@/lib/ai/prompt-templates';
+import { performanceService } from '@/lib/trading/performance';
+import { isAuthorized } from '@/lib/utils/api-auth';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const modelId = searchParams.get('modelId') || undefined;
+
+    const [templates, comparison] = await Promise.all([
+      promptTemplates.list(),
+      performanceService.getPromptComparison(modelId),
+    ]);
+
+    return NextResponse.json({
+      templates: templates.map((t) => ({
+        id: t.id,
+        name: t.name,
+        version: t.version,
+        description: t.description,
+        createdAt: t.createdAt.toISOString(),
+      })),
+      comparison,
+    });
+  } catch (error: any) {
+    console.error('Failed to fetch prompt templates:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 创建模板新版本，未固定版本的模型立即生效；需携带 API_SECRET_KEY（Authorization: Bearer 或 X-API-Key）
+ */
+export async function POST(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { name, systemPrompt, userPrompt, description } = body ?? {};
+
+    if (!name || !systemPrompt || !userPrompt) {
+      return NextResponse.json(
+        { error: 'name, systemPrompt and userPrompt are required' },
+        { status: 400 }
+      );
+    }
+
+    const template = await promptTemplates.createVersion(name, {
+      systemPrompt,
+      userPrompt,
+      description,
+    });
+
+    return NextResponse.json(template, { status: 201 });
+  } catch (error: any) {
+    console.error('Failed to create prompt template:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { BinanceClient } from '@/lib/binance/client';
+import { GLOBAL_SCOPE, RiskManager, riskControl } from '@/lib/trading/risk-manager';
+import { isAuthorized } from '@/lib/utils/api-auth';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const modelId = searchParams.get('modelId');
+
+    const [pauses, status] = await Promise.all([
+      riskControl.listPauses(),
+      modelId ? new RiskManager(modelId).evaluate() : Promise.resolve(null),
+    ]);
+
+    return NextResponse.json({ pauses, status });
+  } catch (error: any) {
+    console.error('Failed to fetch risk status:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * { action: 'kill' | 'pause' | 'resume', modelId?, reason? }
+ * 不传 modelId 时作用于全局；需携带 API_SECRET_KEY（Authorization: Bearer 或 X-API-Key）
+ */
+export async function POST(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { action, modelId, reason } = body ?? {};
+    const scope = modelId || GLOBAL_SCOPE;
+
+    switch (action) {
+      case 'kill': {
+        // 实盘直接平掉币安持仓；模拟盘持仓在 worker 进程中，由引擎在下一周期平仓
+        const live =
+          process.env.PAPER_TRADING !== 'true' &&
+          !!process.env.BINANCE_API_KEY &&
+          !!process.env.BINANCE_API_SECRET;
+        const venue = live
+          ? new BinanceClient({
+              apiKey: process.env.BINANCE_API_KEY!,
+              apiSecret: process.env.BINANCE_API_SECRET!,
+              testnet: process.env.BINANCE_TESTNET === 'true',
+            })
+          : undefined;
+
+        const result = await riskControl.activateKillSwitch(reason || 'Manual kill switch', venue);
+        return NextResponse.json(result);
+      }
+
+      case 'pause': {
+        const pause = await riskControl.pause(scope, 'MANUAL', reason || 'Paused manually');
+        return NextResponse.json({ pause });
+      }
+
+      case 'resume': {
+        await riskControl.resume(scope);
+        return NextResponse.json({ resumed: scope });
+      }
+
+      default:
+        return NextResponse.json(
+          { error: 'action must be one of kill, pause, resume' },
+          { status: 400 }
+        );
+    }
+  } catch (error: any) {
+    console.error('Failed to update risk state:', error);
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/database/client';
+import { toTradeView } from '@/lib/dashboard/views';
 
 export async function GET(request: Request) {
   try {
@@ -18,21 +19,11 @@ export async function GET(request: Request) {
         price: true,
         quantity: true,
         executedAt: true,
-        realizedPnl: true,
+        pnl: true,
       },
     });
 
-    return NextResponse.json(
-      trades.map(trade => ({
-        id: trade.id,
-        symbol: trade.symbol,
-        side: trade.side,
-        price: parseFloat(trade.price.toString()),
-        quantity: parseFloat(trade.quantity.toString()),
-        time: trade.executedAt.toISOString(),
-        realizedPnl: trade.realizedPnl ? parseFloat(trade.realizedPnl.toString()) : undefined,
-      }))
-    );
+    return NextResponse.json(trades.map(toTradeView));
   } catch (error: any) {
     console.error('Failed to fetch trades:', error);
     return NextResponse.json(
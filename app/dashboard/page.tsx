@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
+import type { DecisionView, TradeView } from '@/lib/dashboard/views';
 
 interface AccountInfo {
   totalBalance: number;
@@ -32,21 +33,72 @@ export default function Dashboard() {
   const [positions, setPositions] = useState<Position[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [recentTrades, setRecentTrades] = useState<TradeView[]>([]);
+  const [latestDecision, setLatestDecision] = useState<DecisionView | null>(null);
+  const [activeTab, setActiveTab] = useState<'positions' | 'fills'>('positions');
+
+  // 实时推送优先，SSE 断开期间回退到5秒轮询
   useEffect(() => {
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    const startPolling = () => {
+      if (!pollTimer) pollTimer = setInterval(fetchDashboardData, 5000);
+    };
+    const stopPolling = () => {
+      if (pollTimer) clearInterval(pollTimer);
+      pollTimer = null;
+    };
+
     fetchDashboardData();
-    const interval = setInterval(fetchDashboardData, 5000);
-    return () => clearInterval(interval);
+
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+      return stopPolling;
+    }
+
+    const source = new EventSource('/api/stream');
+    source.onopen = () => {
+      setIsStreaming(true);
+      stopPolling();
+    };
+    source.onerror = () => {
+      setIsStreaming(false);
+      startPolling();
+    };
+    source.addEventListener('account', (e) => {
+      setAccount(JSON.parse((e as MessageEvent).data));
+      setIsLoading(false);
+    });
+    source.addEventListener('positions', (e) => {
+      setPositions(JSON.parse((e as MessageEvent).data));
+    });
+    source.addEventListener('trade', (e) => {
+      const trade: TradeView = JSON.parse((e as MessageEvent).data);
+      setRecentTrades((prev) => [trade, ...prev].slice(0, 20));
+    });
+    source.addEventListener('decision', (e) => {
+      setLatestDecision(JSON.parse((e as MessageEvent).data));
+    });
+
+    return () => {
+      source.close();
+      stopPolling();
+    };
   }, []);
 
   const fetchDashboardData = async () => {
     try {
-      const [accountRes, positionsRes] = await Promise.all([
+      const [accountRes, positionsRes, tradesRes, decisionsRes] = await Promise.all([
         fetch('/api/account'),
         fetch('/api/positions'),
+        fetch('/api/trades?limit=20'),
+        fetch('/api/ai-decisions?limit=1'),
       ]);
 
       if (accountRes.ok) setAccount(await accountRes.json());
       if (positionsRes.ok) setPositions(await positionsRes.json());
+      if (tradesRes.ok) setRecentTrades(await tradesRes.json());
+      if (decisionsRes.ok) setLatestDecision((await decisionsRes.json())[0] ?? null);
       setIsLoading(false);
     } catch (err) {
       console.error('Failed to fetch:', err);
@@ -114,8 +166,8 @@ export default function Dashboard() {
           </div>
           <div className="flex items-center gap-3">
             <button className="px-4 py-2 bg-[#1a1f26] hover:bg-[#1f2530] rounded-lg text-sm transition flex items-center gap-2">
-              <div className="w-2 h-2 bg-green-500 rounded-full" />
-              Real-time Data
+              <div className={`w-2 h-2 rounded-full ${isStreaming ? 'bg-green-500' : 'bg-yellow-500'}`} />
+              {isStreaming ? 'Real-time Data' : 'Polling'}
             </button>
             <button className="px-4 py-2 bg-[#1a1f26] hover:bg-[#1f2530] rounded-lg text-sm transition">
               Trading Statistics
@@ -162,7 +214,12 @@ export default function Dashboard() {
           <div className="bg-[#13171d] rounded-xl p-6 border border-gray-800">
             <div className="text-sm text-gray-400 mb-2">Feature</div>
             <div className="text-xl font-bold mb-4">DeepSeek AI</div>
-            <div className="text-sm text-gray-400 mb-4">Real-time Tracking · Quick View</div>
+            <div className="text-sm text-gray-400 mb-4">
+              {latestDecision
+                ? `${latestDecision.model} · ${latestDecision.action} ${latestDecision.symbol} (${latestDecision.confidence}%)` +
+                  (latestDecision.liquidationPrice ? ` · Liq $${latestDecision.liquidationPrice.toFixed(2)}` : '')
+                : 'Real-time Tracking · Quick View'}
+            </div>
             <div className="flex items-center gap-2 text-sm text-blue-400">
               <div className="flex gap-1">
                 <div className="w-1 h-4 bg-blue-500 rounded" />
@@ -282,17 +339,31 @@ export default function Dashboard() {
         <div className="bg-[#13171d] rounded-xl border border-gray-800 overflow-hidden">
           <div className="border-b border-gray-800">
             <div className="flex px-6">
-              <button className="px-4 py-4 text-sm font-semibold border-b-2 border-green-500 text-white">
+              <button
+                onClick={() => setActiveTab('positions')}
+                className={activeTab === 'positions'
+                  ? 'px-4 py-4 text-sm font-semibold border-b-2 border-green-500 text-white'
+                  : 'px-4 py-4 text-sm text-gray-400 hover:text-white'}
+              >
                 Perp Positions ({positions.length})
               </button>
               <button className="px-4 py-4 text-sm text-gray-400 hover:text-white">Open Orders (17)</button>
-              <button className="px-4 py-4 text-sm text-gray-400 hover:text-white">Recent Fills</button>
+              <button
+                onClick={() => setActiveTab('fills')}
+                className={activeTab === 'fills'
+                  ? 'px-4 py-4 text-sm font-semibold border-b-2 border-green-500 text-white'
+                  : 'px-4 py-4 text-sm text-gray-400 hover:text-white'}
+              >
+                Recent Fills ({recentTrades.length})
+              </button>
               <button className="px-4 py-4 text-sm text-gray-400 hover:text-white">Completed Trades</button>
             </div>
           </div>
 
           <div className="overflow-x-auto">
-            {positions.length > 0 ? (
+            {activeTab === 'fills' ? (
+              <RecentFills trades={recentTrades} />
+            ) : positions.length > 0 ? (
               <table className="w-full">
                 <thead>
                   <tr className="text-left text-gray-400 text-xs border-b border-gray-800">
@@ -361,6 +432,53 @@ export default function Dashboard() {
   );
 }
 
+function RecentFills({ trades }: { trades: TradeView[] }) {
+  if (trades.length === 0) {
+    return (
+      <div className="py-20 text-center">
+        <div className="text-gray-500">No recent fills</div>
+      </div>
+    );
+  }
+
+  return (
+    <table className="w-full">
+      <thead>
+        <tr className="text-left text-gray-400 text-xs border-b border-gray-800">
+          <th className="px-6 py-3 font-medium">Time</th>
+          <th className="px-6 py-3 font-medium">Symbol</th>
+          <th className="px-6 py-3 font-medium">Side</th>
+          <th className="px-6 py-3 font-medium">Price</th>
+          <th className="px-6 py-3 font-medium">Quantity</th>
+          <th className="px-6 py-3 font-medium">Realized PnL</th>
+        </tr>
+      </thead>
+      <tbody>
+        {trades.map((trade) => (
+          <tr key={trade.id} className="border-b border-gray-800/50 hover:bg-gray-800/20">
+            <td className="px-6 py-4 text-gray-400">{new Date(trade.time).toLocaleTimeString()}</td>
+            <td className="px-6 py-4 font-semibold">{trade.symbol}</td>
+            <td className={`px-6 py-4 font-bold ${trade.side === 'BUY' ? 'text-green-400' : 'text-red-400'}`}>
+              {trade.side}
+            </td>
+            <td className="px-6 py-4">$ {trade.price.toLocaleString()}</td>
+            <td className="px-6 py-4">{trade.quantity}</td>
+            <td className="px-6 py-4">
+              {trade.realizedPnl !== undefined ? (
+                <span className={trade.realizedPnl >= 0 ? 'text-green-400' : 'text-red-400'}>
+                  $ {trade.realizedPnl >= 0 ? '+' : ''}{trade.realizedPnl.toFixed(2)}
+                </span>
+              ) : (
+                <span className="text-gray-500">--</span>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
 function DonutCard({
   title,
   value,
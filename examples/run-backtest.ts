@@ -27,6 +27,8 @@ async function runBacktest() {
     aiModel: 'deepseek-chat',
     commission: 0.0004, // 0.04% 手续费
     slippage: 0.0005, // 0.05% 滑点
+    interval: '1h', // 输入K线周期
+    timeframes: ['1h', '4h', '1d'], // 多周期分析，由1h K线重采样
   };
 
   console.log('📋 Backtest Configuration:');
@@ -61,12 +63,23 @@ async function runBacktest() {
   console.log(`✅ Loaded ${filteredKlines.length} klines\n`);
   console.log(`Period: ${new Date(filteredKlines[0].openTime).toLocaleDateString()} - ${new Date(filteredKlines[filteredKlines.length - 1].openTime).toLocaleDateString()}\n`);
 
+  // 回测区间的历史资金费率（每8小时一期）
+  const fundingRates = (
+    await binance.getFundingRateHistory(
+      config.symbol,
+      1000,
+      filteredKlines[0].openTime,
+      filteredKlines[filteredKlines.length - 1].openTime
+    )
+  ).map((f) => ({ fundingTime: f.fundingTime, fundingRate: parseFloat(f.fundingRate) }));
+  console.log(`✅ Loaded ${fundingRates.length} funding rates\n`);
+
   // 4. 创建回测引擎
   const engine = new BacktestEngine(config);
 
   // 5. 运行回测
   console.log('🔄 Running backtest...\n');
-  const result = await engine.run(filteredKlines);
+  const result = await engine.run(filteredKlines, fundingRates);
 
   // 6. 显示报告
   BacktestReporter.printReport(result);
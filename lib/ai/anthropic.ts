@@ -0,0 +1,50 @@
+/**
+ * Anthropic Claude 客户端
+ * 使用 Messages API
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { BaseAIClient, ChatMessage } from './base';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export class AnthropicClient extends BaseAIClient {
+  private axiosInstance: AxiosInstance;
+
+  constructor(
+    apiKey: string,
+    model: string = 'claude-3-5-sonnet-latest',
+    baseURL: string = 'https://api.anthropic.com'
+  ) {
+    super('anthropic', model, 'Anthropic');
+
+    this.axiosInstance = axios.create({
+      baseURL,
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json',
+      },
+      timeout: 30000,
+    });
+  }
+
+  /**
+   * 调用 /v1/messages
+   */
+  protected async complete(systemPrompt: string, messages: ChatMessage[]): Promise<string> {
+    const response = await this.axiosInstance.post('/v1/messages', {
+      model: this.model,
+      system: systemPrompt,
+      messages,
+      temperature: 0.3,
+      max_tokens: 2000,
+    });
+
+    // 拼接所有文本块
+    return response.data.content
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * AI决策提供者抽象
+ * 所有模型适配器（DeepSeek、OpenAI、Anthropic、本地模型）共享的接口和基类
+ */
+
+import {
+  BUILTIN_SYSTEM_TEMPLATE,
+  BUILTIN_USER_TEMPLATE,
+  buildPromptVariables,
+  buildRepairPrompt,
+  renderTemplate,
+} from './prompt';
+import type { PromptTemplateSpec } from './prompt-templates';
+import { parseDecisionContent } from './schema';
+import { TradingError, ErrorType } from '../utils/error-handler';
+import type { TimeframeSnapshot } from '../indicators/timeframes';
+
+export type AIProviderName = 'deepseek' | 'openai' | 'anthropic' | 'local';
+
+export interface AIDecisionInput {
+  symbol: string;
+  price: number;
+  indicators: {
+    rsi?: number;
+    macd?: number;
+    macdSignal?: number;
+    macdHistogram?: number;
+    ema20?: number;
+    ema50?: number;
+    ema200?: number;
+    bollingerUpper?: number;
+    bollingerMiddle?: number;
+    bollingerLower?: number;
+    atr?: number;
+    openInterest?: number;
+    openInterestValue?: number;
+    openInterestChange?: number; // 百分比
+    fundingRate?: number;
+    fundingRateAvg?: number;
+    nextFundingTime?: number;
+    longShortRatio?: number;
+    takerBuySellRatio?: number;
+  };
+  timeframes?: TimeframeSnapshot[]; // 多周期快照（按周期从短到长）
+  symbolRules?: {
+    minNotional: number; // 最小下单名义价值（USDT）
+    priceDecimals: number; // 价格精度（tickSize 的小数位）
+  }; // 交易对规则，回测等没有交易所信息时为空
+  account: {
+    balance: number;
+    positions: number;
+    totalValue: number;
+    unrealizedPnL: number;
+  };
+  performance: {
+    totalReturn: number;
+    sharpeRatio: number;
+    winRate: number;
+    totalTrades: number;
+    maxDrawdown?: number;
+  };
+  position?: OpenPositionContext;
+  metadata: {
+    timestamp: number;
+    wakeupCount: number;
+  };
+}
+
+/**
+ * 当前持仓信息（用于持仓管理决策）
+ */
+export interface OpenPositionContext {
+  side: 'LONG' | 'SHORT';
+  entryPrice: number;
+  markPrice: number;
+  quantity: number;
+  leverage: number;
+  unrealizedPnL: number;
+  unrealizedPnLPercent: number; // 相对保证金
+  ageMinutes?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+}
+
+export interface AIDecisionOutput {
+  action: 'BUY' | 'SELL' | 'HOLD' | 'CLOSE' | 'ADD' | 'REDUCE' | 'ADJUST';
+  confidence: number; // 0-100
+  reasoning: string;
+  positionSize?: number; // 1-100%
+  leverage?: number; // 1-30x
+  stopLoss?: number; // 止损百分比
+  takeProfit?: number; // 止盈百分比
+  closePercent?: number; // REDUCE 时平仓比例 1-100%
+  promptVersion?: string; // 生成该决策的提示词模板版本
+}
+
+/**
+ * 对话消息（系统提示词单独传入）
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AIProviderStats {
+  provider: string;
+  model: string;
+  requestCount: number;
+  averageLatency: number;
+}
+
+/**
+ * AI决策提供者接口
+ */
+export interface AIDecisionProvider {
+  makeDecision(input: AIDecisionInput, template?: PromptTemplateSpec): Promise<AIDecisionOutput>;
+  getStats(): AIProviderStats;
+}
+
+/**
+ * AI客户端基类
+ * 负责提示词构建、响应校验与修复、统计和降级决策，子类只需实现 complete()
+ */
+export abstract class BaseAIClient implements AIDecisionProvider {
+  protected readonly provider: string;
+  protected readonly model: string;
+  protected readonly label: string;
+  private requestCount: number = 0;
+  private totalLatency: number = 0;
+
+  constructor(provider: string, model: string, label: string) {
+    this.provider = provider;
+    this.model = model;
+    this.label = label;
+  }
+
+  /**
+   * 调用模型，返回原始文本
+   */
+  protected abstract complete(systemPrompt: string, messages: ChatMessage[]): Promise<string>;
+
+  /**
+   * 生成交易决策
+   * template 不传时使用内置提示词
+   * 响应未通过 schema 校验时带上错误信息重新请求一次，仍失败则抛出 AI_INVALID_RESPONSE
+   */
+  async makeDecision(
+    input: AIDecisionInput,
+    template?: PromptTemplateSpec
+  ): Promise<AIDecisionOutput> {
+    const startTime = Date.now();
+    const variables = buildPromptVariables(input, this.label);
+    const systemPrompt = renderTemplate(template?.systemPrompt ?? BUILTIN_SYSTEM_TEMPLATE, variables);
+    const userPrompt = renderTemplate(template?.userPrompt ?? BUILTIN_USER_TEMPLATE, variables);
+    const promptVersion = template?.label ?? 'builtin';
+    const messages: ChatMessage[] = [{ role: 'user', content: userPrompt }];
+
+    try {
+      const content = await this.complete(systemPrompt, messages);
+      let result = parseDecisionContent(content);
+
+      if (!result.decision) {
+        console.warn(`[${this.label}] Invalid decision (${result.error}), requesting repair`);
+        const repaired = await this.complete(systemPrompt, [
+          ...messages,
+          { role: 'assistant', content },
+          { role: 'user', content: buildRepairPrompt(result.error) },
+        ]);
+        result = parseDecisionContent(repaired);
+
+        if (!result.decision) {
+          throw new TradingError(
+            ErrorType.AI_INVALID_RESPONSE,
+            `${this.label} returned an invalid decision: ${result.error}`,
+            { retryable: false, details: { content, repaired } }
+          );
+        }
+      }
+
+      // 更新统计
+      this.requestCount++;
+      this.totalLatency += Date.now() - startTime;
+
+      return { ...result.decision, promptVersion };
+    } catch (error: any) {
+      if (error instanceof TradingError) throw error;
+
+      console.error(`[${this.label}] API Error:`, error.response?.data || error.message);
+
+      // 处理速率限制
+      if (error.response?.status === 429) {
+        const retryAfter = error.response.headers['retry-after'];
+        console.log(`[${this.label}] Rate limited. Retry after ${retryAfter}s`);
+      }
+
+      // 返回降级决策
+      return {
+        action: 'HOLD',
+        confidence: 0,
+        reasoning: `${this.label} API error: ${error.message}`,
+        positionSize: 20,
+        leverage: 3,
+        stopLoss: 2,
+        takeProfit: 4,
+        promptVersion,
+      };
+    }
+  }
+
+  /**
+   * 获取统计信息
+   */
+  getStats(): AIProviderStats {
+    return {
+      provider: this.provider,
+      model: this.model,
+      requestCount: this.requestCount,
+      averageLatency:
+        this.requestCount > 0 ? this.totalLatency / this.requestCount : 0,
+    };
+  }
+
+  /**
+   * 重置统计
+   */
+  resetStats(): void {
+    this.requestCount = 0;
+    this.totalLatency = 0;
+  }
+}
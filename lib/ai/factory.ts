@@ -0,0 +1,46 @@
+/**
+ * AI提供者工厂
+ * 根据配置（或 AIModel 表中的 provider/apiKey）创建对应适配器
+ */
+
+import { AIDecisionProvider, AIProviderName } from './base';
+import { DeepSeekClient } from './deepseek';
+import { OpenAIClient } from './openai';
+import { AnthropicClient } from './anthropic';
+import { LocalModelClient } from './local';
+
+export const AI_PROVIDERS: AIProviderName[] = ['deepseek', 'openai', 'anthropic', 'local'];
+
+export interface AIProviderOptions {
+  provider: AIProviderName;
+  apiKey?: string;
+  model?: string; // 不填使用各适配器默认模型
+  baseURL?: string; // 自定义端点
+}
+
+/**
+ * 判断是否为支持的提供者
+ */
+export function isSupportedProvider(provider: string): provider is AIProviderName {
+  return AI_PROVIDERS.includes(provider as AIProviderName);
+}
+
+/**
+ * 创建AI决策提供者
+ */
+export function createAIProvider(options: AIProviderOptions): AIDecisionProvider {
+  const { provider, apiKey = '', model, baseURL } = options;
+
+  switch (provider) {
+    case 'deepseek':
+      return new DeepSeekClient(apiKey, model, baseURL);
+    case 'openai':
+      return new OpenAIClient(apiKey, model, baseURL);
+    case 'anthropic':
+      return new AnthropicClient(apiKey, model, baseURL);
+    case 'local':
+      return new LocalModelClient(model, baseURL, apiKey || undefined);
+    default:
+      throw new Error(`Unsupported AI provider: ${provider}`);
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * 本地模型客户端
+ * 支持 Ollama、llama.cpp server 等 OpenAI 兼容的本地推理服务
+ */
+
+import { OpenAICompatibleClient } from './openai';
+
+export class LocalModelClient extends OpenAICompatibleClient {
+  constructor(
+    model: string = process.env.LOCAL_AI_MODEL || 'llama3.1',
+    baseURL: string = process.env.LOCAL_AI_BASE_URL || 'http://localhost:11434/v1',
+    apiKey?: string
+  ) {
+    super({
+      provider: 'local',
+      label: 'Local',
+      baseURL,
+      model,
+      apiKey,
+      timeout: 120000, // 本地推理较慢
+      jsonMode: process.env.LOCAL_AI_JSON_MODE === 'true', // 并非所有本地推理服务支持 response_format
+    });
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * OpenAI兼容客户端
+ * 适用于 OpenAI 以及任何实现 /chat/completions 的服务
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { BaseAIClient, ChatMessage } from './base';
+
+export interface OpenAICompatibleConfig {
+  provider: string;
+  label: string;
+  baseURL: string;
+  model: string;
+  apiKey?: string;
+  timeout?: number;
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean; // 是否发送 response_format: json_object（默认开启）
+}
+
+export class OpenAICompatibleClient extends BaseAIClient {
+  protected axiosInstance: AxiosInstance;
+  private temperature: number;
+  private maxTokens: number;
+  private jsonMode: boolean;
+
+  constructor(config: OpenAICompatibleConfig) {
+    super(config.provider, config.model, config.label);
+    this.temperature = config.temperature ?? 0.3;
+    this.maxTokens = config.maxTokens ?? 2000;
+    this.jsonMode = config.jsonMode ?? true;
+
+    this.axiosInstance = axios.create({
+      baseURL: config.baseURL,
+      headers: {
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        'Content-Type': 'application/json',
+      },
+      timeout: config.timeout ?? 30000,
+    });
+  }
+
+  /**
+   * 调用 /chat/completions
+   */
+  protected async complete(systemPrompt: string, messages: ChatMessage[]): Promise<string> {
+    const response = await this.axiosInstance.post('/chat/completions', {
+      model: this.model,
+      messages: [
+        {
+          role: 'system',
+          content: systemPrompt,
+        },
+        ...messages,
+      ],
+      temperature: this.temperature,
+      max_tokens: this.maxTokens,
+      ...(this.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+    });
+
+    return response.data.choices[0].message.content;
+  }
+}
+
+/**
+ * OpenAI GPT 客户端
+ */
+export class OpenAIClient extends OpenAICompatibleClient {
+  constructor(apiKey: string, model: string = 'gpt-4o', baseURL: string = 'https://api.openai.com/v1') {
+    super({
+      provider: 'openai',
+      label: 'OpenAI',
+      baseURL,
+      model,
+      apiKey,
+    });
+  }
+}
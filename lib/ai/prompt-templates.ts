@@ -0,0 +1,156 @@
+/**
+ * 提示词模板版本管理
+ * 模板按 name + version 存于 PromptTemplate 表，AIModel 指定使用的模板（可固定版本），
+ * 并可按 promptSplit 比例把部分决策分流到另一个版本做 A/B 对比
+ */
+
+import { prisma } from '../database/client';
+import { BUILTIN_SYSTEM_TEMPLATE, BUILTIN_USER_TEMPLATE } from './prompt';
+
+export interface PromptTemplateSpec {
+  name: string;
+  version: number; // 内置模板为 0
+  label: string; // 记录到 AIDecision.promptVersion，如 "trend@v3"
+  systemPrompt: string;
+  userPrompt: string;
+}
+
+export interface PromptTemplateInput {
+  systemPrompt: string;
+  userPrompt: string;
+  description?: string;
+}
+
+export const BUILTIN_PROMPT: PromptTemplateSpec = {
+  name: 'builtin',
+  version: 0,
+  label: 'builtin',
+  systemPrompt: BUILTIN_SYSTEM_TEMPLATE,
+  userPrompt: BUILTIN_USER_TEMPLATE,
+};
+
+interface PromptAssignment {
+  primary: PromptTemplateSpec;
+  variant: PromptTemplateSpec | null;
+  split: number; // 分流到 variant 的比例 0-1
+  loadedAt: number;
+}
+
+// 模型的模板分配缓存时长，修改 AIModel 后最迟在该时间后生效
+const ASSIGNMENT_TTL = 60 * 1000;
+
+export function promptLabel(name: string, version: number): string {
+  return `${name}@v${version}`;
+}
+
+class PromptTemplateService {
+  private assignments: Map<string, PromptAssignment> = new Map();
+
+  /**
+   * 为一次决策选择模板（按 A/B 比例随机分流）
+   */
+  async select(modelId: string): Promise<PromptTemplateSpec> {
+    const assignment = await this.getAssignment(modelId);
+
+    if (assignment.variant && Math.random() < assignment.split) {
+      return assignment.variant;
+    }
+    return assignment.primary;
+  }
+
+  /**
+   * 读取（缓存）模型的模板分配；模板不存在时回退到内置模板
+   */
+  private async getAssignment(modelId: string): Promise<PromptAssignment> {
+    const cached = this.assignments.get(modelId);
+    if (cached && Date.now() - cached.loadedAt < ASSIGNMENT_TTL) return cached;
+
+    const model = await prisma.aIModel.findUnique({
+      where: { id: modelId },
+      select: { promptTemplate: true, promptVersion: true, promptVariant: true, promptSplit: true },
+    });
+
+    const assignment: PromptAssignment = {
+      primary: BUILTIN_PROMPT,
+      variant: null,
+      split: 0,
+      loadedAt: Date.now(),
+    };
+
+    if (model?.promptTemplate) {
+      const primary = await this.get(model.promptTemplate, model.promptVersion ?? undefined);
+      if (primary) {
+        assignment.primary = primary;
+      } else {
+        console.warn(
+          `[PromptTemplates] Template ${model.promptTemplate}${
+            model.promptVersion ? `@v${model.promptVersion}` : ''
+          } not found, using builtin`
+        );
+      }
+
+      if (model.promptVariant !== null && model.promptSplit > 0) {
+        assignment.variant = await this.get(model.promptTemplate, model.promptVariant);
+        assignment.split = Math.max(0, Math.min(1, model.promptSplit));
+      }
+    }
+
+    this.assignments.set(modelId, assignment);
+    return assignment;
+  }
+
+  /**
+   * 读取模板（未指定版本时取最新版本）
+   */
+  async get(name: string, version?: number): Promise<PromptTemplateSpec | null> {
+    const template = await prisma.promptTemplate.findFirst({
+      where: { name, ...(version !== undefined ? { version } : {}) },
+      orderBy: { version: 'desc' },
+    });
+
+    if (!template) return null;
+
+    return {
+      name: template.name,
+      version: template.version,
+      label: promptLabel(template.name, template.version),
+      systemPrompt: template.systemPrompt,
+      userPrompt: template.userPrompt,
+    };
+  }
+
+  /**
+   * 保存模板的新版本（版本号自增，已有版本不可修改）
+   */
+  async createVersion(name: string, input: PromptTemplateInput) {
+    const latest = await prisma.promptTemplate.findFirst({
+      where: { name },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    const template = await prisma.promptTemplate.create({
+      data: {
+        name,
+        version: (latest?.version ?? 0) + 1,
+        systemPrompt: input.systemPrompt,
+        userPrompt: input.userPrompt,
+        description: input.description,
+      },
+    });
+
+    this.assignments.clear();
+    return template;
+  }
+
+  /**
+   * 所有模板版本（按名称、版本倒序）
+   */
+  async list() {
+    return await prisma.promptTemplate.findMany({
+      orderBy: [{ name: 'asc' }, { version: 'desc' }],
+    });
+  }
+}
+
+export const promptTemplates = new PromptTemplateService();
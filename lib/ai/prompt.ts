@@ -0,0 +1,251 @@
+/**
+ * 提示词生成
+ * 供所有AI适配器共享
+ */
+
+import type { AIDecisionInput, OpenPositionContext } from './base';
+import type { TimeframeSnapshot } from '../indicators/timeframes';
+
+/**
+ * 内置系统提示词模板
+ */
+export const BUILTIN_SYSTEM_TEMPLATE = `你是 Alpha Arena 量化交易系统的 AI 核心，基于 {{modelLabel}} 模型。
+
+你的目标是在加密货币市场中获得最高的风险调整后收益（夏普比率）。
+
+## 币安合约交易限制
+- **最低订单名义价值**: \${{minNotional}} USDT
+- 名义价值计算: 保证金 × 杠杆倍数
+- 例如: $4保证金 × 30倍杠杆 = $120名义价值 ✓
+
+## 核心策略
+1. **技术分析优先**: 严格基于 RSI、MACD、EMA、布林带等指标
+2. **趋势跟随**: 只在趋势明确时交易，避免震荡市
+3. **风险控制**: 每笔交易风险不超过账户的5%，严格止损
+4. **仓位管理**: 建议使用20%起的保证金，确保 (余额 × position_size% × leverage) >= \${{minNotional}}
+5. **杠杆使用**:
+   - 小账户(<$100)建议使用10-30倍杠杆
+   - 中等账户($100-$1000)使用5-15倍杠杆
+   - 大账户(>$1000)使用3-10倍杠杆
+6. **质量优先**: 只在有高信心的机会时交易，宁可HOLD也不要盲目开仓
+
+## 持仓管理
+当提示中包含"当前持仓"时，你需要管理该持仓而不是开新仓：
+- **HOLD**: 继续持有，不做调整
+- **CLOSE**: 立即全部平仓（提前止盈或止损）
+- **ADD**: 顺势加仓，使用 positionSize 指定追加保证金比例
+- **REDUCE**: 部分平仓，使用 closePercent 指定平仓比例
+- **ADJUST**: 调整止损止盈，stopLoss/takeProfit 为相对当前价格的百分比（可用于移动止损）
+
+**你拥有完全的决策自主权！**
+- 决定何时交易、使用多少杠杆、多大仓位
+- 所有参数完全由你的深度推理决定
+
+回复必须是严格的 JSON 格式：
+\`\`\`json
+{
+  "action": "BUY" | "SELL" | "HOLD" | "CLOSE" | "ADD" | "REDUCE" | "ADJUST",
+  "confidence": 0-100,
+  "reasoning": "简短决策理由(不超过150字)",
+  "positionSize": 1-100,
+  "leverage": 1-30,
+  "stopLoss": 1-10,
+  "takeProfit": 2-20,
+  "closePercent": 1-100
+}
+\`\`\``;
+
+/**
+ * 内置用户提示词模板
+ * 可用变量见 buildPromptVariables
+ */
+export const BUILTIN_USER_TEMPLATE = `## 市场数据 ({{symbol}})
+当前价格: \${{price}}
+
+## 技术指标
+{{technicalIndicators}}{{timeframes}}
+{{derivatives}}
+
+## 账户状态
+{{account}}
+{{position}}
+## 历史表现
+{{performance}}
+
+## 元数据
+时间: {{time}}
+唤醒次数: {{wakeupCount}}
+
+请分析并给出决策（JSON格式）。`;
+
+/**
+ * 替换模板中的 {{变量}}，未定义的变量替换为空字符串
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => variables[name] ?? '');
+}
+
+// 未提供交易对规则时（回测）使用的最小名义价值
+const DEFAULT_MIN_NOTIONAL = 20;
+
+/**
+ * 没有 tickSize 时按价格量级推断显示精度（至少 2 位，低价币保留 4 位有效数字）
+ */
+function inferPriceDecimals(price: number): number {
+  if (!(price > 0)) return 2;
+  return Math.min(8, Math.max(2, 3 - Math.floor(Math.log10(price))));
+}
+
+/**
+ * 提示词模板变量
+ * modelLabel, symbol, price, minNotional, technicalIndicators, timeframes, derivatives, account,
+ * position, performance, time, wakeupCount
+ */
+export function buildPromptVariables(
+  input: AIDecisionInput,
+  modelLabel: string = 'DeepSeek-V3'
+): Record<string, string> {
+  const { symbol, price, indicators, timeframes, account, performance, position, metadata } = input;
+
+  // 价格类数值（含 EMA、布林带、ATR、MACD）按交易对价格精度显示
+  const decimals = input.symbolRules?.priceDecimals ?? inferPriceDecimals(price);
+  const fmt = (value: number | undefined) => value?.toFixed(decimals) || 'N/A';
+
+  return {
+    modelLabel,
+    symbol,
+    price: price.toFixed(decimals),
+    minNotional: String(input.symbolRules?.minNotional ?? DEFAULT_MIN_NOTIONAL),
+    technicalIndicators: `RSI(14): ${indicators.rsi?.toFixed(2) || 'N/A'} ${
+      indicators.rsi ? (indicators.rsi < 30 ? '[超卖]' : indicators.rsi > 70 ? '[超买]' : '') : ''
+    }
+MACD: ${fmt(indicators.macd)}
+MACD Signal: ${fmt(indicators.macdSignal)}
+MACD Histogram: ${fmt(indicators.macdHistogram)}
+EMA20: ${fmt(indicators.ema20)}
+EMA50: ${fmt(indicators.ema50)}
+EMA200: ${fmt(indicators.ema200)}
+布林带: 上${fmt(indicators.bollingerUpper)} / 中${fmt(indicators.bollingerMiddle)} / 下${fmt(
+      indicators.bollingerLower
+    )}
+ATR: ${fmt(indicators.atr)}`,
+    timeframes: timeframes && timeframes.length > 0 ? buildTimeframesSection(timeframes, decimals) : '',
+    derivatives: buildDerivativesSection(indicators),
+    account: `可用资金: $${account.balance.toFixed(2)}
+当前持仓数: ${account.positions}
+未实现盈亏: $${account.unrealizedPnL.toFixed(2)}
+总价值: $${account.totalValue.toFixed(2)}`,
+    position: position ? buildPositionSection(position, decimals) : '',
+    performance: `总回报率: ${performance.totalReturn.toFixed(2)}%
+夏普比率: ${performance.sharpeRatio.toFixed(2)}
+胜率: ${performance.winRate.toFixed(2)}%
+总交易数: ${performance.totalTrades}
+${performance.maxDrawdown !== undefined ? `最大回撤: ${performance.maxDrawdown.toFixed(2)}%` : ''}`,
+    time: new Date(metadata.timestamp).toISOString(),
+    wakeupCount: String(metadata.wakeupCount),
+  };
+}
+
+/**
+ * 系统提示词（内置模板）
+ */
+export function getSystemPrompt(modelLabel: string = 'DeepSeek-V3'): string {
+  return renderTemplate(BUILTIN_SYSTEM_TEMPLATE, { modelLabel, minNotional: String(DEFAULT_MIN_NOTIONAL) });
+}
+
+/**
+ * 构建用户提示词（内置模板）
+ */
+export function buildPrompt(input: AIDecisionInput): string {
+  return renderTemplate(BUILTIN_USER_TEMPLATE, buildPromptVariables(input));
+}
+
+/**
+ * 构建多周期对照表
+ */
+function buildTimeframesSection(timeframes: TimeframeSnapshot[], decimals: number): string {
+  const value = (v: number | null, digits: number = decimals) =>
+    v === null || v === undefined || isNaN(v) ? 'N/A' : v.toFixed(digits);
+  const trend = { UPTREND: '上升', DOWNTREND: '下降', SIDEWAYS: '震荡' };
+
+  const rows = timeframes.map(
+    (tf) =>
+      `| ${tf.interval} | ${trend[tf.trend]} | ${value(tf.rsi, 2)} | ${value(tf.macdHistogram)} | ${value(
+        tf.ema20
+      )} | ${value(tf.ema50)} | ${value(tf.atr)} | ${value(tf.support)} | ${value(tf.resistance)} |`
+  );
+
+  return `
+
+## 多周期分析
+| 周期 | 趋势 | RSI | MACD柱 | EMA20 | EMA50 | ATR | 支撑 | 阻力 |
+|------|------|-----|--------|-------|-------|-----|------|------|
+${rows.join('\n')}`;
+}
+
+/**
+ * 构建衍生品数据描述（资金费率、持仓量、多空比）
+ */
+function buildDerivativesSection(indicators: AIDecisionInput['indicators']): string {
+  const lines: string[] = [];
+  const pct = (value: number, digits: number) => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}%`;
+
+  if (indicators.fundingRate !== undefined) {
+    const avg =
+      indicators.fundingRateAvg !== undefined
+        ? ` (7日均值 ${pct(indicators.fundingRateAvg * 100, 4)})`
+        : '';
+    lines.push(`资金费率: ${pct(indicators.fundingRate * 100, 4)}${avg}`);
+  }
+  if (indicators.nextFundingTime) {
+    const minutes = Math.max(0, Math.round((indicators.nextFundingTime - Date.now()) / 60000));
+    lines.push(`距下次结算: ${minutes}分钟`);
+  }
+  if (indicators.openInterest !== undefined) {
+    const value =
+      indicators.openInterestValue !== undefined
+        ? ` ($${(indicators.openInterestValue / 1e6).toFixed(2)}M)`
+        : '';
+    const change =
+      indicators.openInterestChange !== undefined ? `, 24h ${pct(indicators.openInterestChange, 2)}` : '';
+    lines.push(`持仓量(OI): ${indicators.openInterest}${value}${change}`);
+  }
+  if (indicators.longShortRatio !== undefined) {
+    lines.push(`多空账户比: ${indicators.longShortRatio.toFixed(2)}`);
+  }
+  if (indicators.takerBuySellRatio !== undefined) {
+    lines.push(`主动买卖比: ${indicators.takerBuySellRatio.toFixed(2)}`);
+  }
+
+  return lines.length > 0 ? `\n## 衍生品数据\n${lines.join('\n')}` : '';
+}
+
+/**
+ * 构建当前持仓描述
+ */
+function buildPositionSection(position: OpenPositionContext, decimals: number): string {
+  return `
+## 当前持仓
+方向: ${position.side === 'LONG' ? '多' : '空'} ${position.leverage}x
+开仓价: $${position.entryPrice.toFixed(decimals)}
+标记价: $${position.markPrice.toFixed(decimals)}
+数量: ${position.quantity}
+未实现盈亏: $${position.unrealizedPnL.toFixed(2)} (${position.unrealizedPnLPercent.toFixed(2)}%)
+持仓时长: ${position.ageMinutes !== undefined ? `${Math.round(position.ageMinutes)}分钟` : '未知'}
+止损: ${position.stopLoss ? `$${position.stopLoss.toFixed(decimals)}` : '未设置'}
+止盈: ${position.takeProfit ? `$${position.takeProfit.toFixed(decimals)}` : '未设置'}
+可选操作: HOLD / CLOSE / ADD / REDUCE / ADJUST
+`;
+}
+
+/**
+ * 修复提示词：上一次响应未通过校验时追加，要求模型只返回合规 JSON
+ */
+export function buildRepairPrompt(error: string): string {
+  return `你上一次的回复不是有效的决策 JSON，校验错误: ${error}
+
+请只返回一个符合系统提示中格式的 JSON 对象，不要包含任何其他文字：
+- action 必须是 BUY / SELL / HOLD / CLOSE / ADD / REDUCE / ADJUST 之一
+- confidence 为 0-100 的数字，reasoning 为非空字符串
+- 其余数值字段为正数，不适用时省略`;
+}
@@ -0,0 +1,104 @@
+/**
+ * AI决策的结构化输出约束
+ * 模型响应解析和 Validator.validateAIDecision 共用同一份 zod schema
+ */
+
+import { z } from 'zod';
+import type { AIDecisionOutput } from './base';
+
+export const AI_ACTIONS = ['BUY', 'SELL', 'HOLD', 'CLOSE', 'ADD', 'REDUCE', 'ADJUST'] as const;
+
+/**
+ * 数值字段：兼容模型把数字写成字符串（"75"）
+ */
+const numeric = z.preprocess(
+  (value) => (typeof value === 'string' && value.trim() !== '' ? Number(value) : value),
+  z.number().finite()
+);
+
+/**
+ * 可选参数：null 与缺省等价，取值范围在 normalizeDecision 中收敛
+ */
+const optionalPositive = numeric.pipe(z.number().positive()).nullish();
+
+export const aiDecisionSchema = z.object({
+  action: z.preprocess(
+    (value) => (typeof value === 'string' ? value.trim().toUpperCase() : value),
+    z.enum(AI_ACTIONS)
+  ),
+  confidence: numeric.pipe(z.number().min(0).max(100)),
+  reasoning: z.string().trim().min(1),
+  positionSize: optionalPositive,
+  leverage: optionalPositive,
+  stopLoss: optionalPositive,
+  takeProfit: optionalPositive,
+  closePercent: optionalPositive,
+});
+
+export type AIDecisionPayload = z.infer<typeof aiDecisionSchema>;
+
+export interface DecisionParseResult {
+  decision: AIDecisionOutput | null; // 校验失败时为 null
+  error?: string;
+}
+
+/**
+ * zod 校验错误转为一行可读说明（同时用于修复提示词）
+ */
+export function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : 'response'}: ${issue.message}`)
+    .join('; ');
+}
+
+/**
+ * 应用默认值并把参数收敛到允许范围
+ */
+export function normalizeDecision(payload: AIDecisionPayload): AIDecisionOutput {
+  return {
+    action: payload.action,
+    confidence: payload.confidence,
+    reasoning: payload.reasoning,
+    positionSize: Math.max(1, Math.min(100, payload.positionSize ?? 20)),
+    leverage: Math.max(1, Math.min(30, payload.leverage ?? 3)),
+    stopLoss: Math.max(0.5, Math.min(10, payload.stopLoss ?? 2)),
+    takeProfit: Math.max(1, Math.min(20, payload.takeProfit ?? 4)),
+    closePercent: Math.max(1, Math.min(100, payload.closePercent ?? 50)),
+  };
+}
+
+/**
+ * 从模型响应中提取 JSON（兼容 ```json 代码块和前后多余文字）
+ */
+function extractJson(content: string): string | null {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const body = fenced ? fenced[1] : content;
+
+  const start = body.indexOf('{');
+  const end = body.lastIndexOf('}');
+  return start >= 0 && end > start ? body.slice(start, end + 1) : null;
+}
+
+/**
+ * 解析并校验模型响应
+ */
+export function parseDecisionContent(content: string): DecisionParseResult {
+  const json = extractJson(content ?? '');
+  if (!json) {
+    return { decision: null, error: 'No JSON object found in response' };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error: any) {
+    return { decision: null, error: `Invalid JSON: ${error.message}` };
+  }
+
+  const result = aiDecisionSchema.safeParse(raw);
+  if (!result.success) {
+    return { decision: null, error: formatIssues(result.error) };
+  }
+
+  return { decision: normalizeDecision(result.data) };
+}
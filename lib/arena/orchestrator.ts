@@ -0,0 +1,519 @@
+/**
+ * 多模型竞技场
+ * 每个tick为所有模型提供同一份市场快照，各模型在独立虚拟子账户中交易，并生成排行榜
+ */
+
+import { BinanceClient } from '../binance/client';
+import type { SymbolFilters } from '../binance/symbol-info';
+import {
+  AIDecisionProvider,
+  AIDecisionInput,
+  AIDecisionOutput,
+  AIProviderName,
+  OpenPositionContext,
+} from '../ai/base';
+import { promptTemplates } from '../ai/prompt-templates';
+import { gatherMarketData, MarketData } from '../trading/market-data';
+import { tradeRecorder } from '../trading/recorder';
+import { performanceService } from '../trading/performance';
+import { safeExecute, withErrorHandling, Validator } from '../utils/error-handler';
+import { rateLimitManager } from '../utils/rate-limiter';
+import { VirtualAccount, VirtualAccountStats, LedgerEntry } from './virtual-account';
+
+export interface ArenaModel {
+  modelId: string;
+  modelName: string;
+  provider: AIProviderName;
+  ai: AIDecisionProvider;
+  initialCapital: number;
+}
+
+export interface ArenaConfig {
+  symbols: string[];
+  models: ArenaModel[];
+  binance: BinanceClient; // 仅用于公共行情
+  minConfidence?: number;
+  commission?: number;
+  slippage?: number;
+  persist?: boolean; // 是否写入数据库 (默认 true)
+  timeframes?: string[]; // 提供给AI的多周期分析周期
+}
+
+export interface LeaderboardEntry extends VirtualAccountStats {
+  rank: number;
+  modelId: string;
+  modelName: string;
+  provider: AIProviderName;
+}
+
+export interface ArenaTickResult {
+  tick: number;
+  timestamp: number;
+  prices: Record<string, number>;
+  decisions: Array<{ modelId: string; symbol: string; decision?: AIDecisionOutput; error?: string }>;
+  leaderboard: LeaderboardEntry[];
+}
+
+export class ArenaOrchestrator {
+  private config: ArenaConfig;
+  private accounts: Map<string, VirtualAccount> = new Map();
+  private prices: Record<string, number> = {};
+  private tickCount: number = 0;
+  private initialized = false;
+
+  constructor(config: ArenaConfig) {
+    this.config = {
+      minConfidence: 65,
+      persist: true,
+      ...config,
+    };
+
+    config.models.forEach((model) => {
+      this.accounts.set(
+        model.modelId,
+        new VirtualAccount(model.modelId, model.initialCapital, {
+          commission: config.commission,
+          slippage: config.slippage,
+        })
+      );
+    });
+  }
+
+  /**
+   * 从数据库恢复各模型的子账户状态
+   */
+  async init(): Promise<void> {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    if (!this.config.persist) return;
+
+    for (const model of this.config.models) {
+      await safeExecute(
+        async () => {
+          await tradeRecorder.ensureAccount(model.modelId);
+          const metrics = await performanceService.getMetrics(model.modelId);
+          const stored = await tradeRecorder.findOpenPositions(model.modelId);
+
+          const positions = stored.map((p) => ({
+            symbol: p.symbol,
+            side: p.side as 'LONG' | 'SHORT',
+            entryPrice: p.entryPrice,
+            quantity: p.quantity,
+            leverage: p.leverage,
+            margin: (p.entryPrice * p.quantity) / p.leverage,
+            stopLoss: p.stopLoss ?? undefined,
+            takeProfit: p.takeProfit ?? undefined,
+            openedAt: p.openedAt.getTime(),
+          }));
+
+          const lockedMargin = positions.reduce((sum, p) => sum + p.margin, 0);
+          const balance = metrics.portfolioValue - metrics.unrealizedPnL - lockedMargin;
+
+          this.accounts.get(model.modelId)!.restore(balance, positions);
+        },
+        undefined,
+        `Restore arena account ${model.modelName}`
+      );
+    }
+  }
+
+  /**
+   * 执行一个tick：采集快照 → 触发止损止盈 → 所有模型决策 → 更新排行榜
+   */
+  async tick(): Promise<ArenaTickResult> {
+    await this.init();
+    this.tickCount++;
+    const timestamp = Date.now();
+
+    // 1. 所有模型共享同一份市场快照
+    const snapshots: Record<string, MarketData> = {};
+    for (const symbol of this.config.symbols) {
+      snapshots[symbol] = await gatherMarketData(
+        this.config.binance,
+        symbol,
+        undefined,
+        this.config.timeframes
+      );
+      this.prices[symbol] = snapshots[symbol].currentPrice;
+    }
+
+    // 2. 检查止损止盈
+    for (const model of this.config.models) {
+      const account = this.accounts.get(model.modelId)!;
+      for (const symbol of this.config.symbols) {
+        const entry = account.checkTriggers(symbol, this.prices[symbol], timestamp);
+        if (entry) {
+          await this.persistLedgerEntry(model, entry);
+        }
+      }
+    }
+
+    // 3. 各模型并行决策（模型内按标的顺序执行）
+    const results = await Promise.all(
+      this.config.models.map((model) => this.runModel(model, snapshots, timestamp))
+    );
+
+    // 4. 记录权益与快照
+    for (const model of this.config.models) {
+      const account = this.accounts.get(model.modelId)!;
+      account.recordEquity(this.prices, timestamp);
+
+      if (this.config.persist) {
+        for (const symbol of this.config.symbols) {
+          const position = account.getPosition(symbol);
+          await safeExecute(
+            () =>
+              tradeRecorder.syncUnrealizedPnL(
+                model.modelId,
+                symbol,
+                position ? account.positionPnL(position, this.prices[symbol]) : 0
+              ),
+            undefined,
+            'Sync arena unrealized PnL'
+          );
+        }
+        await safeExecute(
+          () => performanceService.recordSnapshot(model.modelId),
+          null,
+          `Arena snapshot for ${model.modelName}`
+        );
+      }
+    }
+
+    return {
+      tick: this.tickCount,
+      timestamp,
+      prices: { ...this.prices },
+      decisions: results.flat(),
+      leaderboard: this.getLeaderboard(),
+    };
+  }
+
+  /**
+   * 单个模型在所有标的上的决策
+   */
+  private async runModel(
+    model: ArenaModel,
+    snapshots: Record<string, MarketData>,
+    timestamp: number
+  ): Promise<ArenaTickResult['decisions']> {
+    const account = this.accounts.get(model.modelId)!;
+    const results: ArenaTickResult['decisions'] = [];
+
+    for (const symbol of this.config.symbols) {
+      const marketData = snapshots[symbol];
+
+      try {
+        const filters = await this.config.binance.getSymbolInfo(symbol);
+        const decision = await this.getDecision(
+          model,
+          this.buildInput(model, account, marketData, filters, timestamp)
+        );
+        Validator.validateAIDecision(decision);
+
+        const error = await this.applyDecision(model, account, marketData, decision, timestamp);
+        results.push({ modelId: model.modelId, symbol, decision, error });
+
+        await this.persistDecision(model, marketData, decision, error);
+      } catch (error: any) {
+        results.push({ modelId: model.modelId, symbol, error: error.message });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * 构建AI输入（市场部分对所有模型一致）
+   */
+  private buildInput(
+    model: ArenaModel,
+    account: VirtualAccount,
+    marketData: MarketData,
+    filters: SymbolFilters,
+    timestamp: number
+  ): AIDecisionInput {
+    const stats = account.getStats(this.prices);
+    const position = account.getPosition(marketData.symbol);
+
+    let positionContext: OpenPositionContext | undefined;
+    if (position) {
+      const unrealizedPnL = account.positionPnL(position, marketData.currentPrice);
+      positionContext = {
+        side: position.side,
+        entryPrice: position.entryPrice,
+        markPrice: marketData.currentPrice,
+        quantity: position.quantity,
+        leverage: position.leverage,
+        unrealizedPnL,
+        unrealizedPnLPercent: position.margin > 0 ? (unrealizedPnL / position.margin) * 100 : 0,
+        ageMinutes: (timestamp - position.openedAt) / 60000,
+        stopLoss: position.stopLoss,
+        takeProfit: position.takeProfit,
+      };
+    }
+
+    return {
+      symbol: marketData.symbol,
+      price: marketData.currentPrice,
+      indicators: marketData.indicators,
+      timeframes: marketData.timeframes,
+      symbolRules: { minNotional: filters.minNotional, priceDecimals: filters.priceDecimals },
+      account: {
+        balance: stats.balance,
+        positions: stats.openPositions,
+        totalValue: stats.equity,
+        unrealizedPnL: stats.unrealizedPnL,
+      },
+      performance: {
+        totalReturn: stats.totalReturn,
+        sharpeRatio: stats.sharpeRatio,
+        winRate: stats.winRate,
+        totalTrades: stats.totalTrades,
+        maxDrawdown: stats.maxDrawdown,
+      },
+      position: positionContext,
+      metadata: {
+        timestamp,
+        wakeupCount: this.tickCount,
+      },
+    };
+  }
+
+  /**
+   * 获取AI决策（带速率限制和重试）
+   */
+  private async getDecision(model: ArenaModel, input: AIDecisionInput): Promise<AIDecisionOutput> {
+    const canProceed = await rateLimitManager.getAILimiter(model.provider).checkLimit(model.modelId);
+    if (!canProceed) {
+      throw new Error('AI API rate limit exceeded');
+    }
+
+    // 提示词模板（含 A/B 分流）存于数据库，不落库的竞技场使用内置提示词
+    const template = this.config.persist
+      ? await safeExecute(() => promptTemplates.select(model.modelId), undefined, 'Load prompt template')
+      : undefined;
+
+    const getDecision = withErrorHandling(
+      async () => await model.ai.makeDecision(input, template),
+      { maxRetries: 3, retryDelay: 2000 }
+    );
+
+    return await getDecision();
+  }
+
+  /**
+   * 在虚拟子账户中执行决策，返回未执行原因
+   */
+  private async applyDecision(
+    model: ArenaModel,
+    account: VirtualAccount,
+    marketData: MarketData,
+    decision: AIDecisionOutput,
+    timestamp: number
+  ): Promise<string | undefined> {
+    const { symbol, currentPrice } = marketData;
+
+    if (decision.confidence < this.config.minConfidence!) {
+      return `Confidence too low: ${decision.confidence}% < ${this.config.minConfidence}%`;
+    }
+
+    const position = account.getPosition(symbol);
+    const { positionSize = 20, leverage = 3, stopLoss = 2, takeProfit = 4 } = decision;
+
+    try {
+      if (position) {
+        switch (decision.action) {
+          case 'CLOSE': {
+            const entry = account.close(symbol, currentPrice, timestamp, 'AI_CLOSE');
+            if (entry) await this.persistLedgerEntry(model, entry, decision);
+            return undefined;
+          }
+          case 'REDUCE': {
+            const entry = account.close(
+              symbol,
+              currentPrice,
+              timestamp,
+              'AI_REDUCE',
+              (decision.closePercent || 50) / 100
+            );
+            if (entry) await this.persistLedgerEntry(model, entry, decision);
+            return undefined;
+          }
+          case 'ADJUST': {
+            const prices = this.protectionPrices(position.side, currentPrice, stopLoss, takeProfit);
+            account.adjust(symbol, prices.stopLoss, prices.takeProfit);
+            if (this.config.persist) {
+              await safeExecute(
+                () => tradeRecorder.updateProtection(model.modelId, symbol, prices.stopLoss, prices.takeProfit),
+                undefined,
+                'Persist arena protection'
+              );
+            }
+            return undefined;
+          }
+          case 'HOLD':
+            return undefined;
+          default:
+            return `${decision.action} is not supported while a position is open in the arena`;
+        }
+      }
+
+      if (decision.action !== 'BUY' && decision.action !== 'SELL') {
+        return undefined;
+      }
+
+      const margin = (account.getBalance() * positionSize) / 100;
+      const { minNotional } = await this.config.binance.getSymbolInfo(symbol);
+      if (margin * leverage < minNotional) {
+        return `Notional value $${(margin * leverage).toFixed(2)} is below minimum $${minNotional}`;
+      }
+
+      const side = decision.action === 'BUY' ? 'LONG' : 'SHORT';
+      const prices = this.protectionPrices(side, currentPrice, stopLoss, takeProfit);
+      const entry = account.open({
+        symbol,
+        side,
+        margin,
+        leverage,
+        price: currentPrice,
+        stopLoss: prices.stopLoss,
+        takeProfit: prices.takeProfit,
+        time: timestamp,
+      });
+      await this.persistLedgerEntry(model, entry, decision);
+
+      return undefined;
+    } catch (error: any) {
+      return error.message;
+    }
+  }
+
+  /**
+   * 根据百分比计算止损止盈价格
+   */
+  private protectionPrices(
+    side: 'LONG' | 'SHORT',
+    price: number,
+    stopLossPercent: number,
+    takeProfitPercent: number
+  ): { stopLoss: number; takeProfit: number } {
+    return side === 'LONG'
+      ? {
+          stopLoss: price * (1 - stopLossPercent / 100),
+          takeProfit: price * (1 + takeProfitPercent / 100),
+        }
+      : {
+          stopLoss: price * (1 + stopLossPercent / 100),
+          takeProfit: price * (1 - takeProfitPercent / 100),
+        };
+  }
+
+  /**
+   * 写入决策记录
+   */
+  private async persistDecision(
+    model: ArenaModel,
+    marketData: MarketData,
+    decision: AIDecisionOutput,
+    error?: string
+  ): Promise<void> {
+    if (!this.config.persist) return;
+
+    await safeExecute(
+      () =>
+        tradeRecorder.recordDecision({
+          modelId: model.modelId,
+          symbol: marketData.symbol,
+          decision,
+          snapshot: {
+            price: marketData.currentPrice,
+            rsi: marketData.indicators.rsi,
+            macd: marketData.indicators.macd,
+            ema20: marketData.indicators.ema20,
+            ema50: marketData.indicators.ema50,
+          },
+          executed: !error && decision.action !== 'HOLD',
+          executionError: error,
+        }),
+      null,
+      'Record arena decision'
+    );
+  }
+
+  /**
+   * 将子账户流水写入 Trade/Position 表
+   */
+  private async persistLedgerEntry(
+    model: ArenaModel,
+    entry: LedgerEntry,
+    decision?: AIDecisionOutput
+  ): Promise<void> {
+    if (!this.config.persist) return;
+
+    await safeExecute(
+      async () => {
+        if (entry.type === 'OPEN') {
+          const position = this.accounts.get(model.modelId)!.getPosition(entry.symbol);
+          await tradeRecorder.recordOpenTrade({
+            modelId: model.modelId,
+            symbol: entry.symbol,
+            side: entry.side,
+            price: entry.price,
+            quantity: entry.quantity,
+            leverage: entry.leverage,
+            stopLoss: position?.stopLoss,
+            takeProfit: position?.takeProfit,
+            fee: entry.fee,
+            reasoning: decision?.reasoning,
+            confidence: decision?.confidence,
+            promptVersion: decision?.promptVersion,
+          });
+        } else {
+          await tradeRecorder.recordCloseTrade({
+            modelId: model.modelId,
+            symbol: entry.symbol,
+            side: entry.side,
+            price: entry.price,
+            quantity: entry.quantity,
+            entryPrice: entry.entryPrice,
+            leverage: entry.leverage,
+            fee: entry.fee,
+            reasoning: decision?.reasoning ?? entry.reason,
+            confidence: decision?.confidence,
+          });
+        }
+      },
+      undefined,
+      `Record arena ${entry.type}`
+    );
+  }
+
+  /**
+   * 排行榜：默认按收益率排序，收益相同时按夏普比率
+   */
+  getLeaderboard(sortBy: 'return' | 'sharpe' = 'return'): LeaderboardEntry[] {
+    const entries = this.config.models.map((model) => ({
+      modelId: model.modelId,
+      modelName: model.modelName,
+      provider: model.provider,
+      ...this.accounts.get(model.modelId)!.getStats(this.prices),
+    }));
+
+    entries.sort((a, b) =>
+      sortBy === 'sharpe'
+        ? b.sharpeRatio - a.sharpeRatio || b.totalReturn - a.totalReturn
+        : b.totalReturn - a.totalReturn || b.sharpeRatio - a.sharpeRatio
+    );
+
+    return entries.map((entry, index) => ({ rank: index + 1, ...entry }));
+  }
+
+  /**
+   * 获取模型的子账户
+   */
+  getAccount(modelId: string): VirtualAccount | undefined {
+    return this.accounts.get(modelId);
+  }
+}
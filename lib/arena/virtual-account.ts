@@ -0,0 +1,299 @@
+/**
+ * 竞技场虚拟子账户
+ * 每个模型独立的资金、持仓和流水账，按市场快照价格模拟成交
+ */
+
+import { calculateSharpe, calculateMaxDrawdown } from '../trading/performance';
+
+export interface VirtualPosition {
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  entryPrice: number;
+  quantity: number;
+  leverage: number;
+  margin: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  openedAt: number;
+}
+
+export interface LedgerEntry {
+  time: number;
+  type: 'OPEN' | 'CLOSE' | 'REDUCE';
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  price: number;
+  quantity: number;
+  leverage: number;
+  entryPrice: number;
+  fee: number;
+  pnl?: number; // 平仓时的已实现盈亏（不含手续费）
+  balance: number; // 操作后可用资金
+  reason?: string;
+}
+
+export interface VirtualAccountStats {
+  equity: number;
+  balance: number;
+  unrealizedPnL: number;
+  totalReturn: number; // 百分比
+  sharpeRatio: number;
+  maxDrawdown: number; // 百分比
+  winRate: number; // 百分比
+  totalTrades: number; // 已平仓交易数
+  openPositions: number;
+}
+
+export interface VirtualAccountOptions {
+  commission?: number; // 手续费率 (默认0.04%)
+  slippage?: number; // 滑点 (默认0.05%)
+}
+
+export class VirtualAccount {
+  readonly modelId: string;
+  readonly initialCapital: number;
+  private balance: number;
+  private commission: number;
+  private slippage: number;
+  private positions: Map<string, VirtualPosition> = new Map();
+  private ledger: LedgerEntry[] = [];
+  private equityHistory: Array<{ value: number; time: number }> = [];
+
+  constructor(modelId: string, initialCapital: number, options: VirtualAccountOptions = {}) {
+    this.modelId = modelId;
+    this.initialCapital = initialCapital;
+    this.balance = initialCapital;
+    this.commission = options.commission ?? 0.0004;
+    this.slippage = options.slippage ?? 0.0005;
+  }
+
+  /**
+   * 从持久化状态恢复
+   */
+  restore(balance: number, positions: VirtualPosition[]): void {
+    this.balance = balance;
+    this.positions.clear();
+    positions.forEach((p) => this.positions.set(p.symbol, p));
+  }
+
+  getBalance(): number {
+    return this.balance;
+  }
+
+  getPosition(symbol: string): VirtualPosition | undefined {
+    return this.positions.get(symbol);
+  }
+
+  getPositions(): VirtualPosition[] {
+    return Array.from(this.positions.values());
+  }
+
+  getLedger(): LedgerEntry[] {
+    return this.ledger;
+  }
+
+  /**
+   * 单个持仓的未实现盈亏
+   */
+  positionPnL(position: VirtualPosition, price: number): number {
+    const direction = position.side === 'LONG' ? 1 : -1;
+    return (price - position.entryPrice) * position.quantity * direction;
+  }
+
+  /**
+   * 未实现盈亏合计
+   */
+  unrealizedPnL(prices: Record<string, number>): number {
+    return this.getPositions().reduce((sum, p) => {
+      const price = prices[p.symbol] ?? p.entryPrice;
+      return sum + this.positionPnL(p, price);
+    }, 0);
+  }
+
+  /**
+   * 账户权益 = 可用资金 + 占用保证金 + 未实现盈亏
+   */
+  equity(prices: Record<string, number>): number {
+    const margin = this.getPositions().reduce((sum, p) => sum + p.margin, 0);
+    return this.balance + margin + this.unrealizedPnL(prices);
+  }
+
+  /**
+   * 开仓（市价，含滑点和手续费）
+   */
+  open(params: {
+    symbol: string;
+    side: 'LONG' | 'SHORT';
+    margin: number;
+    leverage: number;
+    price: number;
+    stopLoss?: number;
+    takeProfit?: number;
+    time: number;
+  }): LedgerEntry {
+    const { symbol, side, margin, leverage, price, stopLoss, takeProfit, time } = params;
+
+    if (this.positions.has(symbol)) {
+      throw new Error(`Virtual account ${this.modelId} already has a ${symbol} position`);
+    }
+
+    const notionalValue = margin * leverage;
+    const fee = notionalValue * this.commission;
+
+    if (margin + fee > this.balance) {
+      throw new Error(
+        `Insufficient virtual balance: need $${(margin + fee).toFixed(2)}, have $${this.balance.toFixed(2)}`
+      );
+    }
+
+    const entryPrice = side === 'LONG'
+      ? price * (1 + this.slippage)
+      : price * (1 - this.slippage);
+    const quantity = notionalValue / entryPrice;
+
+    this.balance -= margin + fee;
+    this.positions.set(symbol, {
+      symbol,
+      side,
+      entryPrice,
+      quantity,
+      leverage,
+      margin,
+      stopLoss,
+      takeProfit,
+      openedAt: time,
+    });
+
+    return this.addEntry({
+      time,
+      type: 'OPEN',
+      symbol,
+      side,
+      price: entryPrice,
+      quantity,
+      leverage,
+      entryPrice,
+      fee,
+      balance: this.balance,
+    });
+  }
+
+  /**
+   * 平仓（fraction < 1 时部分平仓）
+   * exactPrice 为 true 时按给定价格成交（止损止盈触发价），否则应用滑点
+   */
+  close(
+    symbol: string,
+    price: number,
+    time: number,
+    reason: string,
+    fraction: number = 1,
+    exactPrice: boolean = false
+  ): LedgerEntry | null {
+    const position = this.positions.get(symbol);
+    if (!position) return null;
+
+    const ratio = Math.max(0, Math.min(1, fraction));
+    const exitPrice = exactPrice
+      ? price
+      : position.side === 'LONG'
+      ? price * (1 - this.slippage)
+      : price * (1 + this.slippage);
+
+    const quantity = position.quantity * ratio;
+    const margin = position.margin * ratio;
+    const direction = position.side === 'LONG' ? 1 : -1;
+    const pnl = (exitPrice - position.entryPrice) * quantity * direction;
+    const fee = quantity * exitPrice * this.commission;
+
+    this.balance += margin + pnl - fee;
+
+    const isFullClose = ratio >= 1;
+    if (isFullClose) {
+      this.positions.delete(symbol);
+    } else {
+      position.quantity -= quantity;
+      position.margin -= margin;
+    }
+
+    return this.addEntry({
+      time,
+      type: isFullClose ? 'CLOSE' : 'REDUCE',
+      symbol,
+      side: position.side,
+      price: exitPrice,
+      quantity,
+      leverage: position.leverage,
+      entryPrice: position.entryPrice,
+      fee,
+      pnl,
+      balance: this.balance,
+      reason,
+    });
+  }
+
+  /**
+   * 调整止损止盈
+   */
+  adjust(symbol: string, stopLoss?: number, takeProfit?: number): void {
+    const position = this.positions.get(symbol);
+    if (!position) return;
+
+    position.stopLoss = stopLoss;
+    position.takeProfit = takeProfit;
+  }
+
+  /**
+   * 按最新价格检查止损止盈
+   */
+  checkTriggers(symbol: string, price: number, time: number): LedgerEntry | null {
+    const position = this.positions.get(symbol);
+    if (!position) return null;
+
+    const { side, stopLoss, takeProfit } = position;
+
+    if (stopLoss && (side === 'LONG' ? price <= stopLoss : price >= stopLoss)) {
+      return this.close(symbol, stopLoss, time, 'STOP_LOSS', 1, true);
+    }
+
+    if (takeProfit && (side === 'LONG' ? price >= takeProfit : price <= takeProfit)) {
+      return this.close(symbol, takeProfit, time, 'TAKE_PROFIT', 1, true);
+    }
+
+    return null;
+  }
+
+  /**
+   * 记录权益曲线点
+   */
+  recordEquity(prices: Record<string, number>, time: number): void {
+    this.equityHistory.push({ value: this.equity(prices), time });
+  }
+
+  /**
+   * 账户统计
+   */
+  getStats(prices: Record<string, number>): VirtualAccountStats {
+    const equity = this.equity(prices);
+    const closed = this.ledger.filter((e) => e.type !== 'OPEN');
+    const wins = closed.filter((e) => (e.pnl ?? 0) - e.fee > 0).length;
+    const curve = [...this.equityHistory, { value: equity, time: Date.now() }];
+
+    return {
+      equity,
+      balance: this.balance,
+      unrealizedPnL: this.unrealizedPnL(prices),
+      totalReturn: ((equity - this.initialCapital) / this.initialCapital) * 100,
+      sharpeRatio: calculateSharpe(curve),
+      maxDrawdown: calculateMaxDrawdown(curve.map((p) => p.value)),
+      winRate: closed.length > 0 ? (wins / closed.length) * 100 : 0,
+      totalTrades: closed.length,
+      openPositions: this.positions.size,
+    };
+  }
+
+  private addEntry(entry: LedgerEntry): LedgerEntry {
+    this.ledger.push(entry);
+    return entry;
+  }
+}
@@ -3,8 +3,17 @@
  * 使用历史数据模拟AI交易策略
  */
 
-import { DeepSeekClient, AIDecisionInput } from '../ai/deepseek';
-import { calculateAllIndicators, getLatest } from '../indicators/technical';
+import { AIDecisionProvider, AIDecisionInput, AIProviderName } from '../ai/base';
+import { createAIProvider } from '../ai/factory';
+import { Kline as Candle, calculateAllIndicators, getLatest } from '../indicators/technical';
+import {
+  DEFAULT_TIMEFRAMES,
+  INTERVAL_MS,
+  TimeframeSnapshot,
+  analyzeTimeframe,
+  resampleKlines,
+} from '../indicators/timeframes';
+import { ErrorLogger, classifyError } from '../utils/error-handler';
 
 export interface BacktestConfig {
   symbol: string;
@@ -12,8 +21,12 @@ export interface BacktestConfig {
   minConfidence: number; // 最小交易信心度
   aiApiKey: string;
   aiModel?: string;
+  aiProvider?: AIProviderName; // 默认 deepseek
+  aiBaseURL?: string;
   commission?: number; // 手续费率 (默认0.04%)
   slippage?: number; // 滑点 (默认0.05%)
+  interval?: string; // 输入K线周期 (默认1h)
+  timeframes?: string[]; // 多周期分析周期，由输入K线重采样，短于输入周期的会被忽略
 }
 
 export interface Kline {
@@ -25,6 +38,11 @@ export interface Kline {
   volume: number;
 }
 
+export interface FundingRate {
+  fundingTime: number;
+  fundingRate: number; // 小数，正数为多头支付空头
+}
+
 export interface Trade {
   entryTime: number;
   exitTime: number;
@@ -36,6 +54,7 @@ export interface Trade {
   pnl: number;
   pnlPercent: number;
   commission: number;
+  funding: number; // 持仓期间结算的资金费（负数为支付）
   reason: string; // 退出原因
 }
 
@@ -59,6 +78,7 @@ export interface BacktestResult {
   averageWin: number;
   averageLoss: number;
   profitFactor: number; // 盈亏比
+  totalFunding: number; // 资金费合计（负数为支付）
 
   // 风险指标
   maxDrawdown: number; // 最大回撤
@@ -74,7 +94,7 @@ export interface BacktestResult {
 
 export class BacktestEngine {
   private config: BacktestConfig;
-  private ai: DeepSeekClient;
+  private ai: AIDecisionProvider;
   private currentCapital: number;
   private currentPosition: {
     side: 'LONG' | 'SHORT';
@@ -84,8 +104,10 @@ export class BacktestEngine {
     leverage: number;
     stopLoss: number;
     takeProfit: number;
+    funding: number;
   } | null = null;
 
+  private timeframes: string[];
   private trades: Trade[] = [];
   private equityCurve: Array<{ time: number; equity: number }> = [];
   private maxEquity: number;
@@ -95,18 +117,35 @@ export class BacktestEngine {
       ...config,
       commission: config.commission || 0.0004, // 0.04%
       slippage: config.slippage || 0.0005, // 0.05%
-      aiModel: config.aiModel || 'deepseek-chat',
+      aiProvider: config.aiProvider || 'deepseek',
+      interval: config.interval || '1h',
     };
 
+    const baseMs = INTERVAL_MS[this.config.interval!];
+    if (!baseMs) {
+      throw new Error(`Unsupported backtest interval: ${this.config.interval}`);
+    }
+    this.timeframes = (config.timeframes ?? DEFAULT_TIMEFRAMES).filter((interval) => {
+      if (INTERVAL_MS[interval] >= baseMs) return true;
+      console.warn(`[Backtest] Timeframe ${interval} is shorter than ${this.config.interval}, skipped`);
+      return false;
+    });
+
     this.currentCapital = config.initialCapital;
     this.maxEquity = config.initialCapital;
-    this.ai = new DeepSeekClient(config.aiApiKey, this.config.aiModel);
+    this.ai = createAIProvider({
+      provider: this.config.aiProvider!,
+      apiKey: config.aiApiKey,
+      model: this.config.aiModel,
+      baseURL: config.aiBaseURL,
+    });
   }
 
   /**
    * 运行回测
+   * fundingRates 为回测区间的历史资金费率（按时间升序），持仓跨过结算时刻时按当时价格收取
    */
-  async run(klines: Kline[]): Promise<BacktestResult> {
+  async run(klines: Kline[], fundingRates: FundingRate[] = []): Promise<BacktestResult> {
     const startTime = Date.now();
 
     console.log(`🔄 Starting backtest on ${klines.length} candles...`);
@@ -120,11 +159,23 @@ export class BacktestEngine {
       equity: this.currentCapital,
     });
 
+    // 第一根决策K线之前的结算时刻没有持仓，在循环中直接跳过
+    let fundingIndex = 0;
+
     // 遍历每根K线
     for (let i = 200; i < klines.length; i++) {
       const currentKline = klines[i];
       const historicalKlines = klines.slice(i - 200, i);
 
+      // 结算上一根K线开盘到本根开盘之间的资金费（持仓在上一根收盘时已建立）
+      while (
+        fundingIndex < fundingRates.length &&
+        fundingRates[fundingIndex].fundingTime <= currentKline.openTime
+      ) {
+        this.settleFunding(fundingRates[fundingIndex], currentKline.open);
+        fundingIndex++;
+      }
+
       // 检查止损止盈
       if (this.currentPosition) {
         const exitReason = this.checkStopLossTakeProfit(currentKline);
@@ -135,7 +186,8 @@ export class BacktestEngine {
 
       // 如果没有持仓，尝试开仓
       if (!this.currentPosition) {
-        await this.tryOpenPosition(historicalKlines, currentKline, i);
+        const timeframes = this.analyzeTimeframes(klines, i);
+        await this.tryOpenPosition(historicalKlines, currentKline, i, timeframes);
       }
 
       // 记录权益
@@ -178,7 +230,8 @@ export class BacktestEngine {
   private async tryOpenPosition(
     historicalKlines: Kline[],
     currentKline: Kline,
-    index: number
+    index: number,
+    timeframes: TimeframeSnapshot[]
   ): Promise<void> {
     // 计算技术指标
     const indicators = calculateAllIndicators(
@@ -209,6 +262,7 @@ export class BacktestEngine {
         bollingerLower: getLatest(indicators.bollingerBands.lower),
         atr: getLatest(indicators.atr),
       },
+      timeframes,
       account: {
         balance: this.currentCapital,
         positions: this.currentPosition ? 1 : 0,
@@ -222,8 +276,14 @@ export class BacktestEngine {
       },
     };
 
-    // 获取AI决策
-    const decision = await this.ai.makeDecision(aiInput);
+    // 获取AI决策（修复后仍无效的响应记录错误并跳过本根K线）
+    let decision;
+    try {
+      decision = await this.ai.makeDecision(aiInput);
+    } catch (error: any) {
+      ErrorLogger.log(classifyError(error));
+      return;
+    }
 
     // 检查信心度
     if (decision.confidence < this.config.minConfidence) {
@@ -273,6 +333,7 @@ export class BacktestEngine {
         leverage,
         stopLoss: stopLossPrice,
         takeProfit: takeProfitPrice,
+        funding: 0,
       };
 
       console.log(
@@ -281,6 +342,32 @@ export class BacktestEngine {
     }
   }
 
+  /**
+   * 多周期快照：只用第 index 根之前已收盘的K线重采样，避免未来数据
+   */
+  private analyzeTimeframes(klines: Kline[], index: number): TimeframeSnapshot[] {
+    return this.timeframes.map((interval) => {
+      const targetMs = INTERVAL_MS[interval];
+
+      // 从对齐的高周期边界开始截取，最多覆盖200根高周期K线
+      const lastBucket = Math.floor(klines[index - 1].openTime / targetMs) * targetMs;
+      const startTime = lastBucket - 199 * targetMs;
+      let from = index;
+      while (from > 0 && klines[from - 1].openTime >= startTime) from--;
+
+      const history: Candle[] = klines.slice(from, index).map((k) => ({
+        open: k.open,
+        high: k.high,
+        low: k.low,
+        close: k.close,
+        volume: k.volume,
+        timestamp: k.openTime,
+      }));
+
+      return analyzeTimeframe(interval, resampleKlines(history, targetMs));
+    });
+  }
+
   /**
    * 检查止损止盈
    */
@@ -309,13 +396,27 @@ export class BacktestEngine {
     return null;
   }
 
+  /**
+   * 资金费结算：多头支付 数量×价格×费率，空头收取（费率为负时相反）
+   */
+  private settleFunding(funding: FundingRate, price: number): void {
+    if (!this.currentPosition) return;
+
+    const { side, quantity } = this.currentPosition;
+    const direction = side === 'LONG' ? 1 : -1;
+    const payment = -direction * quantity * price * funding.fundingRate;
+
+    this.currentCapital += payment;
+    this.currentPosition.funding += payment;
+  }
+
   /**
    * 平仓
    */
   private closePosition(kline: Kline, reason: string): void {
     if (!this.currentPosition) return;
 
-    const { side, entryPrice, entryTime, quantity, leverage } = this.currentPosition;
+    const { side, entryPrice, entryTime, quantity, leverage, funding } = this.currentPosition;
 
     // 确定退出价格
     let exitPrice: number;
@@ -340,8 +441,9 @@ export class BacktestEngine {
     const closeCommission = quantity * exitPrice * this.config.commission!;
     const netPnL = grossPnL - closeCommission;
 
-    // 更新资金
+    // 更新资金（资金费已在结算时计入）
     this.currentCapital += netPnL;
+    const pnl = netPnL + funding;
 
     // 记录交易
     const trade: Trade = {
@@ -352,16 +454,17 @@ export class BacktestEngine {
       exitPrice,
       quantity,
       leverage,
-      pnl: netPnL,
-      pnlPercent: (netPnL / (notionalValue / leverage)) * 100,
+      pnl,
+      pnlPercent: (pnl / (notionalValue / leverage)) * 100,
       commission: closeCommission,
+      funding,
       reason,
     };
 
     this.trades.push(trade);
 
     console.log(
-      `📉 CLOSE ${side} at $${exitPrice.toFixed(2)} | PnL: $${netPnL.toFixed(2)} (${trade.pnlPercent.toFixed(2)}%) | Reason: ${reason}`
+      `📉 CLOSE ${side} at $${exitPrice.toFixed(2)} | PnL: $${pnl.toFixed(2)} (${trade.pnlPercent.toFixed(2)}%) | Reason: ${reason}`
     );
 
     this.currentPosition = null;
@@ -437,6 +540,8 @@ export class BacktestEngine {
     const totalWin = wins.reduce((sum, t) => sum + t.pnl, 0);
     const totalLoss = Math.abs(losses.reduce((sum, t) => sum + t.pnl, 0));
 
+    const totalFunding = this.trades.reduce((sum, t) => sum + t.funding, 0);
+
     const totalReturn = this.currentCapital - this.config.initialCapital;
     const totalReturnPercent = (totalReturn / this.config.initialCapital) * 100;
 
@@ -495,6 +600,7 @@ export class BacktestEngine {
       averageWin: wins.length > 0 ? totalWin / wins.length : 0,
       averageLoss: losses.length > 0 ? totalLoss / losses.length : 0,
       profitFactor: totalLoss > 0 ? totalWin / totalLoss : 0,
+      totalFunding,
 
       maxDrawdown,
       maxDrawdownPercent: (maxDrawdown / peak) * 100,
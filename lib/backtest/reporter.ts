@@ -51,6 +51,7 @@ export class BacktestReporter {
     console.log(`Average Win: $${result.averageWin.toFixed(2)}`);
     console.log(`Average Loss: $${result.averageLoss.toFixed(2)}`);
     console.log(`Profit Factor: ${result.profitFactor.toFixed(2)}`);
+    console.log(`Funding: $${result.totalFunding.toFixed(2)}`);
 
     // 风险指标
     console.log('\n📉 Risk Metrics');
@@ -131,7 +132,8 @@ export class BacktestReporter {
     md += `| 胜率 | ${result.winRate.toFixed(2)}% |\n`;
     md += `| 平均盈利 | $${result.averageWin.toFixed(2)} |\n`;
     md += `| 平均亏损 | $${result.averageLoss.toFixed(2)} |\n`;
-    md += `| 盈亏比 | ${result.profitFactor.toFixed(2)} |\n\n`;
+    md += `| 盈亏比 | ${result.profitFactor.toFixed(2)} |\n`;
+    md += `| 资金费 | $${result.totalFunding.toFixed(2)} |\n\n`;
 
     md += `## 风险指标\n\n`;
     md += `| 指标 | 值 |\n`;
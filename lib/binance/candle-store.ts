@@ -0,0 +1,218 @@
+/**
+ * 实时K线缓存
+ * 启动时通过 REST 回填K线，之后由 WebSocket 的 kline/aggTrade/depth/ticker/markPrice 流增量更新，
+ * 交易周期直接读取缓存计算指标，不再每轮拉取K线
+ */
+
+import { BinanceClient } from './client';
+import {
+  BinanceWebSocketClient,
+  KlineStream,
+  AggTradeStream,
+  DepthStream,
+  MarketStream,
+  wsManager,
+} from './websocket';
+import type { Kline } from '../indicators/technical';
+import { INTERVAL_MS } from '../indicators/timeframes';
+
+export interface CandleStoreOptions {
+  intervals?: string[]; // 缓存的K线周期
+  limit?: number; // 每个序列保留的K线数量
+  depthLevels?: 5 | 10 | 20; // 订阅的盘口档位
+  staleAfter?: number; // 超过该时长（毫秒）无推送视为过期，读取方回退到 REST
+}
+
+function seriesKey(symbol: string, interval: string): string {
+  return `${symbol.toUpperCase()}:${interval}`;
+}
+
+export class CandleStore {
+  private binance: BinanceClient;
+  private testnet: boolean;
+  private options: Required<CandleStoreOptions>;
+  private ws: BinanceWebSocketClient | null = null;
+  private wsKey: string | null = null;
+  private series: Map<string, Kline[]> = new Map();
+  private lastUpdate: Map<string, number> = new Map();
+  private reseeding: Set<string> = new Set();
+  private tickers: Map<string, MarketStream> = new Map();
+  private marks: Map<string, MarketStream> = new Map();
+  private lastTrades: Map<string, AggTradeStream> = new Map();
+  private books: Map<string, DepthStream> = new Map();
+
+  constructor(binance: BinanceClient, testnet: boolean = false, options: CandleStoreOptions = {}) {
+    this.binance = binance;
+    this.testnet = testnet;
+    this.options = {
+      intervals: options.intervals ?? ['1h'],
+      limit: options.limit ?? 200,
+      depthLevels: options.depthLevels ?? 20,
+      staleAfter: options.staleAfter ?? 60 * 1000,
+    };
+  }
+
+  /**
+   * 回填所有标的的K线并连接实时流
+   */
+  async start(symbols: string[]): Promise<void> {
+    for (const symbol of symbols) {
+      for (const interval of this.options.intervals) {
+        await this.seed(symbol, interval);
+      }
+    }
+
+    const streams = symbols.flatMap((s) => {
+      const name = s.toLowerCase();
+      return [
+        ...this.options.intervals.map((interval) => `${name}@kline_${interval}`),
+        `${name}@aggTrade`,
+        `${name}@depth${this.options.depthLevels}@500ms`,
+        `${name}@ticker`,
+        `${name}@markPrice`,
+      ];
+    });
+
+    this.ws = new BinanceWebSocketClient(this.testnet);
+    this.wsKey = `candles:${symbols.slice().sort().join(',')}`;
+    wsManager.register(this.wsKey, this.ws);
+    this.ws.onKline((kline) => this.applyKline(kline));
+    this.ws.onAggTrade((trade) => this.lastTrades.set(trade.symbol, trade));
+    this.ws.onDepth((depth) => this.books.set(depth.symbol, depth));
+    symbols.forEach((s) => {
+      // ticker 和 markPrice 推送到同一订阅，带资金费率的是标记价格
+      this.ws!.subscribe(s.toLowerCase(), (data) => {
+        (data.fundingRate !== undefined ? this.marks : this.tickers).set(data.symbol, data);
+      });
+    });
+
+    await this.ws.connect(streams);
+  }
+
+  /**
+   * 通过 REST 回填（或重建）一个K线序列
+   */
+  private async seed(symbol: string, interval: string): Promise<void> {
+    const key = seriesKey(symbol, interval);
+    const klines = await this.binance.getKlines(symbol, interval, this.options.limit);
+
+    this.series.set(
+      key,
+      klines.map((k) => ({
+        open: parseFloat(k.open),
+        high: parseFloat(k.high),
+        low: parseFloat(k.low),
+        close: parseFloat(k.close),
+        volume: parseFloat(k.volume),
+        timestamp: k.openTime,
+      }))
+    );
+    this.lastUpdate.set(key, Date.now());
+  }
+
+  /**
+   * 推送的K线：同一根则覆盖，新一根则追加；发现缺口（断线期间漏推）时重新回填
+   */
+  private applyKline(kline: KlineStream): void {
+    const key = seriesKey(kline.symbol, kline.interval);
+    const candles = this.series.get(key);
+    if (!candles || this.reseeding.has(key)) return;
+
+    const candle: Kline = {
+      open: kline.open,
+      high: kline.high,
+      low: kline.low,
+      close: kline.close,
+      volume: kline.volume,
+      timestamp: kline.openTime,
+    };
+
+    const last = candles[candles.length - 1];
+    const intervalMs = INTERVAL_MS[kline.interval];
+
+    if (last && kline.openTime < last.timestamp) return;
+
+    if (last && intervalMs && kline.openTime > last.timestamp + intervalMs) {
+      this.reseeding.add(key);
+      this.seed(kline.symbol, kline.interval)
+        .catch((error) => {
+          console.error(`[CandleStore] Failed to reseed ${key}:`, error.message);
+        })
+        .finally(() => this.reseeding.delete(key));
+      return;
+    }
+
+    if (last && last.timestamp === kline.openTime) {
+      candles[candles.length - 1] = candle;
+    } else {
+      candles.push(candle);
+      if (candles.length > this.options.limit) {
+        candles.splice(0, candles.length - this.options.limit);
+      }
+    }
+
+    this.lastUpdate.set(key, Date.now());
+  }
+
+  private isFresh(timestamp?: number): boolean {
+    return timestamp !== undefined && Date.now() - timestamp <= this.options.staleAfter;
+  }
+
+  /**
+   * 读取K线序列（副本），未缓存或已过期时返回 null
+   */
+  getCandles(symbol: string, interval: string = '1h'): Kline[] | null {
+    const key = seriesKey(symbol, interval);
+    const candles = this.series.get(key);
+    if (!candles || candles.length === 0 || !this.isFresh(this.lastUpdate.get(key))) {
+      return null;
+    }
+    return candles.slice();
+  }
+
+  /**
+   * 最新成交价
+   */
+  getLastPrice(symbol: string): number | null {
+    const trade = this.lastTrades.get(symbol.toUpperCase());
+    return trade && this.isFresh(trade.tradeTime) ? trade.price : null;
+  }
+
+  /**
+   * 24h 行情
+   */
+  getTicker(symbol: string): MarketStream | null {
+    const ticker = this.tickers.get(symbol.toUpperCase());
+    return ticker && this.isFresh(ticker.timestamp) ? ticker : null;
+  }
+
+  /**
+   * 实时资金费率（markPrice 流）
+   */
+  getFundingRate(symbol: string): number | null {
+    const mark = this.marks.get(symbol.toUpperCase());
+    return mark && this.isFresh(mark.timestamp) ? mark.fundingRate ?? null : null;
+  }
+
+  /**
+   * 盘口快照
+   */
+  getOrderBook(symbol: string): DepthStream | null {
+    const book = this.books.get(symbol.toUpperCase());
+    return book && this.isFresh(book.timestamp) ? book : null;
+  }
+
+  /**
+   * 关闭实时流
+   */
+  close(): void {
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+    if (this.wsKey) {
+      wsManager.unregister(this.wsKey);
+      this.wsKey = null;
+    }
+  }
+}
@@ -5,6 +5,23 @@
 
 import crypto from 'crypto';
 import axios, { AxiosInstance } from 'axios';
+import type {
+  ExecutionVenue,
+  BracketOrderParams,
+  BracketOrderResult,
+  BracketLegResult,
+  LimitOrderParams,
+  ProtectionParams,
+  ProtectionResult,
+} from '../execution/venue';
+import { ExponentialBackoff } from '../utils/rate-limiter';
+import {
+  SymbolInfoCache,
+  SymbolFilters,
+  roundQuantity,
+  roundPrice,
+  validateOrder,
+} from './symbol-info';
 
 export interface BinanceConfig {
   apiKey: string;
@@ -20,7 +37,11 @@ export interface OrderParams {
   price?: number;
   stopPrice?: number;
   positionSide?: 'LONG' | 'SHORT' | 'BOTH';
-  timeInForce?: 'GTC' | 'IOC' | 'FOK';
+  timeInForce?: 'GTC' | 'IOC' | 'FOK' | 'GTX'; // GTX：只做 maker（post-only）
+  reduceOnly?: boolean; // 仅单向持仓模式生效（双向持仓下忽略）
+  closePosition?: boolean; // 触发后平掉整个持仓（STOP_MARKET/TAKE_PROFIT_MARKET）
+  workingType?: 'MARK_PRICE' | 'CONTRACT_PRICE';
+  newClientOrderId?: string; // 自定义订单号，用于重试时回查去重
 }
 
 export interface Position {
@@ -32,6 +53,55 @@ export interface Position {
   positionSide: string;
 }
 
+export interface UserTrade {
+  symbol: string;
+  id: number;
+  orderId: number;
+  side: 'BUY' | 'SELL';
+  positionSide: string;
+  price: string;
+  qty: string;
+  realizedPnl: string;
+  commission: string;
+  commissionAsset: string;
+  time: number;
+}
+
+export interface IncomeRecord {
+  symbol: string;
+  incomeType: string; // FUNDING_FEE, REALIZED_PNL, COMMISSION 等
+  income: string; // 正数为收入，负数为支出
+  asset: string;
+  info: string;
+  time: number;
+  tranId: number;
+  tradeId: string;
+}
+
+export type MarginType = 'ISOLATED' | 'CROSSED';
+
+export interface LeverageBracket {
+  bracket: number;
+  initialLeverage: number; // 该档位允许的最大杠杆
+  notionalCap: number;
+  notionalFloor: number;
+  maintMarginRatio: number; // 维持保证金率
+  cum: number; // 维持保证金速算额
+}
+
+export interface SymbolLeverageBrackets {
+  symbol: string;
+  brackets: LeverageBracket[];
+}
+
+export interface BookTicker {
+  symbol: string;
+  bidPrice: number;
+  bidQty: number;
+  askPrice: number;
+  askQty: number;
+}
+
 export interface Balance {
   asset: string;
   balance: string;
@@ -48,11 +118,17 @@ export interface KlineData {
   closeTime: number;
 }
 
-export class BinanceClient {
+// 同一环境的客户端共享交易对规则缓存
+const symbolInfoCaches: Map<string, SymbolInfoCache> = new Map();
+
+export class BinanceClient implements ExecutionVenue {
   private axiosInstance: AxiosInstance;
   private apiKey: string;
   private apiSecret: string;
   private baseURL: string;
+  private symbolInfo: SymbolInfoCache;
+  private dualSidePosition: Promise<boolean> | null = null; // 持仓模式缓存
+  private marginTypes: Map<string, MarginType> = new Map(); // 已确认的逐仓/全仓设置
 
   constructor(config: BinanceConfig) {
     this.apiKey = config.apiKey;
@@ -67,6 +143,11 @@ export class BinanceClient {
         'X-MBX-APIKEY': this.apiKey,
       },
     });
+
+    if (!symbolInfoCaches.has(this.baseURL)) {
+      symbolInfoCaches.set(this.baseURL, new SymbolInfoCache(() => this.getExchangeInfo()));
+    }
+    this.symbolInfo = symbolInfoCaches.get(this.baseURL)!;
   }
 
   /**
@@ -116,6 +197,46 @@ export class BinanceClient {
     }
   }
 
+  /**
+   * 发起仅需 API Key 的请求（用户数据流 listenKey 管理）
+   */
+  private async apiKeyRequest(
+    method: 'POST' | 'PUT' | 'DELETE',
+    endpoint: string
+  ): Promise<any> {
+    try {
+      const response = await this.axiosInstance.request({ method, url: endpoint });
+      return response.data;
+    } catch (error: any) {
+      throw new Error(
+        `Binance API Error: ${error.response?.data?.msg || error.message}`
+      );
+    }
+  }
+
+  /**
+   * 创建用户数据流 listenKey（有效期60分钟）
+   * 已存在有效 listenKey 时币安返回同一个并延长有效期
+   */
+  async createListenKey(): Promise<string> {
+    const response = await this.apiKeyRequest('POST', '/fapi/v1/listenKey');
+    return response.listenKey;
+  }
+
+  /**
+   * 延长 listenKey 有效期
+   */
+  async keepAliveListenKey(): Promise<void> {
+    await this.apiKeyRequest('PUT', '/fapi/v1/listenKey');
+  }
+
+  /**
+   * 关闭用户数据流
+   */
+  async closeListenKey(): Promise<void> {
+    await this.apiKeyRequest('DELETE', '/fapi/v1/listenKey');
+  }
+
   /**
    * 获取账户余额
    */
@@ -176,14 +297,185 @@ export class BinanceClient {
   }
 
   /**
-   * 创建订单
+   * 查询持仓模式：true 为双向持仓，false 为单向持仓
+   */
+  async getDualSidePosition(): Promise<boolean> {
+    const response = await this.signedRequest('GET', '/fapi/v1/positionSide/dual');
+    return response.dualSidePosition === true || response.dualSidePosition === 'true';
+  }
+
+  /**
+   * 切换持仓模式（账户有持仓或挂单时币安会拒绝）
+   */
+  async setDualSidePosition(dualSidePosition: boolean): Promise<void> {
+    try {
+      await this.signedRequest('POST', '/fapi/v1/positionSide/dual', {
+        dualSidePosition: dualSidePosition ? 'true' : 'false',
+      });
+    } catch (error: any) {
+      if (!/no need to change/i.test(error.message)) throw error;
+    }
+    this.dualSidePosition = Promise.resolve(dualSidePosition);
+  }
+
+  /**
+   * 当前是否为双向持仓（缓存，下单时据此决定 positionSide 和 reduceOnly）
+   */
+  async isHedgeMode(): Promise<boolean> {
+    if (!this.dualSidePosition) {
+      this.dualSidePosition = this.getDualSidePosition().catch((error) => {
+        this.dualSidePosition = null;
+        throw error;
+      });
+    }
+    return await this.dualSidePosition;
+  }
+
+  /**
+   * 查询交易对的保证金模式
+   */
+  async getMarginType(symbol: string): Promise<MarginType> {
+    const risks = await this.getPositionRisk(symbol);
+    const risk = Array.isArray(risks) ? risks[0] : risks;
+    const marginType: MarginType = risk?.marginType?.toLowerCase() === 'isolated' ? 'ISOLATED' : 'CROSSED';
+    this.marginTypes.set(symbol, marginType);
+    return marginType;
+  }
+
+  /**
+   * 设置交易对的保证金模式（该交易对有持仓或挂单时币安会拒绝）
+   */
+  async setMarginType(symbol: string, marginType: MarginType): Promise<void> {
+    try {
+      await this.signedRequest('POST', '/fapi/v1/marginType', { symbol, marginType });
+    } catch (error: any) {
+      if (!/no need to change/i.test(error.message)) throw error;
+    }
+    this.marginTypes.set(symbol, marginType);
+  }
+
+  /**
+   * 确保交易对处于指定保证金模式，每个交易对只请求一次
+   */
+  async ensureMarginType(symbol: string, marginType: MarginType): Promise<void> {
+    if (this.marginTypes.get(symbol) === marginType) return;
+    await this.setMarginType(symbol, marginType);
+  }
+
+  /**
+   * 增加逐仓保证金
+   */
+  async addIsolatedMargin(
+    symbol: string,
+    amount: number,
+    positionSide?: 'LONG' | 'SHORT'
+  ): Promise<any> {
+    return await this.modifyIsolatedMargin(symbol, amount, 1, positionSide);
+  }
+
+  /**
+   * 减少逐仓保证金
+   */
+  async removeIsolatedMargin(
+    symbol: string,
+    amount: number,
+    positionSide?: 'LONG' | 'SHORT'
+  ): Promise<any> {
+    return await this.modifyIsolatedMargin(symbol, amount, 2, positionSide);
+  }
+
+  /**
+   * 调整逐仓保证金（type 1 增加，2 减少）；单向持仓模式下 positionSide 为 BOTH
+   */
+  private async modifyIsolatedMargin(
+    symbol: string,
+    amount: number,
+    type: 1 | 2,
+    positionSide?: 'LONG' | 'SHORT'
+  ): Promise<any> {
+    const hedge = await this.isHedgeMode();
+    if (hedge && !positionSide) {
+      throw new Error('positionSide is required to modify isolated margin in hedge mode');
+    }
+
+    return await this.signedRequest('POST', '/fapi/v1/positionMargin', {
+      symbol,
+      positionSide: hedge ? positionSide : 'BOTH',
+      amount: amount.toFixed(8).replace(/\.?0+$/, ''),
+      type,
+    });
+  }
+
+  /**
+   * 获取交易规则
+   */
+  async getExchangeInfo(): Promise<any> {
+    const response = await this.axiosInstance.get('/fapi/v1/exchangeInfo');
+    return response.data;
+  }
+
+  /**
+   * 获取交易对的精度和下单限制
+   */
+  async getSymbolInfo(symbol: string): Promise<SymbolFilters> {
+    return await this.symbolInfo.get(symbol);
+  }
+
+  /**
+   * 创建订单（按交易对规则取整并校验）
    */
   async createOrder(params: OrderParams): Promise<any> {
-    return await this.signedRequest('POST', '/fapi/v1/order', params);
+    const order = await this.prepareOrder(params);
+    return await this.signedRequest('POST', '/fapi/v1/order', order);
+  }
+
+  /**
+   * 数量按步长向下取整、价格按 tickSize 取整，并校验数量范围和最小名义价值
+   * 调用方统一按双向持仓传 LONG/SHORT，单向持仓账户下转换为 BOTH，减仓单加 reduceOnly
+   */
+  private async prepareOrder(params: OrderParams): Promise<Record<string, any>> {
+    const filters = await this.getSymbolInfo(params.symbol);
+    const hedge = await this.isHedgeMode();
+    const isMarket = params.type !== 'LIMIT';
+    const reducing =
+      !!params.reduceOnly ||
+      !!params.closePosition ||
+      (params.side === 'SELL' && params.positionSide === 'LONG') ||
+      (params.side === 'BUY' && params.positionSide === 'SHORT');
+
+    // closePosition 单不能带数量
+    const quantity = params.quantity !== undefined && !params.closePosition
+      ? roundQuantity(filters, params.quantity, isMarket)
+      : undefined;
+    const price = params.price !== undefined ? roundPrice(filters, params.price) : undefined;
+    const stopPrice = params.stopPrice !== undefined ? roundPrice(filters, params.stopPrice) : undefined;
+
+    // 市价开仓单用最新价估算名义价值
+    const referencePrice =
+      price ?? stopPrice ?? (reducing ? undefined : await this.getCurrentPrice(params.symbol));
+
+    validateOrder(filters, { quantity, price: referencePrice, isMarket, reducing });
+
+    const quantityDecimals = isMarket ? filters.marketQuantityDecimals : filters.quantityDecimals;
+    const positionSide = hedge ? params.positionSide : 'BOTH';
+
+    return {
+      ...params,
+      quantity: quantity?.toFixed(quantityDecimals),
+      price: price?.toFixed(filters.priceDecimals),
+      stopPrice: stopPrice?.toFixed(filters.priceDecimals),
+      positionSide,
+      // 双向持仓模式下 positionSide 已表明方向，币安不接受 reduceOnly 参数；closePosition 单也不接受
+      reduceOnly: !hedge && reducing && !params.closePosition ? 'true' : undefined,
+      closePosition: params.closePosition ? 'true' : undefined,
+      // 默认 ACK 响应不含成交量和均价，市价单需要 RESULT 才能拿到真实成交
+      newOrderRespType: 'RESULT',
+    };
   }
 
   /**
    * 开多单
+   * 同时提供止损止盈时按括号单下单，保护单失败会回滚并抛出错误
    */
   async openLong(
     symbol: string,
@@ -192,87 +484,409 @@ export class BinanceClient {
     stopLoss?: number,
     takeProfit?: number
   ): Promise<any> {
+    return await this.openPosition(symbol, 'LONG', quantity, leverage, stopLoss, takeProfit);
+  }
+
+  /**
+   * 开空单
+   */
+  async openShort(
+    symbol: string,
+    quantity: number,
+    leverage: number,
+    stopLoss?: number,
+    takeProfit?: number
+  ): Promise<any> {
+    return await this.openPosition(symbol, 'SHORT', quantity, leverage, stopLoss, takeProfit);
+  }
+
+  private async openPosition(
+    symbol: string,
+    side: 'LONG' | 'SHORT',
+    quantity: number,
+    leverage: number,
+    stopLoss?: number,
+    takeProfit?: number
+  ): Promise<any> {
+    if (stopLoss && takeProfit) {
+      const result = await this.placeBracketOrder({
+        symbol,
+        side,
+        quantity,
+        leverage,
+        stopLoss,
+        takeProfit,
+      });
+      if (!result.success) {
+        throw new Error(`Bracket order failed: ${result.error}`);
+      }
+      return result.entry;
+    }
+
     // 设置杠杆
     await this.setLeverage(symbol, leverage);
 
-    // 市价开多
+    // 市价开仓
     const order = await this.createOrder({
       symbol,
-      side: 'BUY',
+      side: side === 'LONG' ? 'BUY' : 'SELL',
       type: 'MARKET',
       quantity,
-      positionSide: 'LONG',
+      positionSide: side,
     });
 
     // 设置止损止盈
-    if (stopLoss) {
-      await this.createOrder({
-        symbol,
-        side: 'SELL',
-        type: 'STOP_MARKET',
-        quantity,
-        stopPrice: stopLoss,
-        positionSide: 'LONG',
-      });
+    await this.placeProtectiveOrders(symbol, side, quantity, stopLoss, takeProfit);
+
+    return order;
+  }
+
+  /**
+   * 限价开仓（postOnly 时使用 GTX，会吃单时交易所直接使订单过期）
+   */
+  async placeLimitOrder(params: LimitOrderParams): Promise<any> {
+    const { symbol, side, quantity, price, leverage, postOnly } = params;
+
+    await this.setLeverage(symbol, leverage);
+
+    return await this.createOrder({
+      symbol,
+      side: side === 'LONG' ? 'BUY' : 'SELL',
+      type: 'LIMIT',
+      quantity,
+      price,
+      timeInForce: postOnly ? 'GTX' : 'GTC',
+      positionSide: side,
+    });
+  }
+
+  /**
+   * 括号单：市价入场 + closePosition 止损/止盈
+   * 每条保护腿失败会重试并回查订单状态；最终失败则撤销已挂的腿并市价平掉入场仓位
+   * 分批入场时保护腿在首笔成交后即挂上（closePosition 单覆盖后续成交）
+   */
+  async placeBracketOrder(params: BracketOrderParams): Promise<BracketOrderResult> {
+    const { symbol, side, quantity, leverage, stopLoss, takeProfit } = params;
+
+    await this.setLeverage(symbol, leverage);
+
+    // 保护腿只挂一次
+    let legs: Promise<BracketLegResult[]> | null = null;
+    const placeLegs = () => {
+      if (!legs) {
+        legs = (async () => [
+          await this.placeExitLeg(symbol, side, 'STOP_MARKET', stopLoss),
+          await this.placeExitLeg(symbol, side, 'TAKE_PROFIT_MARKET', takeProfit),
+        ])();
+      }
+      return legs;
+    };
+    const protect = async () => {
+      const placed = await placeLegs();
+      if (placed.some((leg) => leg.status === 'FAILED')) {
+        throw new Error('Protective legs failed, stopping entry');
+      }
+    };
+
+    // 入场失败时没有需要回滚的仓位，直接抛出
+    const entry = params.execute
+      ? await params.execute(protect)
+      : await this.createOrder({
+          symbol,
+          side: side === 'LONG' ? 'BUY' : 'SELL',
+          type: 'MARKET',
+          quantity,
+          positionSide: side,
+        });
+
+    const [stopLossLeg, takeProfitLeg] = await placeLegs();
+
+    if (stopLossLeg.status === 'PLACED' && takeProfitLeg.status === 'PLACED') {
+      return {
+        success: true,
+        entry,
+        stopLoss: stopLossLeg,
+        takeProfit: takeProfitLeg,
+        rolledBack: false,
+      };
     }
 
-    if (takeProfit) {
-      await this.createOrder({
+    const failedLeg = stopLossLeg.status === 'FAILED' ? stopLossLeg : takeProfitLeg;
+    const error = `${failedLeg === stopLossLeg ? 'Stop loss' : 'Take profit'} leg failed: ${failedLeg.error}`;
+    console.error(`[Bracket] ${symbol} ${side} ${error}, flattening entry`);
+
+    // 回滚：撤销已挂的保护单并平掉入场仓位
+    let rollbackOrder: any;
+    try {
+      await this.cancelAllOpenOrders(symbol);
+      const filledQty = parseFloat(entry?.executedQty || '0');
+      rollbackOrder = await new ExponentialBackoff(500, 4000, 3).execute(() =>
+        this.reducePosition(symbol, side, filledQty > 0 ? filledQty : quantity)
+      );
+    } catch (rollbackError: any) {
+      console.error(`[Bracket] ${symbol} ${side} rollback failed, position is UNPROTECTED:`, rollbackError.message);
+      return {
+        success: false,
+        entry,
+        stopLoss: stopLossLeg,
+        takeProfit: takeProfitLeg,
+        rolledBack: false,
+        error: `${error}; rollback failed: ${rollbackError.message}`,
+      };
+    }
+
+    return {
+      success: false,
+      entry,
+      stopLoss: stopLossLeg,
+      takeProfit: takeProfitLeg,
+      rolledBack: true,
+      rollbackOrder,
+      error,
+    };
+  }
+
+  /**
+   * 替换止损止盈：按数量挂新腿（closePosition 单同方向只能有一张），全部确认后再撤销同类型旧腿
+   * 新腿失败时撤回已挂的新腿，旧腿保持不变
+   */
+  async replaceProtectiveOrders(params: ProtectionParams): Promise<ProtectionResult> {
+    const { symbol, side, quantity, stopLoss, takeProfit } = params;
+    const exitSide = side === 'LONG' ? 'SELL' : 'BUY';
+    const types = [
+      ...(stopLoss ? ['STOP_MARKET'] : []),
+      ...(takeProfit ? ['TAKE_PROFIT_MARKET'] : []),
+    ];
+
+    // 单向持仓模式下挂单 positionSide 为 BOTH，按买卖方向区分
+    const previous = (await this.getOpenOrders(symbol)).filter(
+      (o) => o.side === exitSide && types.includes(o.type) && [side, 'BOTH'].includes(o.positionSide)
+    );
+
+    const stopLossLeg = stopLoss
+      ? await this.placeExitLeg(symbol, side, 'STOP_MARKET', stopLoss, quantity)
+      : undefined;
+    const takeProfitLeg = takeProfit && stopLossLeg?.status !== 'FAILED'
+      ? await this.placeExitLeg(symbol, side, 'TAKE_PROFIT_MARKET', takeProfit, quantity)
+      : undefined;
+    const placed = [stopLossLeg, takeProfitLeg].filter((leg) => leg?.status === 'PLACED');
+
+    const failedLeg = [stopLossLeg, takeProfitLeg].find((leg) => leg?.status === 'FAILED');
+    if (failedLeg) {
+      const error = `${failedLeg === stopLossLeg ? 'Stop loss' : 'Take profit'} leg failed: ${failedLeg.error}`;
+      for (const leg of placed) {
+        await this.cancelOrder(symbol, leg!.order.orderId).catch((cancelError) =>
+          console.error(`[Protection] ${symbol} failed to withdraw new leg #${leg!.order.orderId}:`, cancelError.message)
+        );
+      }
+      return { success: false, stopLoss: stopLossLeg, takeProfit: takeProfitLeg, previousKept: previous.length, error };
+    }
+
+    // 旧腿撤销失败不影响保护（新腿已生效），只会多出一张只减仓的条件单
+    for (const order of previous) {
+      await this.cancelOrder(symbol, order.orderId).catch((cancelError) =>
+        console.warn(`[Protection] ${symbol} failed to cancel previous leg #${order.orderId}:`, cancelError.message)
+      );
+    }
+
+    return { success: true, stopLoss: stopLossLeg, takeProfit: takeProfitLeg, previousKept: 0 };
+  }
+
+  /**
+   * 挂单条保护单，带重试和状态回查
+   * 不传数量时为 closePosition 单（触发后平掉整个持仓）
+   */
+  private async placeExitLeg(
+    symbol: string,
+    positionSide: 'LONG' | 'SHORT',
+    type: 'STOP_MARKET' | 'TAKE_PROFIT_MARKET',
+    stopPrice: number,
+    quantity?: number
+  ): Promise<BracketLegResult> {
+    // 固定 clientOrderId：重试前先按它回查，已下成功的订单不会被重复提交
+    const clientOrderId = `${type === 'STOP_MARKET' ? 'sl' : 'tp'}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    let attempts = 0;
+
+    try {
+      const order = await new ExponentialBackoff(500, 4000, 3).execute(
+        async () => {
+          attempts++;
+          let existing = await this.findOrderByClientId(symbol, clientOrderId);
+          if (!existing) {
+            try {
+              await this.createOrder({
+                symbol,
+                side: positionSide === 'LONG' ? 'SELL' : 'BUY',
+                type,
+                quantity,
+                stopPrice,
+                positionSide,
+                closePosition: quantity === undefined,
+                workingType: 'MARK_PRICE',
+                newClientOrderId: clientOrderId,
+              });
+            } catch (error) {
+              // 请求超时等情况下订单可能已经生效，由下一次回查确认
+              existing = await this.findOrderByClientId(symbol, clientOrderId);
+              if (!existing) throw error;
+            }
+            existing = existing ?? (await this.findOrderByClientId(symbol, clientOrderId));
+          }
+
+          // 回查确认订单处于挂单状态
+          if (!existing) {
+            throw new Error(`${type} order ${clientOrderId} not found after placement`);
+          }
+          if (existing.status !== 'NEW') {
+            throw new Error(`${type} order ${existing.orderId} is ${existing.status}`);
+          }
+          return existing;
+        },
+        // 触发价已越过当前价时重试无意义
+        (error) => !/immediately trigger/i.test(error.message)
+      );
+
+      return { status: 'PLACED', order, attempts };
+    } catch (error: any) {
+      return { status: 'FAILED', error: error.message, attempts };
+    }
+  }
+
+  /**
+   * 按 clientOrderId 查询订单，不存在时返回 null
+   */
+  private async findOrderByClientId(symbol: string, clientOrderId: string): Promise<any | null> {
+    try {
+      return await this.signedRequest('GET', '/fapi/v1/order', {
         symbol,
-        side: 'SELL',
-        type: 'TAKE_PROFIT_MARKET',
-        quantity,
-        stopPrice: takeProfit,
-        positionSide: 'LONG',
+        origClientOrderId: clientOrderId,
       });
+    } catch (error: any) {
+      if (/does not exist/i.test(error.message)) return null;
+      throw error;
     }
+  }
 
-    return order;
+  /**
+   * 查询订单
+   */
+  async getOrder(symbol: string, orderId: number | string): Promise<any> {
+    return await this.signedRequest('GET', '/fapi/v1/order', { symbol, orderId });
   }
 
   /**
-   * 开空单
+   * 挂止损止盈单
    */
-  async openShort(
+  async placeProtectiveOrders(
     symbol: string,
+    positionSide: 'LONG' | 'SHORT',
     quantity: number,
-    leverage: number,
     stopLoss?: number,
     takeProfit?: number
-  ): Promise<any> {
-    await this.setLeverage(symbol, leverage);
-
-    const order = await this.createOrder({
-      symbol,
-      side: 'SELL',
-      type: 'MARKET',
-      quantity,
-      positionSide: 'SHORT',
-    });
+  ): Promise<any[]> {
+    const side = positionSide === 'LONG' ? 'SELL' : 'BUY';
+    const orders: any[] = [];
 
     if (stopLoss) {
-      await this.createOrder({
-        symbol,
-        side: 'BUY',
-        type: 'STOP_MARKET',
-        quantity,
-        stopPrice: stopLoss,
-        positionSide: 'SHORT',
-      });
+      orders.push(
+        await this.createOrder({
+          symbol,
+          side,
+          type: 'STOP_MARKET',
+          quantity,
+          stopPrice: stopLoss,
+          positionSide,
+        })
+      );
     }
 
     if (takeProfit) {
-      await this.createOrder({
-        symbol,
-        side: 'BUY',
-        type: 'TAKE_PROFIT_MARKET',
-        quantity,
-        stopPrice: takeProfit,
-        positionSide: 'SHORT',
-      });
+      orders.push(
+        await this.createOrder({
+          symbol,
+          side,
+          type: 'TAKE_PROFIT_MARKET',
+          quantity,
+          stopPrice: takeProfit,
+          positionSide,
+        })
+      );
     }
 
-    return order;
+    return orders;
+  }
+
+  /**
+   * 查询当前挂单
+   */
+  async getOpenOrders(symbol?: string): Promise<any[]> {
+    return await this.signedRequest('GET', '/fapi/v1/openOrders', symbol ? { symbol } : {});
+  }
+
+  /**
+   * 撤销单个订单
+   */
+  async cancelOrder(symbol: string, orderId: number | string): Promise<any> {
+    return await this.signedRequest('DELETE', '/fapi/v1/order', { symbol, orderId });
+  }
+
+  /**
+   * 查询账户成交历史（startTime 起最多7天）
+   */
+  async getUserTrades(symbol: string, startTime?: number, limit: number = 500): Promise<UserTrade[]> {
+    return await this.signedRequest('GET', '/fapi/v1/userTrades', { symbol, startTime, limit });
+  }
+
+  /**
+   * 查询收入流水（资金费、已实现盈亏、手续费等），按时间升序，单次最多1000条
+   */
+  async getIncomeHistory(
+    incomeType?: string,
+    startTime?: number,
+    endTime?: number,
+    limit: number = 1000,
+    symbol?: string
+  ): Promise<IncomeRecord[]> {
+    return await this.signedRequest('GET', '/fapi/v1/income', {
+      symbol,
+      incomeType,
+      startTime,
+      endTime,
+      limit,
+    });
+  }
+
+  /**
+   * 杠杆分层（名义价值档位、最大杠杆和维持保证金率），不传 symbol 时返回所有交易对
+   */
+  async getLeverageBrackets(symbol?: string): Promise<SymbolLeverageBrackets[]> {
+    const response = await this.signedRequest('GET', '/fapi/v1/leverageBracket', { symbol });
+    // 指定 symbol 时部分环境返回单个对象
+    return Array.isArray(response) ? response : [response];
+  }
+
+  /**
+   * 撤销标的所有挂单
+   */
+  async cancelAllOpenOrders(symbol: string): Promise<any> {
+    return await this.signedRequest('DELETE', '/fapi/v1/allOpenOrders', { symbol });
+  }
+
+  /**
+   * 部分平仓
+   */
+  async reducePosition(
+    symbol: string,
+    positionSide: 'LONG' | 'SHORT',
+    quantity: number
+  ): Promise<any> {
+    return await this.createOrder({
+      symbol,
+      side: positionSide === 'LONG' ? 'SELL' : 'BUY',
+      type: 'MARKET',
+      quantity,
+      positionSide,
+    });
   }
 
   /**
@@ -280,8 +894,13 @@ export class BinanceClient {
    */
   async closePosition(symbol: string, positionSide: 'LONG' | 'SHORT'): Promise<any> {
     const positions = await this.getPositions();
+    // 单向持仓模式下 positionSide 为 BOTH，按数量正负区分方向
     const position = positions.find(
-      (p) => p.symbol === symbol && p.positionSide === positionSide
+      (p) =>
+        p.symbol === symbol &&
+        (p.positionSide === positionSide ||
+          (p.positionSide === 'BOTH' &&
+            (positionSide === 'LONG' ? parseFloat(p.positionAmt) > 0 : parseFloat(p.positionAmt) < 0)))
     );
 
     if (!position) {
@@ -332,6 +951,22 @@ export class BinanceClient {
     return parseFloat(response.data.price);
   }
 
+  /**
+   * 获取最优买卖价
+   */
+  async getBookTicker(symbol: string): Promise<BookTicker> {
+    const response = await this.axiosInstance.get('/fapi/v1/ticker/bookTicker', {
+      params: { symbol },
+    });
+    return {
+      symbol,
+      bidPrice: parseFloat(response.data.bidPrice),
+      bidQty: parseFloat(response.data.bidQty),
+      askPrice: parseFloat(response.data.askPrice),
+      askQty: parseFloat(response.data.askQty),
+    };
+  }
+
   /**
    * 获取24小时行情
    */
@@ -342,6 +977,83 @@ export class BinanceClient {
     return response.data;
   }
 
+  /**
+   * 标记价格和当前资金费率
+   */
+  async getPremiumIndex(symbol: string): Promise<any> {
+    const response = await this.axiosInstance.get('/fapi/v1/premiumIndex', {
+      params: { symbol },
+    });
+    return response.data;
+  }
+
+  /**
+   * 历史资金费率（按时间升序）
+   */
+  async getFundingRateHistory(
+    symbol: string,
+    limit: number = 100,
+    startTime?: number,
+    endTime?: number
+  ): Promise<Array<{ symbol: string; fundingRate: string; fundingTime: number }>> {
+    const response = await this.axiosInstance.get('/fapi/v1/fundingRate', {
+      params: { symbol, limit, startTime, endTime },
+    });
+    return response.data;
+  }
+
+  /**
+   * 当前持仓量（合约数量）
+   */
+  async getOpenInterest(symbol: string): Promise<number> {
+    const response = await this.axiosInstance.get('/fapi/v1/openInterest', {
+      params: { symbol },
+    });
+    return parseFloat(response.data.openInterest);
+  }
+
+  /**
+   * 持仓量历史（仅主网，最近30天）
+   */
+  async getOpenInterestHistory(
+    symbol: string,
+    period: string = '1h',
+    limit: number = 30
+  ): Promise<Array<{ sumOpenInterest: string; sumOpenInterestValue: string; timestamp: number }>> {
+    const response = await this.axiosInstance.get('/futures/data/openInterestHist', {
+      params: { symbol, period, limit },
+    });
+    return response.data;
+  }
+
+  /**
+   * 全市场账户多空比（仅主网）
+   */
+  async getLongShortRatio(
+    symbol: string,
+    period: string = '1h',
+    limit: number = 30
+  ): Promise<Array<{ longShortRatio: string; longAccount: string; shortAccount: string; timestamp: number }>> {
+    const response = await this.axiosInstance.get('/futures/data/globalLongShortAccountRatio', {
+      params: { symbol, period, limit },
+    });
+    return response.data;
+  }
+
+  /**
+   * 主动买卖量比（仅主网）
+   */
+  async getTakerBuySellVolume(
+    symbol: string,
+    period: string = '1h',
+    limit: number = 30
+  ): Promise<Array<{ buySellRatio: string; buyVol: string; sellVol: string; timestamp: number }>> {
+    const response = await this.axiosInstance.get('/futures/data/takerlongshortRatio', {
+      params: { symbol, period, limit },
+    });
+    return response.data;
+  }
+
   /**
    * 获取期货账户信息
    */
@@ -365,15 +1077,15 @@ export class BinanceClient {
     const symbolPositions = positions.filter(p => p.symbol === symbol);
 
     const closePromises = symbolPositions.map(position => {
-      const quantity = Math.abs(parseFloat(position.positionAmt));
-      const side = parseFloat(position.positionAmt) > 0 ? 'SELL' : 'BUY';
+      const amount = parseFloat(position.positionAmt);
 
+      // 按方向传 LONG/SHORT，单向持仓模式由 prepareOrder 转换为 BOTH + reduceOnly
       return this.createOrder({
         symbol: position.symbol,
-        side,
+        side: amount > 0 ? 'SELL' : 'BUY',
         type: 'MARKET',
-        quantity,
-        positionSide: position.positionSide as 'LONG' | 'SHORT' | 'BOTH',
+        quantity: Math.abs(amount),
+        positionSide: amount > 0 ? 'LONG' : 'SHORT',
       });
     });
 
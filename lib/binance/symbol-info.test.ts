@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parseSymbolFilters,
+  roundPrice,
+  roundQuantity,
+  roundToStep,
+  validateOrder,
+} from './symbol-info';
+import { TradingError } from '../utils/error-handler';
+
+const BTCUSDT = parseSymbolFilters({
+  symbol: 'BTCUSDT',
+  filters: [
+    { filterType: 'PRICE_FILTER', tickSize: '0.10', minPrice: '556.80', maxPrice: '4529764' },
+    { filterType: 'LOT_SIZE', stepSize: '0.001', minQty: '0.001', maxQty: '1000' },
+    { filterType: 'MARKET_LOT_SIZE', stepSize: '0.001', minQty: '0.001', maxQty: '120' },
+    { filterType: 'MIN_NOTIONAL', notional: '100' },
+  ],
+});
+
+describe('parseSymbolFilters', () => {
+  it('reads decimals from step sizes', () => {
+    expect(BTCUSDT.priceDecimals).toBe(1);
+    expect(BTCUSDT.quantityDecimals).toBe(3);
+    expect(BTCUSDT.marketMaxQty).toBe(120);
+    expect(BTCUSDT.minNotional).toBe(100);
+  });
+
+  it('falls back to LOT_SIZE when MARKET_LOT_SIZE is missing', () => {
+    const filters = parseSymbolFilters({
+      symbol: 'XUSDT',
+      filters: [{ filterType: 'LOT_SIZE', stepSize: '1', minQty: '1', maxQty: '5000' }],
+    });
+    expect(filters.marketStepSize).toBe(1);
+    expect(filters.marketQuantityDecimals).toBe(0);
+    expect(filters.minNotional).toBe(0);
+  });
+});
+
+describe('roundToStep', () => {
+  it('rounds to the nearest step by default', () => {
+    expect(roundToStep(1.26, 0.1, 1)).toBe(1.3);
+    expect(roundToStep(1.24, 0.1, 1)).toBe(1.2);
+  });
+
+  it('floors and ceils without floating point drift', () => {
+    expect(roundToStep(0.3, 0.1, 1, 'floor')).toBe(0.3);
+    expect(roundToStep(0.0029999, 0.001, 3, 'floor')).toBe(0.002);
+    expect(roundToStep(0.3, 0.1, 1, 'ceil')).toBe(0.3);
+    expect(roundToStep(0.2001, 0.1, 1, 'ceil')).toBe(0.3);
+  });
+
+  it('leaves the value untouched without a step', () => {
+    expect(roundToStep(1.23456, 0, 2)).toBe(1.23456);
+  });
+});
+
+describe('roundQuantity / roundPrice', () => {
+  it('floors quantities to the lot step', () => {
+    expect(roundQuantity(BTCUSDT, 0.0129)).toBe(0.012);
+  });
+
+  it('rounds prices to the tick size', () => {
+    expect(roundPrice(BTCUSDT, 65000.06)).toBe(65000.1);
+    expect(roundPrice(BTCUSDT, 65000.06, 'floor')).toBe(65000);
+  });
+});
+
+describe('validateOrder', () => {
+  const valid = { quantity: 0.002, price: 65000, isMarket: true, reducing: false };
+
+  it('accepts an order inside all filters', () => {
+    expect(() => validateOrder(BTCUSDT, valid)).not.toThrow();
+  });
+
+  it('rejects quantities outside the lot range', () => {
+    expect(() => validateOrder(BTCUSDT, { ...valid, quantity: 0.0005 })).toThrow(TradingError);
+    expect(() => validateOrder(BTCUSDT, { ...valid, quantity: 200 })).toThrow(/exceeds maximum 120/);
+    // 限价单使用 LOT_SIZE 的上限
+    expect(() => validateOrder(BTCUSDT, { ...valid, quantity: 200, isMarket: false })).not.toThrow();
+  });
+
+  it('rejects prices outside the price filter', () => {
+    expect(() => validateOrder(BTCUSDT, { ...valid, price: 100 })).toThrow(/outside/);
+  });
+
+  it('enforces the minimum notional only for opening orders', () => {
+    const small = { ...valid, quantity: 0.001 };
+    expect(() => validateOrder(BTCUSDT, small)).toThrow(/below minimum \$100/);
+    expect(() => validateOrder(BTCUSDT, { ...small, reducing: true })).not.toThrow();
+  });
+});
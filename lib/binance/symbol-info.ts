@@ -0,0 +1,205 @@
+/**
+ * 交易对规则缓存
+ * 基于 /fapi/v1/exchangeInfo 的 LOT_SIZE、MARKET_LOT_SIZE、PRICE_FILTER、MIN_NOTIONAL
+ */
+
+import { TradingError, ErrorType } from '../utils/error-handler';
+
+export interface SymbolFilters {
+  symbol: string;
+  tickSize: number;
+  priceDecimals: number;
+  minPrice: number;
+  maxPrice: number;
+  stepSize: number;
+  quantityDecimals: number;
+  minQty: number;
+  maxQty: number;
+  marketStepSize: number;
+  marketQuantityDecimals: number;
+  marketMinQty: number;
+  marketMaxQty: number;
+  minNotional: number;
+}
+
+type RoundMode = 'floor' | 'round' | 'ceil';
+
+/**
+ * 步长对应的小数位数（如 "0.00100000" → 3）
+ */
+function stepDecimals(step: string): number {
+  const [, fraction = ''] = step.split('.');
+  return fraction.replace(/0+$/, '').length;
+}
+
+/**
+ * 解析单个交易对的过滤器
+ */
+export function parseSymbolFilters(raw: any): SymbolFilters {
+  const filters: Record<string, any> = {};
+  (raw.filters || []).forEach((f: any) => {
+    filters[f.filterType] = f;
+  });
+
+  const price = filters.PRICE_FILTER || { tickSize: '0.01', minPrice: '0', maxPrice: '0' };
+  const lot = filters.LOT_SIZE || { stepSize: '0.001', minQty: '0.001', maxQty: '0' };
+  const marketLot = filters.MARKET_LOT_SIZE || lot;
+  const notional = filters.MIN_NOTIONAL || {};
+
+  return {
+    symbol: raw.symbol,
+    tickSize: parseFloat(price.tickSize),
+    priceDecimals: stepDecimals(price.tickSize),
+    minPrice: parseFloat(price.minPrice),
+    maxPrice: parseFloat(price.maxPrice),
+    stepSize: parseFloat(lot.stepSize),
+    quantityDecimals: stepDecimals(lot.stepSize),
+    minQty: parseFloat(lot.minQty),
+    maxQty: parseFloat(lot.maxQty),
+    marketStepSize: parseFloat(marketLot.stepSize),
+    marketQuantityDecimals: stepDecimals(marketLot.stepSize),
+    marketMinQty: parseFloat(marketLot.minQty),
+    marketMaxQty: parseFloat(marketLot.maxQty),
+    minNotional: parseFloat(notional.notional ?? notional.minNotional ?? '0'),
+  };
+}
+
+/**
+ * 按步长取整
+ */
+export function roundToStep(
+  value: number,
+  step: number,
+  decimals: number,
+  mode: RoundMode = 'round'
+): number {
+  if (!step || step <= 0) return value;
+
+  const units = value / step;
+  const rounded = mode === 'floor'
+    ? Math.floor(units + 1e-9)
+    : mode === 'ceil'
+    ? Math.ceil(units - 1e-9)
+    : Math.round(units);
+
+  return parseFloat((rounded * step).toFixed(decimals));
+}
+
+/**
+ * 数量按步长向下取整（市价单使用 MARKET_LOT_SIZE）
+ */
+export function roundQuantity(filters: SymbolFilters, quantity: number, isMarket = true): number {
+  return isMarket
+    ? roundToStep(quantity, filters.marketStepSize, filters.marketQuantityDecimals, 'floor')
+    : roundToStep(quantity, filters.stepSize, filters.quantityDecimals, 'floor');
+}
+
+/**
+ * 价格按 tickSize 取整
+ */
+export function roundPrice(filters: SymbolFilters, price: number, mode: RoundMode = 'round'): number {
+  return roundToStep(price, filters.tickSize, filters.priceDecimals, mode);
+}
+
+/**
+ * 按交易所规则校验订单
+ * 平仓/减仓单不受最小名义价值限制
+ */
+export function validateOrder(
+  filters: SymbolFilters,
+  params: { quantity?: number; price?: number; isMarket: boolean; reducing: boolean }
+): void {
+  const { quantity, price, isMarket, reducing } = params;
+  const { symbol } = filters;
+
+  if (quantity !== undefined) {
+    const minQty = isMarket ? filters.marketMinQty : filters.minQty;
+    const maxQty = isMarket ? filters.marketMaxQty : filters.maxQty;
+
+    if (quantity < minQty) {
+      throw new TradingError(
+        ErrorType.BINANCE_INVALID_ORDER,
+        `${symbol} quantity ${quantity} is below minimum ${minQty}`
+      );
+    }
+    if (maxQty > 0 && quantity > maxQty) {
+      throw new TradingError(
+        ErrorType.BINANCE_INVALID_ORDER,
+        `${symbol} quantity ${quantity} exceeds maximum ${maxQty}`
+      );
+    }
+  }
+
+  if (price !== undefined) {
+    if (price < filters.minPrice || (filters.maxPrice > 0 && price > filters.maxPrice)) {
+      throw new TradingError(
+        ErrorType.BINANCE_INVALID_ORDER,
+        `${symbol} price ${price} is outside [${filters.minPrice}, ${filters.maxPrice}]`
+      );
+    }
+  }
+
+  if (!reducing && quantity !== undefined && price !== undefined) {
+    const notionalValue = quantity * price;
+    if (notionalValue < filters.minNotional) {
+      throw new TradingError(
+        ErrorType.BINANCE_INVALID_ORDER,
+        `${symbol} notional $${notionalValue.toFixed(2)} is below minimum $${filters.minNotional}`
+      );
+    }
+  }
+}
+
+export class SymbolInfoCache {
+  private filters: Map<string, SymbolFilters> = new Map();
+  private loadedAt: number = 0;
+  private loading: Promise<void> | null = null;
+  private fetchExchangeInfo: () => Promise<any>;
+  private ttl: number;
+
+  constructor(fetchExchangeInfo: () => Promise<any>, ttlMs: number = 60 * 60 * 1000) {
+    this.fetchExchangeInfo = fetchExchangeInfo;
+    this.ttl = ttlMs;
+  }
+
+  /**
+   * 获取交易对规则（过期时刷新）
+   */
+  async get(symbol: string): Promise<SymbolFilters> {
+    if (Date.now() - this.loadedAt > this.ttl || !this.filters.has(symbol)) {
+      await this.refresh();
+    }
+
+    const filters = this.filters.get(symbol);
+    if (!filters) {
+      throw new TradingError(
+        ErrorType.BINANCE_INVALID_ORDER,
+        `Unknown symbol: ${symbol}`
+      );
+    }
+
+    return filters;
+  }
+
+  /**
+   * 重新拉取 exchangeInfo（并发调用共享同一请求）
+   */
+  async refresh(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const info = await this.fetchExchangeInfo();
+        const filters = new Map<string, SymbolFilters>();
+        (info.symbols || []).forEach((raw: any) => {
+          filters.set(raw.symbol, parseSymbolFilters(raw));
+        });
+
+        this.filters = filters;
+        this.loadedAt = Date.now();
+      })().finally(() => {
+        this.loading = null;
+      });
+    }
+
+    await this.loading;
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * Binance User Data Stream
+ * 通过 listenKey 订阅账户私有推送: 订单成交、账户变动、追加保证金通知
+ */
+
+import WebSocket from 'ws';
+import type { BinanceClient } from './client';
+
+type PositionSide = 'LONG' | 'SHORT' | 'BOTH';
+
+export interface OrderTradeUpdateEvent {
+  type: 'ORDER_TRADE_UPDATE';
+  eventTime: number;
+  transactionTime: number;
+  symbol: string;
+  clientOrderId: string;
+  orderId: number;
+  side: 'BUY' | 'SELL';
+  orderType: string;
+  originalType: string; // 触发前的订单类型（STOP_MARKET 触发后 orderType 变为 MARKET）
+  positionSide: PositionSide;
+  executionType: string; // NEW / TRADE / CANCELED / CALCULATED(强平) / EXPIRED ...
+  orderStatus: string; // NEW / PARTIALLY_FILLED / FILLED / CANCELED / EXPIRED ...
+  quantity: number;
+  price: number;
+  stopPrice: number;
+  averagePrice: number;
+  lastFilledQuantity: number;
+  lastFilledPrice: number;
+  filledQuantity: number; // 累计成交数量
+  commission: number; // 本次成交手续费
+  commissionAsset: string;
+  realizedProfit: number; // 本次成交已实现盈亏
+  reduceOnly: boolean;
+  closePosition: boolean;
+  tradeId: number;
+  isLiquidation: boolean; // 强平或自动减仓
+}
+
+export interface AccountUpdateEvent {
+  type: 'ACCOUNT_UPDATE';
+  eventTime: number;
+  transactionTime: number;
+  reason: string; // ORDER / FUNDING_FEE / MARGIN_TRANSFER ...
+  balances: Array<{
+    asset: string;
+    walletBalance: number;
+    crossWalletBalance: number;
+    balanceChange: number;
+  }>;
+  positions: Array<{
+    symbol: string;
+    positionSide: PositionSide;
+    positionAmt: number;
+    entryPrice: number;
+    unrealizedPnL: number;
+    accumulatedRealized: number;
+    marginType: string;
+    isolatedWallet: number;
+  }>;
+}
+
+export interface MarginCallEvent {
+  type: 'MARGIN_CALL';
+  eventTime: number;
+  crossWalletBalance: number;
+  positions: Array<{
+    symbol: string;
+    positionSide: PositionSide;
+    positionAmt: number;
+    marginType: string;
+    isolatedWallet: number;
+    markPrice: number;
+    unrealizedPnL: number;
+    maintenanceMargin: number;
+  }>;
+}
+
+export type UserDataEvent = OrderTradeUpdateEvent | AccountUpdateEvent | MarginCallEvent;
+
+type UserDataHandler = (event: UserDataEvent) => void;
+
+// 币安 listenKey 60分钟过期，每30分钟续期
+const KEEPALIVE_INTERVAL = 30 * 60 * 1000;
+
+/**
+ * 将原始推送解析为类型化事件，不关心的事件返回 null
+ */
+export function parseUserDataEvent(message: any): UserDataEvent | null {
+  switch (message?.e) {
+    case 'ORDER_TRADE_UPDATE': {
+      const o = message.o;
+      const clientOrderId: string = o.c || '';
+      return {
+        type: 'ORDER_TRADE_UPDATE',
+        eventTime: message.E,
+        transactionTime: message.T,
+        symbol: o.s,
+        clientOrderId,
+        orderId: o.i,
+        side: o.S,
+        orderType: o.o,
+        originalType: o.ot,
+        positionSide: o.ps,
+        executionType: o.x,
+        orderStatus: o.X,
+        quantity: parseFloat(o.q),
+        price: parseFloat(o.p),
+        stopPrice: parseFloat(o.sp),
+        averagePrice: parseFloat(o.ap),
+        lastFilledQuantity: parseFloat(o.l),
+        lastFilledPrice: parseFloat(o.L),
+        filledQuantity: parseFloat(o.z),
+        commission: parseFloat(o.n || '0'),
+        commissionAsset: o.N,
+        realizedProfit: parseFloat(o.rp || '0'),
+        reduceOnly: !!o.R,
+        closePosition: !!o.cp,
+        tradeId: o.t,
+        isLiquidation:
+          o.o === 'LIQUIDATION' ||
+          o.x === 'CALCULATED' ||
+          clientOrderId.startsWith('autoclose-') ||
+          clientOrderId.startsWith('adl_autoclose'),
+      };
+    }
+
+    case 'ACCOUNT_UPDATE':
+      return {
+        type: 'ACCOUNT_UPDATE',
+        eventTime: message.E,
+        transactionTime: message.T,
+        reason: message.a.m,
+        balances: (message.a.B || []).map((b: any) => ({
+          asset: b.a,
+          walletBalance: parseFloat(b.wb),
+          crossWalletBalance: parseFloat(b.cw),
+          balanceChange: parseFloat(b.bc),
+        })),
+        positions: (message.a.P || []).map((p: any) => ({
+          symbol: p.s,
+          positionSide: p.ps,
+          positionAmt: parseFloat(p.pa),
+          entryPrice: parseFloat(p.ep),
+          unrealizedPnL: parseFloat(p.up),
+          accumulatedRealized: parseFloat(p.cr),
+          marginType: p.mt,
+          isolatedWallet: parseFloat(p.iw),
+        })),
+      };
+
+    case 'MARGIN_CALL':
+      return {
+        type: 'MARGIN_CALL',
+        eventTime: message.E,
+        crossWalletBalance: parseFloat(message.cw),
+        positions: (message.p || []).map((p: any) => ({
+          symbol: p.s,
+          positionSide: p.ps,
+          positionAmt: parseFloat(p.pa),
+          marginType: p.mt,
+          isolatedWallet: parseFloat(p.iw),
+          markPrice: parseFloat(p.mp),
+          unrealizedPnL: parseFloat(p.up),
+          maintenanceMargin: parseFloat(p.mm),
+        })),
+      };
+
+    default:
+      return null;
+  }
+}
+
+export class UserDataStream {
+  private client: BinanceClient;
+  private baseURL: string;
+  private ws: WebSocket | null = null;
+  private listenKey: string | null = null;
+  private handlers: UserDataHandler[] = [];
+  private reconnectInterval = 5000;
+  private keepAliveTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(client: BinanceClient, testnet: boolean = false) {
+    this.client = client;
+    this.baseURL = testnet
+      ? 'wss://stream.binancefuture.com'
+      : 'wss://fstream.binance.com';
+  }
+
+  /**
+   * 创建 listenKey 并连接
+   */
+  async start(): Promise<void> {
+    this.closed = false;
+    this.listenKey = await this.client.createListenKey();
+    await this.connect(this.listenKey);
+    this.startKeepAlive();
+  }
+
+  /**
+   * 订阅用户数据事件
+   */
+  subscribe(handler: UserDataHandler) {
+    this.handlers.push(handler);
+  }
+
+  /**
+   * 取消订阅
+   */
+  unsubscribe(handler: UserDataHandler) {
+    const index = this.handlers.indexOf(handler);
+    if (index > -1) {
+      this.handlers.splice(index, 1);
+    }
+  }
+
+  private connect(listenKey: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(`${this.baseURL}/ws/${listenKey}`);
+      this.ws = ws;
+
+      ws.on('open', () => {
+        console.log('✅ Binance user data stream connected');
+        resolve();
+      });
+
+      ws.on('message', (data: WebSocket.Data) => {
+        try {
+          this.handleMessage(JSON.parse(data.toString()));
+        } catch (error) {
+          console.error('User data stream message parse error:', error);
+        }
+      });
+
+      ws.on('error', (error) => {
+        console.error('User data stream error:', error);
+        reject(error);
+      });
+
+      ws.on('close', () => {
+        // 已被替换（listenKey 过期重建）或主动关闭时不重连
+        if (this.ws !== ws || this.closed) return;
+        console.log('❌ User data stream disconnected, reconnecting...');
+        this.ws = null;
+        this.scheduleReconnect();
+      });
+    });
+  }
+
+  private handleMessage(message: any) {
+    if (message.e === 'listenKeyExpired') {
+      console.warn('⚠️  listenKey expired, recreating user data stream');
+      this.restart();
+      return;
+    }
+
+    const event = parseUserDataEvent(message);
+    if (event) {
+      this.handlers.forEach((handler) => handler(event));
+    }
+  }
+
+  /**
+   * 重新获取 listenKey 并重连
+   */
+  private restart() {
+    if (this.closed) return;
+
+    const previous = this.ws;
+    this.ws = null;
+    previous?.close();
+
+    this.client
+      .createListenKey()
+      .then((listenKey) => {
+        if (this.closed) return;
+        this.listenKey = listenKey;
+        return this.connect(listenKey);
+      })
+      .catch((error) => {
+        console.error('Failed to restart user data stream:', error.message);
+        this.scheduleReconnect();
+      });
+  }
+
+  private scheduleReconnect() {
+    if (this.closed || this.reconnectTimer) return;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.restart();
+    }, this.reconnectInterval);
+  }
+
+  /**
+   * 定期续期 listenKey，续期失败（已失效）时重建
+   */
+  private startKeepAlive() {
+    this.stopKeepAlive();
+    this.keepAliveTimer = setInterval(() => {
+      this.client.keepAliveListenKey().catch((error) => {
+        console.error('listenKey keepalive failed:', error.message);
+        this.restart();
+      });
+    }, KEEPALIVE_INTERVAL);
+  }
+
+  private stopKeepAlive() {
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+  }
+
+  /**
+   * 关闭连接并注销 listenKey
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    this.stopKeepAlive();
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+
+    if (this.listenKey) {
+      this.listenKey = null;
+      await this.client.closeListenKey().catch((error) => {
+        console.error('Failed to close listenKey:', error.message);
+      });
+    }
+  }
+}
@@ -1,9 +1,10 @@
 /**
  * Binance WebSocket Client
- * 实时市场数据流: 价格、Open Interest、资金费率
+ * 实时市场数据流: 价格、Open Interest、资金费率、K线、逐笔成交、深度
  */
 
 import WebSocket from 'ws';
+import { ExponentialBackoff } from '../utils/rate-limiter';
 
 export interface MarketStream {
   symbol: string;
@@ -15,59 +16,253 @@ export interface MarketStream {
   timestamp: number;
 }
 
+export interface KlineStream {
+  symbol: string;
+  interval: string;
+  openTime: number;
+  closeTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  isClosed: boolean; // K线是否已收盘
+  timestamp: number;
+}
+
+export interface AggTradeStream {
+  symbol: string;
+  price: number;
+  quantity: number;
+  isBuyerMaker: boolean; // true 表示主动卖出
+  tradeTime: number;
+}
+
+export interface DepthStream {
+  symbol: string;
+  bids: Array<[number, number]>; // [价格, 数量]
+  asks: Array<[number, number]>;
+  lastUpdateId: number;
+  timestamp: number;
+}
+
 type MessageHandler = (data: MarketStream) => void;
+type KlineHandler = (data: KlineStream) => void;
+type AggTradeHandler = (data: AggTradeStream) => void;
+type DepthHandler = (data: DepthStream) => void;
+
+/**
+ * 连接状态
+ * IDLE → CONNECTING → OPEN ⇄ RECONNECTING，close() 后进入 CLOSED 且不再重连
+ */
+export type ConnectionState = 'IDLE' | 'CONNECTING' | 'OPEN' | 'RECONNECTING' | 'CLOSED';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  streams: string[];
+  connectedAt: number | null;
+  lastMessageAt: number | null;
+  reconnectAttempts: number; // 当前连续重连次数，连接成功后清零
+  totalReconnects: number;
+  stale: boolean;
+}
+
+export interface WebSocketClientOptions {
+  staleTimeout?: number; // 超过该时长（毫秒）未收到任何消息视为连接失效
+  maxConnectionAge?: number; // 币安24小时强制断开，提前主动重连
+}
+
+const PING_INTERVAL = 30 * 1000;
+
+function parseLevels(levels: string[][] = []): Array<[number, number]> {
+  return levels.map(([price, quantity]) => [parseFloat(price), parseFloat(quantity)]);
+}
 
 export class BinanceWebSocketClient {
   private ws: WebSocket | null = null;
   private baseURL: string;
   private messageHandlers: Map<string, MessageHandler[]> = new Map();
-  private reconnectInterval = 5000;
+  private klineHandlers: KlineHandler[] = [];
+  private aggTradeHandlers: AggTradeHandler[] = [];
+  private depthHandlers: DepthHandler[] = [];
+  private streams: Set<string> = new Set();
+  private state: ConnectionState = 'IDLE';
+  private backoff = new ExponentialBackoff(1000, 60000);
+  private reconnectAttempts = 0;
+  private totalReconnects = 0;
+  private connectedAt: number | null = null;
+  private lastMessageAt: number | null = null;
+  private requestId = 0;
+  private staleTimeout: number;
+  private maxConnectionAge: number;
   private pingInterval: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
 
-  constructor(testnet: boolean = false) {
+  constructor(testnet: boolean = false, options: WebSocketClientOptions = {}) {
     this.baseURL = testnet
       ? 'wss://stream.binancefuture.com'
       : 'wss://fstream.binance.com';
+    this.staleTimeout = options.staleTimeout ?? 60 * 1000;
+    this.maxConnectionAge = options.maxConnectionAge ?? 23 * 60 * 60 * 1000;
   }
 
   /**
    * 连接WebSocket
+   * 返回的 Promise 只反映首次连接结果，之后的断线由客户端自动重连
    */
   connect(streams: string[]): Promise<void> {
+    streams.forEach((stream) => this.streams.add(stream));
+
     return new Promise((resolve, reject) => {
-      const streamString = streams.join('/');
-      const url = `${this.baseURL}/stream?streams=${streamString}`;
-
-      this.ws = new WebSocket(url);
-
-      this.ws.on('open', () => {
-        console.log('✅ Binance WebSocket Connected');
-        this.startPing();
-        resolve();
-      });
-
-      this.ws.on('message', (data: WebSocket.Data) => {
-        try {
-          const message = JSON.parse(data.toString());
-          this.handleMessage(message);
-        } catch (error) {
-          console.error('WebSocket message parse error:', error);
+      this.open({ resolve, reject });
+    });
+  }
+
+  /**
+   * 建立连接（首次或重连），URL 中带上当前全部订阅，重连后自动恢复订阅
+   */
+  private open(pending?: { resolve: () => void; reject: (error: Error) => void }) {
+    if (this.state === 'CLOSED') return;
+
+    const streams = Array.from(this.streams);
+    const url = streams.length > 0
+      ? `${this.baseURL}/stream?streams=${streams.join('/')}`
+      : `${this.baseURL}/stream`;
+
+    this.state = this.reconnectAttempts > 0 ? 'RECONNECTING' : 'CONNECTING';
+    const ws = new WebSocket(url);
+    this.ws = ws;
+
+    ws.on('open', () => {
+      console.log('✅ Binance WebSocket Connected');
+      this.state = 'OPEN';
+      this.reconnectAttempts = 0;
+      this.connectedAt = Date.now();
+      this.lastMessageAt = Date.now();
+      this.startPing();
+
+      // 连接期间新增的订阅
+      const missing = Array.from(this.streams).filter((s) => !streams.includes(s));
+      if (missing.length > 0) this.sendMethod('SUBSCRIBE', missing);
+
+      pending?.resolve();
+      pending = undefined;
+    });
+
+    ws.on('message', (data: WebSocket.Data) => {
+      this.lastMessageAt = Date.now();
+      try {
+        const message = JSON.parse(data.toString());
+        if (message.id !== undefined && message.stream === undefined) {
+          // SUBSCRIBE/UNSUBSCRIBE 的应答
+          if (message.error) {
+            console.error(`WebSocket request #${message.id} failed:`, message.error.msg);
+          }
+          return;
         }
-      });
-
-      this.ws.on('error', (error) => {
-        console.error('WebSocket error:', error);
-        reject(error);
-      });
-
-      this.ws.on('close', () => {
-        console.log('❌ WebSocket disconnected, reconnecting...');
-        this.stopPing();
-        setTimeout(() => this.connect(streams), this.reconnectInterval);
-      });
+        this.handleMessage(message);
+      } catch (error) {
+        console.error('WebSocket message parse error:', error);
+      }
+    });
+
+    ws.on('pong', () => {
+      this.lastMessageAt = Date.now();
+    });
+
+    ws.on('error', (error) => {
+      console.error('WebSocket error:', error.message);
+      pending?.reject(error);
+      pending = undefined;
+    });
+
+    ws.on('close', () => {
+      this.stopPing();
+      // 已被替换或主动关闭时不重连
+      if (this.ws !== ws || this.state === 'CLOSED') return;
+      this.ws = null;
+      this.scheduleReconnect();
     });
   }
 
+  /**
+   * 按指数退避（带抖动）安排重连
+   */
+  private scheduleReconnect() {
+    if (this.state === 'CLOSED' || this.reconnectTimer) return;
+
+    const delay = this.backoff.getDelay(this.reconnectAttempts);
+    this.reconnectAttempts++;
+    this.totalReconnects++;
+    this.state = 'RECONNECTING';
+    console.log(`❌ WebSocket disconnected, reconnecting in ${delay.toFixed(0)}ms (attempt ${this.reconnectAttempts})`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+
+  /**
+   * 主动断开当前连接并触发重连（数据过期、连接即将到期）
+   */
+  private recycle(reason: string) {
+    if (!this.ws || this.state === 'CLOSED') return;
+    console.warn(`⚠️  WebSocket ${reason}, reconnecting`);
+    this.ws.terminate();
+  }
+
+  /**
+   * 运行中增加订阅（SUBSCRIBE）
+   */
+  subscribeStreams(streams: string[]) {
+    const added = streams.filter((s) => !this.streams.has(s));
+    added.forEach((s) => this.streams.add(s));
+    if (added.length > 0 && this.state === 'OPEN') {
+      this.sendMethod('SUBSCRIBE', added);
+    }
+  }
+
+  /**
+   * 运行中取消订阅（UNSUBSCRIBE）
+   */
+  unsubscribeStreams(streams: string[]) {
+    const removed = streams.filter((s) => this.streams.has(s));
+    removed.forEach((s) => this.streams.delete(s));
+    if (removed.length > 0 && this.state === 'OPEN') {
+      this.sendMethod('UNSUBSCRIBE', removed);
+    }
+  }
+
+  private sendMethod(method: 'SUBSCRIBE' | 'UNSUBSCRIBE', params: string[]) {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({ method, params, id: ++this.requestId }));
+    }
+  }
+
+  /**
+   * 连接状态快照
+   */
+  getStatus(): ConnectionStatus {
+    return {
+      state: this.state,
+      streams: Array.from(this.streams),
+      connectedAt: this.connectedAt,
+      lastMessageAt: this.lastMessageAt,
+      reconnectAttempts: this.reconnectAttempts,
+      totalReconnects: this.totalReconnects,
+      stale: this.isStale(),
+    };
+  }
+
+  private isStale(): boolean {
+    return (
+      this.state === 'OPEN' &&
+      this.lastMessageAt !== null &&
+      Date.now() - this.lastMessageAt > this.staleTimeout
+    );
+  }
+
   /**
    * 处理消息
    */
@@ -94,10 +289,65 @@ export class BinanceWebSocketClient {
           fundingRate: parseFloat(data.r),
           timestamp: data.E,
         });
+      } else if (type.startsWith('kline_')) {
+        const k = data.k;
+        const kline: KlineStream = {
+          symbol: data.s,
+          interval: k.i,
+          openTime: k.t,
+          closeTime: k.T,
+          open: parseFloat(k.o),
+          high: parseFloat(k.h),
+          low: parseFloat(k.l),
+          close: parseFloat(k.c),
+          volume: parseFloat(k.v),
+          isClosed: k.x,
+          timestamp: data.E,
+        };
+        this.klineHandlers.forEach((handler) => handler(kline));
+      } else if (type === 'aggTrade') {
+        const trade: AggTradeStream = {
+          symbol: data.s,
+          price: parseFloat(data.p),
+          quantity: parseFloat(data.q),
+          isBuyerMaker: data.m,
+          tradeTime: data.T,
+        };
+        this.aggTradeHandlers.forEach((handler) => handler(trade));
+      } else if (type.startsWith('depth')) {
+        const depth: DepthStream = {
+          symbol: data.s,
+          bids: parseLevels(data.b),
+          asks: parseLevels(data.a),
+          lastUpdateId: data.u,
+          timestamp: data.E,
+        };
+        this.depthHandlers.forEach((handler) => handler(depth));
       }
     }
   }
 
+  /**
+   * 订阅K线推送（所有标的和周期）
+   */
+  onKline(handler: KlineHandler) {
+    this.klineHandlers.push(handler);
+  }
+
+  /**
+   * 订阅归集成交推送
+   */
+  onAggTrade(handler: AggTradeHandler) {
+    this.aggTradeHandlers.push(handler);
+  }
+
+  /**
+   * 订阅深度推送
+   */
+  onDepth(handler: DepthHandler) {
+    this.depthHandlers.push(handler);
+  }
+
   /**
    * 订阅标的
    */
@@ -127,14 +377,23 @@ export class BinanceWebSocketClient {
   }
 
   /**
-   * 开始ping保持连接
+   * 开始ping保持连接，同时检查数据是否过期和连接时长
    */
   private startPing() {
+    this.stopPing();
     this.pingInterval = setInterval(() => {
+      if (this.isStale()) {
+        this.recycle(`no data for ${((Date.now() - this.lastMessageAt!) / 1000).toFixed(0)}s`);
+        return;
+      }
+      if (this.connectedAt && Date.now() - this.connectedAt > this.maxConnectionAge) {
+        this.recycle('approaching 24h connection limit');
+        return;
+      }
       if (this.ws && this.ws.readyState === WebSocket.OPEN) {
         this.ws.ping();
       }
-    }, 30000); // 每30秒ping一次
+    }, PING_INTERVAL);
   }
 
   /**
@@ -148,10 +407,15 @@ export class BinanceWebSocketClient {
   }
 
   /**
-   * 关闭连接
+   * 关闭连接（不再重连）
    */
   close() {
+    this.state = 'CLOSED';
     this.stopPing();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
     if (this.ws) {
       this.ws.close();
       this.ws = null;
@@ -200,6 +464,35 @@ class WebSocketManager {
     return this.clients.get(key)!;
   }
 
+  /**
+   * 登记由其他模块创建的客户端（如K线缓存），纳入健康检查和统一关闭
+   */
+  register(key: string, client: BinanceWebSocketClient) {
+    this.clients.set(key, client);
+  }
+
+  /**
+   * 移除登记
+   */
+  unregister(key: string) {
+    this.clients.delete(key);
+  }
+
+  /**
+   * 所有连接的健康状态快照
+   */
+  getStatus(): { healthy: boolean; connections: Array<ConnectionStatus & { key: string }> } {
+    const connections = Array.from(this.clients.entries()).map(([key, client]) => ({
+      key,
+      ...client.getStatus(),
+    }));
+
+    return {
+      healthy: connections.every((c) => c.state === 'OPEN' && !c.stale),
+      connections,
+    };
+  }
+
   /**
    * 关闭所有连接
    */
@@ -0,0 +1,267 @@
+/**
+ * 仪表板实时推送源
+ * 所有 /api/stream 连接共享一份状态：启动时拉一次账户快照，之后由标记价格流和用户数据流增量更新，
+ * 新的AI决策和成交由一个共享的数据库轮询发现（由 worker 进程写入）
+ */
+
+import { BinanceClient } from '../binance/client';
+import { BinanceWebSocketClient, MarketStream, wsManager } from '../binance/websocket';
+import { UserDataStream, UserDataEvent } from '../binance/user-stream';
+import { prisma } from '../database/client';
+import { openPositionFundingFees } from '../trading/funding';
+import {
+  AccountView,
+  PositionView,
+  DecisionView,
+  TradeView,
+  activePositionRisks,
+  buildAccountView,
+  buildPositionView,
+  toDecisionView,
+  toTradeView,
+} from './views';
+
+export type LiveFeedEvent =
+  | { type: 'account'; data: AccountView }
+  | { type: 'positions'; data: PositionView[] }
+  | { type: 'prices'; data: Record<string, number> }
+  | { type: 'decision'; data: DecisionView }
+  | { type: 'trade'; data: TradeView };
+
+type LiveFeedHandler = (event: LiveFeedEvent) => void;
+
+const FLUSH_INTERVAL = 1000; // 价格变动合并推送
+const DB_POLL_INTERVAL = 3000;
+const REFRESH_DEBOUNCE = 500;
+const WS_KEY = 'dashboard-feed';
+
+class LiveFeed {
+  private handlers: Set<LiveFeedHandler> = new Set();
+  private binance: BinanceClient | null = null;
+  private ws: BinanceWebSocketClient | null = null;
+  private userStream: UserDataStream | null = null;
+  private accountInfo: any = null;
+  private positionRisks: any[] = [];
+  private fundingFees: Map<string, number> = new Map();
+  private markPrices: Map<string, number> = new Map();
+  private trackedSymbols: Set<string> = new Set();
+  private dirty = false;
+  private lastDecisionAt = new Date();
+  private lastTradeAt = new Date();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private starting: Promise<void> | null = null;
+
+  /**
+   * 订阅推送，立即收到当前快照；返回取消订阅函数
+   */
+  subscribe(handler: LiveFeedHandler): () => void {
+    this.handlers.add(handler);
+
+    if (!this.starting) {
+      this.starting = this.start().catch((error) => {
+        console.error('[LiveFeed] Failed to start:', error.message);
+      });
+    }
+    this.starting.then(() => {
+      if (this.handlers.has(handler)) this.snapshot().forEach(handler);
+    });
+
+    return () => {
+      this.handlers.delete(handler);
+      if (this.handlers.size === 0) this.stop();
+    };
+  }
+
+  private async start(): Promise<void> {
+    this.lastDecisionAt = new Date();
+    this.lastTradeAt = new Date();
+    this.pollTimer = setInterval(() => this.pollDatabase(), DB_POLL_INTERVAL);
+    this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL);
+
+    const testnet = process.env.BINANCE_TESTNET === 'true';
+    this.ws = new BinanceWebSocketClient(testnet);
+    wsManager.register(WS_KEY, this.ws);
+
+    this.trackSymbols(
+      (process.env.TRADING_SYMBOLS || 'BTCUSDT')
+        .split(',')
+        .map((s) => s.trim().toUpperCase())
+        .filter(Boolean)
+    );
+
+    // 没有API密钥时只推送价格、决策和成交
+    if (!process.env.BINANCE_API_KEY || !process.env.BINANCE_API_SECRET) return;
+
+    this.binance = new BinanceClient({
+      apiKey: process.env.BINANCE_API_KEY,
+      apiSecret: process.env.BINANCE_API_SECRET,
+      testnet,
+    });
+    await this.refreshAccount();
+
+    // 启动期间所有订阅者已断开
+    if (!this.ws) return;
+
+    this.userStream = new UserDataStream(this.binance, testnet);
+    this.userStream.subscribe((event) => this.onUserData(event));
+    await this.userStream.start().catch((error) => {
+      console.error('[LiveFeed] User data stream failed to start:', error.message);
+    });
+  }
+
+  private stop(): void {
+    [this.flushTimer, this.pollTimer].forEach((timer) => timer && clearInterval(timer));
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.flushTimer = this.pollTimer = this.refreshTimer = null;
+
+    this.ws?.close();
+    wsManager.unregister(WS_KEY);
+    this.userStream?.close();
+
+    this.ws = null;
+    this.userStream = null;
+    this.binance = null;
+    this.trackedSymbols.clear();
+    this.markPrices.clear();
+    this.starting = null;
+  }
+
+  /**
+   * 订阅标的的标记价格（持仓中出现新标的时追加）
+   */
+  private trackSymbols(symbols: string[]): void {
+    const added = symbols.filter((s) => !this.trackedSymbols.has(s));
+    if (!this.ws || added.length === 0) return;
+
+    added.forEach((symbol) => {
+      this.trackedSymbols.add(symbol);
+      this.ws!.subscribe(symbol.toLowerCase(), (data) => this.onMarkPrice(data));
+    });
+
+    const streams = added.map((s) => `${s.toLowerCase()}@markPrice@1s`);
+    if (this.ws.getStatus().state === 'IDLE') {
+      this.ws.connect(streams).catch((error) => {
+        console.error('[LiveFeed] Market stream failed to connect:', error.message);
+      });
+    } else {
+      this.ws.subscribeStreams(streams);
+    }
+  }
+
+  private onMarkPrice(data: MarketStream): void {
+    this.markPrices.set(data.symbol, data.price);
+    this.dirty = true;
+  }
+
+  /**
+   * 成交和账户变动后重新拉取账户快照（合并短时间内的多次推送）
+   */
+  private onUserData(event: UserDataEvent): void {
+    if (event.type === 'ORDER_TRADE_UPDATE' && event.executionType !== 'TRADE') return;
+    if (event.type === 'MARGIN_CALL') return;
+
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refreshAccount()
+        .then(() => this.flush(true))
+        .catch((error) => {
+          console.error('[LiveFeed] Account refresh failed:', error.message);
+        });
+    }, REFRESH_DEBOUNCE);
+  }
+
+  private async refreshAccount(): Promise<void> {
+    if (!this.binance) return;
+
+    const [accountInfo, positionRisks, fundingFees] = await Promise.all([
+      this.binance.getFuturesAccount(),
+      this.binance.getPositionRisk(),
+      // 资金费由 worker 入账，数据库不可用时沿用上一次的值
+      openPositionFundingFees().catch(() => this.fundingFees),
+    ]);
+
+    this.accountInfo = accountInfo;
+    this.positionRisks = activePositionRisks(positionRisks);
+    this.fundingFees = fundingFees;
+    this.trackSymbols(this.positionRisks.map((p) => p.symbol));
+  }
+
+  private positionViews(): PositionView[] {
+    return this.positionRisks.map((p) =>
+      buildPositionView(p, this.markPrices.get(p.symbol), this.fundingFees)
+    );
+  }
+
+  private snapshot(): LiveFeedEvent[] {
+    const events: LiveFeedEvent[] = [
+      { type: 'prices', data: Object.fromEntries(this.markPrices) },
+    ];
+
+    if (this.accountInfo) {
+      const positions = this.positionViews();
+      events.push(
+        { type: 'account', data: buildAccountView(this.accountInfo, positions) },
+        { type: 'positions', data: positions }
+      );
+    }
+
+    return events;
+  }
+
+  private flush(force: boolean = false): void {
+    if (!this.dirty && !force) return;
+    this.dirty = false;
+    this.snapshot().forEach((event) => this.emit(event));
+  }
+
+  /**
+   * 轮询 worker 新写入的AI决策和成交
+   */
+  private async pollDatabase(): Promise<void> {
+    try {
+      const [decisions, trades] = await Promise.all([
+        prisma.aIDecision.findMany({
+          where: { timestamp: { gt: this.lastDecisionAt } },
+          orderBy: { timestamp: 'asc' },
+          include: { model: { select: { name: true } } },
+        }),
+        prisma.trade.findMany({
+          where: { executedAt: { gt: this.lastTradeAt } },
+          orderBy: { executedAt: 'asc' },
+        }),
+      ]);
+
+      decisions.forEach((decision) => {
+        this.lastDecisionAt = decision.timestamp;
+        this.emit({ type: 'decision', data: toDecisionView(decision) });
+      });
+
+      trades.forEach((trade) => {
+        this.lastTradeAt = trade.executedAt;
+        this.emit({ type: 'trade', data: toTradeView(trade) });
+      });
+    } catch (error: any) {
+      console.error('[LiveFeed] Database poll failed:', error.message);
+    }
+  }
+
+  private emit(event: LiveFeedEvent): void {
+    this.handlers.forEach((handler) => {
+      try {
+        handler(event);
+      } catch (error: any) {
+        console.error('[LiveFeed] Handler failed:', error.message);
+      }
+    });
+  }
+}
+
+// 开发模式热更新时复用同一实例
+const globalForFeed = global as unknown as { liveFeed: LiveFeed };
+
+export const liveFeed = globalForFeed.liveFeed || new LiveFeed();
+
+if (process.env.NODE_ENV !== 'production') globalForFeed.liveFeed = liveFeed;
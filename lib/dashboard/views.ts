@@ -0,0 +1,179 @@
+/**
+ * 仪表板数据视图
+ * REST 接口和实时推送（/api/stream）共用的账户、持仓、决策、成交格式
+ */
+
+export interface AccountView {
+  totalBalance: number;
+  availableBalance: number;
+  totalPositionValue: number;
+  unrealizedPnl: number;
+  marginRatio: number;
+  leverage: number;
+}
+
+export interface PositionView {
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  size: number;
+  leverage: number;
+  positionValue: number;
+  entryPrice: number;
+  markPrice: number;
+  liqPrice: number;
+  unrealizedPnl: number;
+  pnlPercent: number;
+  margin: number;
+  fundingCost: number;
+}
+
+export interface DecisionView {
+  id: string;
+  model: string;
+  symbol: string;
+  action: string;
+  confidence: number;
+  reasoning: string;
+  positionSize: number | null;
+  leverage: number | null;
+  stopLoss: number | null;
+  takeProfit: number | null;
+  price: number;
+  executed: boolean;
+  executionError: string | null;
+  liquidationPrice: number | null; // 预估强平价格
+  time: string;
+}
+
+export interface TradeView {
+  id: string;
+  symbol: string;
+  side: string;
+  price: number;
+  quantity: number;
+  time: string;
+  realizedPnl?: number;
+  slippage?: number; // 入场相对决策价格的滑点（%）
+}
+
+/**
+ * 持仓视图（positionRisk 格式），markPrice 传入时使用实时标记价格重算盈亏
+ * fundingFees 为数据库中按 `${symbol}:${side}` 汇总的已结算资金费
+ */
+export function buildPositionView(
+  p: any,
+  livePrice?: number,
+  fundingFees?: Map<string, number>
+): PositionView {
+  const amount = parseFloat(p.positionAmt);
+  const size = Math.abs(amount);
+  const entryPrice = parseFloat(p.entryPrice);
+  const markPrice = livePrice ?? parseFloat(p.markPrice);
+  const unrealizedPnl =
+    livePrice !== undefined ? (markPrice - entryPrice) * amount : parseFloat(p.unRealizedProfit);
+  const leverage = parseInt(p.leverage);
+  const side = amount > 0 ? 'LONG' : 'SHORT';
+  const liquidationPrice = parseFloat(p.liquidationPrice);
+
+  // Calculate position value
+  const positionValue = size * markPrice;
+
+  // Calculate margin (position value / leverage)
+  const margin = positionValue / leverage;
+
+  // Calculate PnL percentage
+  const pnlPercent = side === 'LONG'
+    ? ((markPrice - entryPrice) / entryPrice) * 100 * leverage
+    : ((entryPrice - markPrice) / entryPrice) * 100 * leverage;
+
+  // Settled funding fees attributed to the open positions (negative = paid)
+  const fundingCost = fundingFees?.get(`${p.symbol}:${side}`) ?? 0;
+
+  return {
+    symbol: p.symbol,
+    side,
+    size,
+    leverage,
+    positionValue,
+    entryPrice,
+    markPrice,
+    liqPrice: liquidationPrice,
+    unrealizedPnl,
+    pnlPercent,
+    margin,
+    fundingCost,
+  };
+}
+
+/**
+ * 账户视图（futures account + 非零持仓视图）
+ */
+export function buildAccountView(accountInfo: any, positions: PositionView[]): AccountView {
+  // Calculate total balance and unrealized PnL
+  const totalBalance = parseFloat(accountInfo.totalWalletBalance);
+  const availableBalance = parseFloat(accountInfo.availableBalance);
+  const unrealizedPnl = positions.reduce((sum, p) => sum + p.unrealizedPnl, 0);
+  const totalMarginBalance = parseFloat(accountInfo.totalMarginBalance);
+  const totalMaintMargin = parseFloat(accountInfo.totalMaintMargin);
+
+  // Calculate total position value from active positions
+  const totalPositionValue = positions.reduce((sum, p) => sum + p.positionValue, 0);
+
+  // Calculate average leverage (weighted by position value)
+  const totalLeverageWeight = positions.reduce((sum, p) => sum + p.leverage * p.positionValue, 0);
+  const averageLeverage = totalPositionValue > 0 ? totalLeverageWeight / totalPositionValue : 0;
+
+  // Calculate margin used ratio (percentage of margin balance used)
+  const marginRatio = totalMarginBalance > 0
+    ? (totalMaintMargin / totalMarginBalance) * 100
+    : 0;
+
+  return {
+    totalBalance,
+    availableBalance,
+    totalPositionValue,
+    unrealizedPnl,
+    marginRatio,
+    leverage: averageLeverage,
+  };
+}
+
+/**
+ * 非零持仓（positionRisk 返回所有交易对）
+ */
+export function activePositionRisks(positionRisks: any[]): any[] {
+  return positionRisks.filter((p: any) => Math.abs(parseFloat(p.positionAmt)) > 0);
+}
+
+export function toDecisionView(decision: any): DecisionView {
+  return {
+    id: decision.id,
+    model: decision.model.name,
+    symbol: decision.symbol,
+    action: decision.action,
+    confidence: decision.confidence,
+    reasoning: decision.reasoning,
+    positionSize: decision.positionSize,
+    leverage: decision.leverage,
+    stopLoss: decision.stopLoss,
+    takeProfit: decision.takeProfit,
+    price: decision.price,
+    executed: decision.executed,
+    executionError: decision.executionError,
+    liquidationPrice: decision.liquidationPrice ?? null,
+    time: decision.timestamp.toISOString(),
+  };
+}
+
+export function toTradeView(trade: any): TradeView {
+  return {
+    id: trade.id,
+    symbol: trade.symbol,
+    side: trade.side,
+    price: parseFloat(trade.price.toString()),
+    quantity: parseFloat(trade.quantity.toString()),
+    time: trade.executedAt.toISOString(),
+    realizedPnl: trade.pnl ?? undefined,
+    slippage: trade.slippage ?? undefined,
+  };
+}
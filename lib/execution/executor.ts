@@ -0,0 +1,350 @@
+/**
+ * 入场执行算法
+ * 在执行场所之上提供 post-only 限价追价（超时市价兜底）和 TWAP 拆单，并统计相对决策价格的滑点
+ */
+
+import { ExecutionVenue } from './venue';
+import { SymbolFilters, roundQuantity } from '../binance/symbol-info';
+import { TradingError, ErrorType } from '../utils/error-handler';
+import { pickDefined } from '../utils/options';
+
+export type ExecutionStyle = 'market' | 'post_only';
+
+export const EXECUTION_STYLES: ExecutionStyle[] = ['market', 'post_only'];
+
+export interface ExecutionOptions {
+  style: ExecutionStyle; // 每笔（或每个 TWAP 切片）的下单方式
+  chaseSeconds: number; // post-only 追价总时长，超时后剩余数量市价成交
+  repriceInterval: number; // 多久按最新盘口改价一次（秒）
+  twapThreshold: number; // 名义价值达到该值（美元）时按 TWAP 拆单，0 表示不拆
+  twapSlices: number; // TWAP 切片数
+  twapInterval: number; // TWAP 切片间隔（秒）
+}
+
+export const DEFAULT_EXECUTION_OPTIONS: ExecutionOptions = {
+  style: 'market',
+  chaseSeconds: 30,
+  repriceInterval: 5,
+  twapThreshold: 0,
+  twapSlices: 4,
+  twapInterval: 30,
+};
+
+export interface EntryRequest {
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  quantity: number;
+  leverage: number;
+  decisionPrice: number; // 决策时的价格，滑点基准
+  filters: SymbolFilters;
+  onFirstFill?: () => Promise<void>; // 首个切片成交后回调（挂保护单），抛出时停止后续切片
+}
+
+export interface ExecutionFill {
+  orderId: number | string;
+  quantity: number;
+  price: number;
+  maker: boolean; // 限价挂单成交
+  estimated?: boolean; // 未拿到真实成交价，price 为决策价格
+}
+
+export interface ExecutionReport {
+  order: any; // 合并后的币安订单格式（executedQty、avgPrice）
+  style: string; // 实际使用的执行方式，如 "post_only+market"、"twap(4):market"
+  quantity: number; // 总成交数量
+  avgPrice: number;
+  decisionPrice: number;
+  slippage: number | null; // 相对决策价格的不利滑点（%），负数表示价格更优；有成交价未知时为 null
+  makerRatio: number; // 挂单成交占比
+  fills: ExecutionFill[];
+}
+
+export function isExecutionStyle(value: any): value is ExecutionStyle {
+  return EXECUTION_STYLES.includes(value);
+}
+
+/**
+ * 成交均价相对决策价格的不利滑点（%）
+ */
+export function slippagePercent(side: 'LONG' | 'SHORT', decisionPrice: number, avgPrice: number): number {
+  if (decisionPrice <= 0 || avgPrice <= 0) return 0;
+  const diff = side === 'LONG' ? avgPrice - decisionPrice : decisionPrice - avgPrice;
+  return (diff / decisionPrice) * 100;
+}
+
+const POLL_INTERVAL = 1000;
+
+// 订单终态（GTX 会吃单时交易所直接置为 EXPIRED）
+const FINAL_STATUSES = ['FILLED', 'CANCELED', 'EXPIRED', 'REJECTED'];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class OrderExecutor {
+  private venue: ExecutionVenue;
+  private options: ExecutionOptions;
+
+  constructor(venue: ExecutionVenue, options: Partial<ExecutionOptions> = {}) {
+    this.venue = venue;
+    this.options = { ...DEFAULT_EXECUTION_OPTIONS, ...pickDefined(options) };
+  }
+
+  /**
+   * 执行入场：达到阈值时拆成 TWAP 切片，每片按配置的方式下单
+   * 一笔都未成交时抛出；部分切片失败时返回已成交部分
+   */
+  async execute(request: EntryRequest): Promise<ExecutionReport> {
+    const { twapThreshold, twapSlices, twapInterval } = this.options;
+    const notional = request.quantity * request.decisionPrice;
+    const slices = this.sliceQuantities(request, twapThreshold > 0 && notional >= twapThreshold ? twapSlices : 1);
+
+    const fills: ExecutionFill[] = [];
+    const styles = new Set<string>();
+    let notified = false;
+
+    for (let i = 0; i < slices.length; i++) {
+      if (i > 0) await sleep(twapInterval * 1000);
+
+      try {
+        const slice = await this.executeSlice(request, slices[i]);
+        fills.push(...slice.fills);
+        styles.add(slice.style);
+
+        // 剩余切片执行期间已成交部分不能无保护
+        if (!notified && fills.length > 0 && request.onFirstFill) {
+          notified = true;
+          await request.onFirstFill();
+        }
+      } catch (error: any) {
+        if (fills.length === 0) throw error;
+        console.warn(
+          `[Executor] ${request.symbol} TWAP slice ${i + 1}/${slices.length} failed, keeping partial fill:`,
+          error.message
+        );
+        break;
+      }
+    }
+
+    const style = slices.length > 1 ? `twap(${slices.length}):${Array.from(styles).join('|')}` : Array.from(styles)[0];
+    return this.buildReport(request, fills, style);
+  }
+
+  /**
+   * TWAP 切片数量（按步长取整，最后一片承接余数；切片低于最小下单量时减少片数）
+   */
+  private sliceQuantities(request: EntryRequest, slices: number): number[] {
+    const { filters, quantity, decisionPrice } = request;
+    let count = Math.max(1, Math.floor(slices));
+
+    while (count > 1) {
+      const slice = roundQuantity(filters, quantity / count);
+      if (slice >= filters.minQty && slice * decisionPrice >= filters.minNotional) break;
+      count--;
+    }
+    if (count === 1) return [quantity];
+
+    const slice = roundQuantity(filters, quantity / count);
+    const result = Array(count - 1).fill(slice);
+    result.push(roundQuantity(filters, quantity - slice * (count - 1)));
+    return result;
+  }
+
+  /**
+   * 单片执行：post-only 追价未完全成交的部分市价兜底
+   */
+  private async executeSlice(
+    request: EntryRequest,
+    quantity: number
+  ): Promise<{ fills: ExecutionFill[]; style: string }> {
+    if (this.options.style === 'market') {
+      return { fills: [await this.marketFill(request, quantity)], style: 'market' };
+    }
+
+    const { fills, remaining } = await this.chasePostOnly(request, quantity);
+    if (!this.tradable(request, remaining)) {
+      return { fills, style: 'post_only' };
+    }
+
+    try {
+      fills.push(await this.marketFill(request, remaining));
+    } catch (error: any) {
+      if (fills.length === 0) throw error;
+      console.warn(`[Executor] ${request.symbol} market fallback failed, keeping partial fill:`, error.message);
+      return { fills, style: 'post_only' };
+    }
+    return { fills, style: 'post_only+market' };
+  }
+
+  /**
+   * 在最优买价（做多）/卖价（做空）挂 post-only 单，盘口变化时撤单重挂，直到成交或超时
+   */
+  private async chasePostOnly(
+    request: EntryRequest,
+    quantity: number
+  ): Promise<{ fills: ExecutionFill[]; remaining: number }> {
+    const { symbol, side, leverage, filters } = request;
+    const deadline = Date.now() + this.options.chaseSeconds * 1000;
+    const fills: ExecutionFill[] = [];
+    let remaining = quantity;
+    let working: { orderId: number | string; price: number } | null = null;
+
+    const settle = (order: any) => {
+      const executed = parseFloat(order?.executedQty || '0');
+      if (executed > 0) {
+        fills.push({
+          orderId: order.orderId,
+          quantity: executed,
+          price: parseFloat(order.avgPrice || order.price),
+          maker: true,
+        });
+        remaining = roundQuantity(filters, remaining - executed);
+      }
+    };
+
+    try {
+      while (Date.now() < deadline && this.tradable(request, remaining)) {
+        const book = await this.venue.getBookTicker(symbol);
+        const price = side === 'LONG' ? book.bidPrice : book.askPrice;
+
+        // 盘口移动后撤单重挂，价格未变则保留队列位置
+        if (working && working.price !== price) {
+          settle(await this.cancelAndFetch(symbol, working.orderId));
+          working = null;
+          if (!this.tradable(request, remaining)) break;
+        }
+
+        if (!working) {
+          const placed = await this.venue.placeLimitOrder({
+            symbol,
+            side,
+            quantity: remaining,
+            price,
+            leverage,
+            postOnly: true,
+          });
+          working = { orderId: placed.orderId, price };
+        }
+
+        const wait = Math.min(this.options.repriceInterval * 1000, deadline - Date.now());
+        const order = await this.waitForOrder(symbol, working.orderId, wait);
+        if (FINAL_STATUSES.includes(order.status)) {
+          // 被过期的 GTX 单下一轮按新盘口重挂
+          settle(order);
+          working = null;
+        }
+      }
+    } catch (error: any) {
+      // 追价出错时停止挂单，剩余数量交给市价兜底
+      console.warn(`[Executor] ${symbol} post-only chase stopped:`, error.message);
+    } finally {
+      if (working) {
+        try {
+          settle(await this.cancelAndFetch(symbol, working.orderId));
+        } catch (error: any) {
+          // 回查失败时以已确认的成交为准，不丢弃之前的成交
+          console.error(`[Executor] ${symbol} #${working.orderId} state unknown after cancel:`, error.message);
+        }
+      }
+    }
+
+    return { fills, remaining };
+  }
+
+  /**
+   * 轮询订单直到终态或超时
+   */
+  private async waitForOrder(symbol: string, orderId: number | string, timeout: number): Promise<any> {
+    const until = Date.now() + Math.max(0, timeout);
+    let order: any;
+
+    do {
+      await sleep(Math.min(POLL_INTERVAL, Math.max(0, until - Date.now())));
+      order = await this.venue.getOrder(symbol, orderId);
+      if (FINAL_STATUSES.includes(order.status)) break;
+    } while (Date.now() < until);
+
+    return order;
+  }
+
+  /**
+   * 撤单后回查最终成交量（撤单时可能已成交）
+   */
+  private async cancelAndFetch(symbol: string, orderId: number | string): Promise<any> {
+    try {
+      await this.venue.cancelOrder(symbol, orderId);
+    } catch (error: any) {
+      // 已成交或已过期的订单无法撤销，以回查结果为准
+      console.warn(`[Executor] Cancel ${symbol} #${orderId} failed:`, error.message);
+    }
+    return await this.venue.getOrder(symbol, orderId);
+  }
+
+  private async marketFill(request: EntryRequest, quantity: number): Promise<ExecutionFill> {
+    const { symbol, side, leverage, decisionPrice } = request;
+    let order = side === 'LONG'
+      ? await this.venue.openLong(symbol, quantity, leverage)
+      : await this.venue.openShort(symbol, quantity, leverage);
+
+    // 响应未带成交均价时回查订单
+    if (!(parseFloat(order?.avgPrice || '0') > 0) && order?.orderId !== undefined) {
+      try {
+        order = { ...order, ...(await this.venue.getOrder(symbol, order.orderId)) };
+      } catch (error: any) {
+        console.warn(`[Executor] ${symbol} #${order.orderId} fill lookup failed:`, error.message);
+      }
+    }
+
+    const executed = parseFloat(order?.executedQty || '0');
+    const avgPrice = parseFloat(order?.avgPrice || '0');
+    return {
+      orderId: order?.orderId,
+      quantity: executed > 0 ? executed : quantity,
+      price: avgPrice > 0 ? avgPrice : decisionPrice,
+      maker: false,
+      estimated: !(avgPrice > 0),
+    };
+  }
+
+  /**
+   * 剩余数量是否还能下单（最小数量和最小名义价值）
+   */
+  private tradable(request: EntryRequest, quantity: number): boolean {
+    const { filters, decisionPrice } = request;
+    return quantity >= filters.minQty && quantity * decisionPrice >= filters.minNotional;
+  }
+
+  private buildReport(request: EntryRequest, fills: ExecutionFill[], style: string): ExecutionReport {
+    const quantity = fills.reduce((sum, f) => sum + f.quantity, 0);
+    if (quantity <= 0) {
+      throw new TradingError(ErrorType.BINANCE_INVALID_ORDER, `${request.symbol} entry was not filled`);
+    }
+
+    const quote = fills.reduce((sum, f) => sum + f.quantity * f.price, 0);
+    const avgPrice = quote / quantity;
+    const makerQuantity = fills.filter((f) => f.maker).reduce((sum, f) => sum + f.quantity, 0);
+    const last = fills[fills.length - 1];
+
+    return {
+      order: {
+        orderId: last.orderId,
+        symbol: request.symbol,
+        status: 'FILLED',
+        side: request.side === 'LONG' ? 'BUY' : 'SELL',
+        positionSide: request.side,
+        origQty: String(request.quantity),
+        executedQty: String(quantity),
+        avgPrice: String(avgPrice),
+        cumQuote: String(quote),
+      },
+      style,
+      quantity,
+      avgPrice,
+      decisionPrice: request.decisionPrice,
+      // 任一成交价为估计值时滑点未知，不记为 0
+      slippage: fills.some((f) => f.estimated)
+        ? null
+        : slippagePercent(request.side, request.decisionPrice, avgPrice),
+      makerRatio: makerQuantity / quantity,
+      fills,
+    };
+  }
+}
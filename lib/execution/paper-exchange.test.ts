@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// 内存中的 PaperAccount 表，避免加载 Prisma 引擎
+const accounts = new Map<string, any>();
+
+vi.mock('../database/client', () => ({
+  prisma: {
+    paperAccount: {
+      findUnique: async ({ where }: any) => accounts.get(where.name) ?? null,
+      create: async ({ data }: any) => {
+        accounts.set(data.name, { ...data });
+        return data;
+      },
+      update: async ({ where, data }: any) => {
+        const account = { ...accounts.get(where.name), ...data };
+        accounts.set(where.name, account);
+        return account;
+      },
+    },
+  },
+}));
+
+import { PaperExchange } from './paper-exchange';
+
+const prices: Record<string, number> = {};
+
+function createExchange(): PaperExchange {
+  return new PaperExchange({
+    name: 'test',
+    initialBalance: 10000,
+    priceFeed: { getPrice: async (symbol: string) => prices[symbol] },
+    commission: 0.0004,
+    slippage: 0.0005,
+  });
+}
+
+describe('PaperExchange', () => {
+  let exchange: PaperExchange;
+
+  beforeEach(() => {
+    accounts.clear();
+    prices.BTCUSDT = 100;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    exchange = createExchange();
+  });
+
+  describe('market fills', () => {
+    it('fills a long at mark plus slippage and charges commission', async () => {
+      const order = await exchange.openLong('BTCUSDT', 2, 10);
+
+      expect(order.status).toBe('FILLED');
+      expect(parseFloat(order.avgPrice)).toBeCloseTo(100.05, 10);
+
+      const [position] = await exchange.getPositions();
+      expect(position.positionAmt).toBe('2');
+      expect(parseFloat(position.entryPrice)).toBeCloseTo(100.05, 10);
+
+      const [fill] = await exchange.getUserTrades('BTCUSDT');
+      expect(parseFloat(fill.commission)).toBeCloseTo(100.05 * 2 * 0.0004, 10);
+      expect(accounts.get('test').balance).toBeCloseTo(10000 - 100.05 * 2 * 0.0004, 10);
+    });
+
+    it('fills a short at mark minus slippage and settles PnL on close', async () => {
+      await exchange.openShort('BTCUSDT', 1, 5);
+      prices.BTCUSDT = 90;
+
+      const close = await exchange.closePosition('BTCUSDT', 'SHORT');
+
+      // 平空按标记价加滑点买回
+      expect(parseFloat(close.avgPrice)).toBeCloseTo(90.045, 10);
+      const pnl = 99.95 - 90.045;
+      const fees = (99.95 + 90.045) * 0.0004;
+      expect(accounts.get('test').balance).toBeCloseTo(10000 + pnl - fees, 8);
+      expect(await exchange.getPositions()).toEqual([]);
+    });
+
+    it('rejects entries exceeding the available margin', async () => {
+      await expect(exchange.openLong('BTCUSDT', 1000, 5)).rejects.toThrow(/exceeds available/);
+    });
+  });
+
+  describe('triggers', () => {
+    it('fills the stop loss with slippage when the price crosses it', async () => {
+      await exchange.openLong('BTCUSDT', 1, 10, 95, 110);
+      prices.BTCUSDT = 94;
+
+      const fills = await exchange.checkTriggers('BTCUSDT');
+
+      expect(fills).toHaveLength(1);
+      expect(fills[0].reason).toBe('STOP_LOSS');
+      expect(parseFloat(fills[0].avgPrice)).toBeCloseTo(95 * 0.9995, 10);
+      // 平仓后剩余的止盈单一并清除
+      expect(await exchange.getOpenOrders('BTCUSDT')).toEqual([]);
+    });
+
+    it('liquidates at the liquidation price once the mark passes it', async () => {
+      await exchange.openLong('BTCUSDT', 1, 10);
+      const entry = 100.05;
+      const liquidationPrice = entry * (1 - 1 / 10);
+      prices.BTCUSDT = 89;
+
+      const fills = await exchange.checkTriggers('BTCUSDT');
+
+      expect(fills).toHaveLength(1);
+      expect(fills[0].reason).toBe('LIQUIDATION');
+      expect(parseFloat(fills[0].avgPrice)).toBeCloseTo(liquidationPrice, 10);
+      expect(await exchange.getPositions()).toEqual([]);
+    });
+
+    it('processes the adverse trigger first when one range spans both legs', async () => {
+      const ranged = new PaperExchange({
+        name: 'ranged',
+        initialBalance: 10000,
+        priceFeed: {
+          getPrice: async () => 100,
+          getRange: async () => ({ high: 111, low: 94 }),
+        },
+      });
+      await ranged.openLong('BTCUSDT', 1, 10, 95, 110);
+
+      const fills = await ranged.checkTriggers('BTCUSDT');
+
+      expect(fills.map((f) => f.reason)).toEqual(['STOP_LOSS']);
+    });
+  });
+
+  describe('placeBracketOrder', () => {
+    it('places both legs when neither would trigger immediately', async () => {
+      await exchange.checkTriggers('BTCUSDT');
+
+      const result = await exchange.placeBracketOrder({
+        symbol: 'BTCUSDT',
+        side: 'LONG',
+        quantity: 1,
+        leverage: 10,
+        stopLoss: 95,
+        takeProfit: 110,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.rolledBack).toBe(false);
+      expect(await exchange.getOpenOrders('BTCUSDT')).toHaveLength(2);
+    });
+
+    it('rolls back the entry when a leg would trigger immediately', async () => {
+      await exchange.checkTriggers('BTCUSDT');
+
+      const result = await exchange.placeBracketOrder({
+        symbol: 'BTCUSDT',
+        side: 'LONG',
+        quantity: 1,
+        leverage: 10,
+        stopLoss: 101,
+        takeProfit: 110,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.rolledBack).toBe(true);
+      expect(result.stopLoss.status).toBe('FAILED');
+      expect(parseFloat(result.rollbackOrder.executedQty)).toBe(1);
+      expect(await exchange.getPositions()).toEqual([]);
+      expect(await exchange.getOpenOrders('BTCUSDT')).toEqual([]);
+    });
+
+    it('reports no rollback when the position is already gone', async () => {
+      await exchange.checkTriggers('BTCUSDT');
+
+      const result = await exchange.placeBracketOrder({
+        symbol: 'BTCUSDT',
+        side: 'LONG',
+        quantity: 1,
+        leverage: 10,
+        stopLoss: 101,
+        takeProfit: 110,
+        // 入场成交后仓位在挂保护腿前已被平掉
+        execute: async () => {
+          const entry = await exchange.openLong('BTCUSDT', 1, 10);
+          await exchange.closePosition('BTCUSDT', 'LONG');
+          return entry;
+        },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.rolledBack).toBe(false);
+      expect(result.error).toMatch(/position already closed/);
+    });
+  });
+});
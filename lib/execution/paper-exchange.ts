@@ -0,0 +1,1136 @@
+/**
+ * 模拟盘交易所
+ * 按行情价格模拟市价成交、限价挂单、手续费、滑点和止损止盈触发，状态持久化到 PaperAccount
+ */
+
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../database/client';
+import { BinanceClient, BookTicker, Position, UserTrade } from '../binance/client';
+import { TradingError, ErrorType, safeExecute } from '../utils/error-handler';
+import {
+  ExecutionVenue,
+  VenueAccountInfo,
+  BracketOrderParams,
+  BracketOrderResult,
+  BracketLegResult,
+  LimitOrderParams,
+  ProtectionParams,
+  ProtectionResult,
+} from './venue';
+
+type PositionSide = 'LONG' | 'SHORT';
+
+export interface PriceFeed {
+  /**
+   * 最新价格
+   */
+  getPrice(symbol: string): Promise<number>;
+
+  /**
+   * 自 since 以来的最高/最低价，用于判断两次检查之间是否触发止损止盈
+   */
+  getRange?(symbol: string, since: number): Promise<{ high: number; low: number } | null>;
+}
+
+/**
+ * 基于币安公共行情的价格源（无需API密钥）
+ */
+export class BinancePriceFeed implements PriceFeed {
+  private binance: BinanceClient;
+
+  constructor(binance: BinanceClient) {
+    this.binance = binance;
+  }
+
+  async getPrice(symbol: string): Promise<number> {
+    return await this.binance.getCurrentPrice(symbol);
+  }
+
+  async getRange(symbol: string, since: number): Promise<{ high: number; low: number } | null> {
+    const minutes = Math.ceil((Date.now() - since) / 60000) + 1;
+    const klines = await this.binance.getKlines(symbol, '1m', Math.min(1500, Math.max(1, minutes)));
+    const candles = klines.filter((k) => k.closeTime >= since);
+    if (candles.length === 0) return null;
+
+    return {
+      high: Math.max(...candles.map((k) => parseFloat(k.high))),
+      low: Math.min(...candles.map((k) => parseFloat(k.low))),
+    };
+  }
+}
+
+export interface PaperExchangeOptions {
+  name: string; // 账户名，持久化主键
+  initialBalance: number;
+  priceFeed: PriceFeed;
+  commission?: number; // 吃单手续费率 (默认0.04%)
+  makerCommission?: number; // 挂单手续费率 (默认0.02%)
+  slippage?: number; // 市价单滑点 (默认0.05%)，同时作为模拟盘口的半价差
+}
+
+interface PaperPosition {
+  symbol: string;
+  positionSide: PositionSide;
+  quantity: number;
+  entryPrice: number;
+  leverage: number;
+}
+
+interface PaperOrder {
+  orderId: number;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: 'STOP_MARKET' | 'TAKE_PROFIT_MARKET';
+  positionSide: PositionSide;
+  quantity: number;
+  stopPrice: number;
+  closePosition?: boolean; // 触发时平掉整个持仓
+  time: number;
+}
+
+interface PaperLimitOrder {
+  orderId: number;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  positionSide: PositionSide;
+  quantity: number;
+  price: number;
+  leverage: number;
+  postOnly: boolean;
+  time: number;
+}
+
+interface PaperState {
+  positions: PaperPosition[];
+  orders: PaperOrder[];
+  limitOrders: PaperLimitOrder[]; // 未成交的限价开仓单
+  leverage: Record<string, number>;
+  marks: Record<string, number>; // 最近一次标记价格
+  lastCheck: Record<string, number>; // 最近一次触发检查时间
+  fills: UserTrade[]; // 成交历史（保留最近 MAX_FILLS 条）
+  nextOrderId: number;
+}
+
+const MAX_FILLS = 1000;
+
+const positionSideSchema = z.enum(['LONG', 'SHORT']);
+const orderSideSchema = z.enum(['BUY', 'SELL']);
+
+/**
+ * PaperAccount.state 的结构校验；缺省字段沿用初始状态（兼容旧版本保存的状态）
+ */
+const paperStateSchema = z
+  .object({
+    positions: z.array(
+      z.object({
+        symbol: z.string(),
+        positionSide: positionSideSchema,
+        quantity: z.number(),
+        entryPrice: z.number(),
+        leverage: z.number(),
+      })
+    ),
+    orders: z.array(
+      z.object({
+        orderId: z.number(),
+        symbol: z.string(),
+        side: orderSideSchema,
+        type: z.enum(['STOP_MARKET', 'TAKE_PROFIT_MARKET']),
+        positionSide: positionSideSchema,
+        quantity: z.number(),
+        stopPrice: z.number(),
+        closePosition: z.boolean().optional(),
+        time: z.number(),
+      })
+    ),
+    limitOrders: z.array(
+      z.object({
+        orderId: z.number(),
+        symbol: z.string(),
+        side: orderSideSchema,
+        positionSide: positionSideSchema,
+        quantity: z.number(),
+        price: z.number(),
+        leverage: z.number(),
+        postOnly: z.boolean(),
+        time: z.number(),
+      })
+    ),
+    leverage: z.record(z.number()),
+    marks: z.record(z.number()),
+    lastCheck: z.record(z.number()),
+    fills: z.array(
+      z.object({
+        symbol: z.string(),
+        id: z.number(),
+        orderId: z.number(),
+        side: orderSideSchema,
+        positionSide: z.string(),
+        price: z.string(),
+        qty: z.string(),
+        realizedPnl: z.string(),
+        commission: z.string(),
+        commissionAsset: z.string(),
+        time: z.number(),
+      })
+    ),
+    nextOrderId: z.number(),
+  })
+  .partial();
+
+/**
+ * 解析持久化的状态，结构不符时拒绝加载（避免丢失持仓后继续交易）
+ */
+function parsePaperState(name: string, value: Prisma.JsonValue): Partial<PaperState> {
+  const parsed = paperStateSchema.safeParse(value ?? {});
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new TradingError(
+      ErrorType.DATABASE_ERROR,
+      `Paper account ${name} has invalid state at ${issue?.path.join('.')}: ${issue?.message}`,
+      { details: parsed.error.issues }
+    );
+  }
+  // strict 关闭时 zod 推断的字段均为可选，结构已在上面校验
+  return parsed.data as Partial<PaperState>;
+}
+
+interface TriggerEvent {
+  level: number;
+  reason: 'STOP_LOSS' | 'TAKE_PROFIT' | 'LIQUIDATION';
+  order?: PaperOrder;
+}
+
+export class PaperExchange implements ExecutionVenue {
+  readonly name: string;
+  private initialBalance: number;
+  private priceFeed: PriceFeed;
+  private commission: number;
+  private makerCommission: number;
+  private slippage: number;
+  private balance: number;
+  private state: PaperState = {
+    positions: [],
+    orders: [],
+    limitOrders: [],
+    leverage: {},
+    marks: {},
+    lastCheck: {},
+    fills: [],
+    nextOrderId: 1,
+  };
+  private loading: Promise<void> | null = null;
+
+  constructor(options: PaperExchangeOptions) {
+    this.name = options.name;
+    this.initialBalance = options.initialBalance;
+    this.balance = options.initialBalance;
+    this.priceFeed = options.priceFeed;
+    this.commission = options.commission ?? 0.0004;
+    this.makerCommission = options.makerCommission ?? 0.0002;
+    this.slippage = options.slippage ?? 0.0005;
+  }
+
+  /**
+   * 从数据库加载状态（仅首次）
+   */
+  private async load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const account = await prisma.paperAccount.findUnique({ where: { name: this.name } });
+
+        if (account) {
+          this.balance = account.balance;
+          this.initialBalance = account.initialBalance;
+          this.state = { ...this.state, ...parsePaperState(this.name, account.state) };
+          return;
+        }
+
+        await prisma.paperAccount.create({
+          data: {
+            name: this.name,
+            initialBalance: this.initialBalance,
+            balance: this.initialBalance,
+            state: this.serializedState(),
+          },
+        });
+      })().catch((error) => {
+        this.loading = null;
+        throw error;
+      });
+    }
+
+    await this.loading;
+  }
+
+  /**
+   * 状态写入 Json 列（PaperState 只含数字、字符串、布尔、数组和普通对象）
+   */
+  private serializedState(): Prisma.InputJsonValue {
+    return this.state as unknown as Prisma.InputJsonValue;
+  }
+
+  /**
+   * 持久化状态
+   */
+  private async save(): Promise<void> {
+    await prisma.paperAccount.update({
+      where: { name: this.name },
+      data: { balance: this.balance, state: this.serializedState() },
+    });
+  }
+
+  /**
+   * 设置杠杆
+   */
+  async setLeverage(symbol: string, leverage: number): Promise<void> {
+    await this.load();
+    this.state.leverage[symbol] = leverage;
+    await this.save();
+  }
+
+  /**
+   * 获取所有持仓（先按最新价格检查触发）
+   */
+  async getPositions(): Promise<Position[]> {
+    await this.checkTriggers();
+
+    return this.state.positions.map((p) => {
+      const mark = this.state.marks[p.symbol] ?? p.entryPrice;
+      const direction = p.positionSide === 'LONG' ? 1 : -1;
+
+      return {
+        symbol: p.symbol,
+        positionAmt: String(p.quantity * direction),
+        entryPrice: String(p.entryPrice),
+        unRealizedProfit: String(this.positionPnL(p, mark)),
+        leverage: String(p.leverage),
+        positionSide: p.positionSide,
+      };
+    });
+  }
+
+  /**
+   * 获取账户信息（余额+持仓）
+   * 可用余额 = 钱包余额 + 未实现盈亏 - 占用保证金
+   */
+  async getAccountInfo(): Promise<VenueAccountInfo> {
+    const positions = await this.getPositions();
+
+    const unrealizedPnL = positions.reduce(
+      (sum, p) => sum + parseFloat(p.unRealizedProfit),
+      0
+    );
+    const margin = this.state.positions.reduce(
+      (sum, p) => sum + (p.entryPrice * p.quantity) / p.leverage,
+      0
+    );
+    const balance = Math.max(0, this.balance + unrealizedPnL - margin);
+
+    return {
+      balance,
+      positions,
+      unrealizedPnL,
+      totalValue: balance + unrealizedPnL,
+    };
+  }
+
+  /**
+   * 开多单
+   */
+  async openLong(
+    symbol: string,
+    quantity: number,
+    leverage: number,
+    stopLoss?: number,
+    takeProfit?: number
+  ): Promise<any> {
+    return await this.open(symbol, 'LONG', quantity, leverage, stopLoss, takeProfit);
+  }
+
+  /**
+   * 开空单
+   */
+  async openShort(
+    symbol: string,
+    quantity: number,
+    leverage: number,
+    stopLoss?: number,
+    takeProfit?: number
+  ): Promise<any> {
+    return await this.open(symbol, 'SHORT', quantity, leverage, stopLoss, takeProfit);
+  }
+
+  /**
+   * 市价开仓/加仓，同向持仓按加权均价合并
+   */
+  private async open(
+    symbol: string,
+    positionSide: PositionSide,
+    quantity: number,
+    leverage: number,
+    stopLoss?: number,
+    takeProfit?: number
+  ): Promise<any> {
+    if (quantity <= 0) {
+      throw new TradingError(ErrorType.BINANCE_INVALID_ORDER, `Invalid quantity: ${quantity}`);
+    }
+
+    await this.checkTriggers(symbol);
+    this.state.leverage[symbol] = leverage;
+
+    const mark = this.state.marks[symbol];
+    const price = positionSide === 'LONG'
+      ? mark * (1 + this.slippage)
+      : mark * (1 - this.slippage);
+    const notionalValue = price * quantity;
+    const fee = notionalValue * this.commission;
+
+    await this.checkMargin(notionalValue, leverage, fee);
+
+    this.addToPosition(symbol, positionSide, quantity, price, leverage);
+    this.balance -= fee;
+    const order = this.fillResult(
+      symbol,
+      positionSide === 'LONG' ? 'BUY' : 'SELL',
+      positionSide,
+      quantity,
+      price,
+      fee
+    );
+
+    await this.placeProtectiveOrders(symbol, positionSide, quantity, stopLoss, takeProfit);
+
+    return order;
+  }
+
+  /**
+   * 开仓所需保证金和手续费不得超过可用余额
+   */
+  private async checkMargin(notionalValue: number, leverage: number, fee: number): Promise<void> {
+    const { balance: available } = await this.getAccountInfo();
+    if (notionalValue / leverage + fee > available) {
+      throw new TradingError(
+        ErrorType.BINANCE_INSUFFICIENT_BALANCE,
+        `Paper account ${this.name}: margin $${(notionalValue / leverage + fee).toFixed(2)} exceeds available $${available.toFixed(2)}`
+      );
+    }
+  }
+
+  /**
+   * 成交并入持仓，同向持仓按加权均价合并
+   */
+  private addToPosition(
+    symbol: string,
+    positionSide: PositionSide,
+    quantity: number,
+    price: number,
+    leverage: number
+  ): void {
+    const existing = this.findPosition(symbol, positionSide);
+    if (existing) {
+      const total = existing.quantity + quantity;
+      existing.entryPrice = (existing.entryPrice * existing.quantity + price * quantity) / total;
+      existing.quantity = total;
+      existing.leverage = leverage;
+    } else {
+      this.state.positions.push({ symbol, positionSide, quantity, entryPrice: price, leverage });
+    }
+  }
+
+  /**
+   * 模拟盘口：标记价格两侧各偏离一个滑点
+   */
+  async getBookTicker(symbol: string): Promise<BookTicker> {
+    const mark = await this.priceFeed.getPrice(symbol);
+
+    return {
+      symbol,
+      bidPrice: mark * (1 - this.slippage),
+      bidQty: 0,
+      askPrice: mark * (1 + this.slippage),
+      askQty: 0,
+    };
+  }
+
+  /**
+   * 限价开仓挂单，价格被行情穿越时按挂单价成交（挂单手续费）
+   * postOnly 单在会立即成交时直接过期，与币安 GTX 一致
+   */
+  async placeLimitOrder(params: LimitOrderParams): Promise<any> {
+    const { symbol, side, quantity, price, leverage, postOnly = false } = params;
+    if (quantity <= 0 || price <= 0) {
+      throw new TradingError(
+        ErrorType.BINANCE_INVALID_ORDER,
+        `Invalid limit order: ${quantity} @ ${price}`
+      );
+    }
+
+    await this.checkTriggers(symbol);
+
+    const order: PaperLimitOrder = {
+      orderId: this.state.nextOrderId++,
+      symbol,
+      side: side === 'LONG' ? 'BUY' : 'SELL',
+      positionSide: side,
+      quantity,
+      price,
+      leverage,
+      postOnly,
+      time: Date.now(),
+    };
+
+    const book = await this.getBookTicker(symbol);
+    const crosses = side === 'LONG' ? price >= book.askPrice : price <= book.bidPrice;
+    if (crosses && postOnly) {
+      await this.save();
+      return this.limitOrderResult(order, 'EXPIRED');
+    }
+
+    await this.checkMargin(price * quantity, leverage, price * quantity * this.makerCommission);
+
+    this.state.leverage[symbol] = leverage;
+    this.state.limitOrders.push(order);
+    await this.save();
+
+    return this.limitOrderResult(order, 'NEW');
+  }
+
+  /**
+   * 查询订单：挂单中、已成交（按成交记录汇总）或已撤销
+   */
+  async getOrder(symbol: string, orderId: number | string): Promise<any> {
+    await this.checkTriggers(symbol);
+
+    const limitOrder = this.state.limitOrders.find(
+      (o) => o.symbol === symbol && String(o.orderId) === String(orderId)
+    );
+    if (limitOrder) return this.limitOrderResult(limitOrder, 'NEW');
+
+    const order = this.state.orders.find(
+      (o) => o.symbol === symbol && String(o.orderId) === String(orderId)
+    );
+    if (order) {
+      return {
+        orderId: order.orderId,
+        symbol,
+        status: 'NEW',
+        side: order.side,
+        type: order.type,
+        positionSide: order.positionSide,
+        origQty: String(order.quantity),
+        executedQty: '0',
+        stopPrice: String(order.stopPrice),
+      };
+    }
+
+    const fills = this.state.fills.filter(
+      (f) => f.symbol === symbol && String(f.orderId) === String(orderId)
+    );
+    if (fills.length === 0) {
+      return { orderId, symbol, status: 'CANCELED', executedQty: '0', avgPrice: '0' };
+    }
+
+    const quantity = fills.reduce((sum, f) => sum + parseFloat(f.qty), 0);
+    const quote = fills.reduce((sum, f) => sum + parseFloat(f.qty) * parseFloat(f.price), 0);
+    return {
+      orderId: fills[0].orderId,
+      symbol,
+      status: 'FILLED',
+      side: fills[0].side,
+      positionSide: fills[0].positionSide,
+      origQty: String(quantity),
+      executedQty: String(quantity),
+      avgPrice: String(quote / quantity),
+      cumQuote: String(quote),
+      updateTime: fills[fills.length - 1].time,
+    };
+  }
+
+  /**
+   * 括号单：入场后挂 closePosition 止损止盈，触发价已越过当前价时回滚入场
+   * 分批入场时保护腿在首笔成交后即挂上
+   */
+  async placeBracketOrder(params: BracketOrderParams): Promise<BracketOrderResult> {
+    const { symbol, side, quantity, leverage, stopLoss, takeProfit } = params;
+    const orderSide = side === 'LONG' ? 'SELL' : 'BUY';
+
+    // 保护腿只挂一次，按挂单时的标记价格判断是否会立即触发
+    let legs: BracketLegResult[] | null = null;
+    const placeLegs = async () => {
+      if (legs) return legs;
+
+      const mark = this.state.marks[symbol];
+      const placed = [
+        { type: 'STOP_MARKET' as const, stopPrice: stopLoss },
+        { type: 'TAKE_PROFIT_MARKET' as const, stopPrice: takeProfit },
+      ].map(({ type, stopPrice }) => {
+        const isStop = type === 'STOP_MARKET';
+        const triggersNow = (side === 'LONG') === isStop ? stopPrice >= mark : stopPrice <= mark;
+        if (triggersNow) {
+          return { status: 'FAILED', error: 'Order would immediately trigger.', attempts: 1 } as BracketLegResult;
+        }
+
+        const order = this.newOrder(symbol, orderSide, type, side, quantity, stopPrice);
+        order.closePosition = true;
+        return { status: 'PLACED', order, attempts: 1 } as BracketLegResult;
+      });
+
+      if (placed.every((leg) => leg.status === 'PLACED')) {
+        this.state.orders.push(...placed.map((leg) => leg.order as PaperOrder));
+        await this.save();
+      }
+      legs = placed;
+      return legs;
+    };
+    const protect = async () => {
+      const placed = await placeLegs();
+      if (placed.some((leg) => leg.status === 'FAILED')) {
+        throw new Error('Protective legs failed, stopping entry');
+      }
+    };
+
+    const entry = params.execute
+      ? await params.execute(protect)
+      : await this.open(symbol, side, quantity, leverage);
+
+    const [stopLossLeg, takeProfitLeg] = await placeLegs();
+
+    if (stopLossLeg.status === 'PLACED' && takeProfitLeg.status === 'PLACED') {
+      return { success: true, entry, stopLoss: stopLossLeg, takeProfit: takeProfitLeg, rolledBack: false };
+    }
+
+    const failed = stopLossLeg.status === 'FAILED' ? 'Stop loss' : 'Take profit';
+
+    // 仓位可能已被模拟触发或强平平掉，此时没有可回滚的数量（平仓由对账入账）
+    const position = this.findPosition(symbol, side);
+    if (!position) {
+      return {
+        success: false,
+        entry,
+        stopLoss: stopLossLeg,
+        takeProfit: takeProfitLeg,
+        rolledBack: false,
+        error: `${failed} leg failed: Order would immediately trigger (position already closed)`,
+      };
+    }
+
+    // 回滚入场仓位（按实际成交数量）
+    const filled = parseFloat(entry?.executedQty || '0') || quantity;
+    const rollbackOrder = this.reduce(position, Math.min(filled, position.quantity), this.marketExit(position));
+    await this.save();
+
+    return {
+      success: false,
+      entry,
+      stopLoss: stopLossLeg,
+      takeProfit: takeProfitLeg,
+      rolledBack: true,
+      rollbackOrder,
+      error: `${failed} leg failed: Order would immediately trigger.`,
+    };
+  }
+
+  /**
+   * 挂止损止盈单
+   */
+  async placeProtectiveOrders(
+    symbol: string,
+    positionSide: PositionSide,
+    quantity: number,
+    stopLoss?: number,
+    takeProfit?: number
+  ): Promise<any[]> {
+    await this.load();
+
+    const side = positionSide === 'LONG' ? 'SELL' : 'BUY';
+    const orders: PaperOrder[] = [];
+
+    if (stopLoss) {
+      orders.push(this.newOrder(symbol, side, 'STOP_MARKET', positionSide, quantity, stopLoss));
+    }
+    if (takeProfit) {
+      orders.push(this.newOrder(symbol, side, 'TAKE_PROFIT_MARKET', positionSide, quantity, takeProfit));
+    }
+
+    this.state.orders.push(...orders);
+    await this.save();
+
+    return orders.map((o) => ({
+      orderId: o.orderId,
+      symbol: o.symbol,
+      status: 'NEW',
+      side: o.side,
+      type: o.type,
+      positionSide: o.positionSide,
+      origQty: String(o.quantity),
+      stopPrice: String(o.stopPrice),
+      updateTime: o.time,
+    }));
+  }
+
+  /**
+   * 替换止损止盈：新腿都有效时才替换同类型旧腿，触发价已越过标记价格时保留旧腿
+   */
+  async replaceProtectiveOrders(params: ProtectionParams): Promise<ProtectionResult> {
+    await this.load();
+
+    const { symbol, side, quantity, stopLoss, takeProfit } = params;
+    const mark = this.state.marks[symbol];
+    const orderSide = side === 'LONG' ? 'SELL' : 'BUY';
+    const legs = [
+      { type: 'STOP_MARKET' as const, stopPrice: stopLoss },
+      { type: 'TAKE_PROFIT_MARKET' as const, stopPrice: takeProfit },
+    ].filter((leg) => leg.stopPrice);
+    const types: string[] = legs.map((leg) => leg.type);
+    const previous = this.state.orders.filter(
+      (o) => o.symbol === symbol && o.positionSide === side && types.includes(o.type)
+    );
+
+    const results = legs.map(({ type, stopPrice }) => {
+      const isStop = type === 'STOP_MARKET';
+      const triggersNow = (side === 'LONG') === isStop ? stopPrice >= mark : stopPrice <= mark;
+      if (triggersNow) {
+        return {
+          type,
+          result: { status: 'FAILED', error: 'Order would immediately trigger.', attempts: 1 } as BracketLegResult,
+        };
+      }
+
+      const order = this.newOrder(symbol, orderSide, type, side, quantity, stopPrice);
+      return { type, order, result: { status: 'PLACED', order, attempts: 1 } as BracketLegResult };
+    });
+
+    const stopLossLeg = results.find((r) => r.type === 'STOP_MARKET')?.result;
+    const takeProfitLeg = results.find((r) => r.type === 'TAKE_PROFIT_MARKET')?.result;
+
+    const failed = results.find((r) => !r.order);
+    if (failed) {
+      const leg = failed.type === 'STOP_MARKET' ? 'Stop loss' : 'Take profit';
+      return {
+        success: false,
+        stopLoss: stopLossLeg,
+        takeProfit: takeProfitLeg,
+        previousKept: previous.length,
+        error: `${leg} leg failed: ${failed.result.error}`,
+      };
+    }
+
+    this.state.orders = this.state.orders.filter((o) => !previous.includes(o));
+    this.state.orders.push(...results.map((r) => r.order!));
+    await this.save();
+
+    return { success: true, stopLoss: stopLossLeg, takeProfit: takeProfitLeg, previousKept: 0 };
+  }
+
+  /**
+   * 撤销标的所有挂单
+   */
+  async cancelAllOpenOrders(symbol: string): Promise<any> {
+    await this.load();
+    this.state.orders = this.state.orders.filter((o) => o.symbol !== symbol);
+    this.state.limitOrders = this.state.limitOrders.filter((o) => o.symbol !== symbol);
+    await this.save();
+
+    return { code: 200, msg: 'The operation of cancel all open order is done.' };
+  }
+
+  /**
+   * 当前挂单
+   */
+  async getOpenOrders(symbol?: string): Promise<any[]> {
+    await this.load();
+
+    const limitOrders = this.state.limitOrders
+      .filter((o) => !symbol || o.symbol === symbol)
+      .map((o) => ({ ...this.limitOrderResult(o, 'NEW'), reduceOnly: false, closePosition: false }));
+
+    const protective = this.state.orders
+      .filter((o) => !symbol || o.symbol === symbol)
+      .map((o) => ({
+        orderId: o.orderId,
+        symbol: o.symbol,
+        status: 'NEW',
+        side: o.side,
+        type: o.type,
+        positionSide: o.positionSide,
+        origQty: o.closePosition ? '0' : String(o.quantity),
+        stopPrice: String(o.stopPrice),
+        reduceOnly: true,
+        closePosition: !!o.closePosition,
+        time: o.time,
+      }));
+
+    return [...limitOrders, ...protective];
+  }
+
+  /**
+   * 撤销单个订单
+   */
+  async cancelOrder(symbol: string, orderId: number | string): Promise<any> {
+    await this.load();
+
+    const limitOrder = this.state.limitOrders.find(
+      (o) => o.symbol === symbol && String(o.orderId) === String(orderId)
+    );
+    if (limitOrder) {
+      this.state.limitOrders = this.state.limitOrders.filter((o) => o !== limitOrder);
+      await this.save();
+      return this.limitOrderResult(limitOrder, 'CANCELED');
+    }
+
+    const order = this.state.orders.find(
+      (o) => o.symbol === symbol && String(o.orderId) === String(orderId)
+    );
+    if (!order) {
+      throw new TradingError(ErrorType.BINANCE_INVALID_ORDER, `Unknown order ${orderId} for ${symbol}`);
+    }
+
+    this.state.orders = this.state.orders.filter((o) => o !== order);
+    await this.save();
+
+    return { orderId: order.orderId, symbol, status: 'CANCELED' };
+  }
+
+  /**
+   * 成交历史
+   */
+  async getUserTrades(symbol: string, startTime?: number, limit: number = 500): Promise<UserTrade[]> {
+    await this.load();
+
+    return this.state.fills
+      .filter((f) => f.symbol === symbol && (!startTime || f.time >= startTime))
+      .slice(0, limit);
+  }
+
+  /**
+   * 部分平仓
+   */
+  async reducePosition(symbol: string, positionSide: PositionSide, quantity: number): Promise<any> {
+    await this.checkTriggers(symbol);
+
+    const position = this.findPosition(symbol, positionSide);
+    if (!position) {
+      throw new Error(`No ${positionSide} position found for ${symbol}`);
+    }
+
+    const order = this.reduce(position, Math.min(quantity, position.quantity), this.marketExit(position));
+    await this.save();
+    return order;
+  }
+
+  /**
+   * 平仓
+   */
+  async closePosition(symbol: string, positionSide: PositionSide): Promise<any> {
+    await this.checkTriggers(symbol);
+
+    const position = this.findPosition(symbol, positionSide);
+    if (!position) {
+      throw new Error(`No ${positionSide} position found for ${symbol}`);
+    }
+
+    const order = this.reduce(position, position.quantity, this.marketExit(position));
+    await this.save();
+    return order;
+  }
+
+  /**
+   * 平掉标的所有持仓
+   */
+  async closeAllPositions(symbol: string): Promise<any[]> {
+    await this.checkTriggers(symbol);
+
+    const positions = this.state.positions.filter((p) => p.symbol === symbol);
+    const orders = positions.map((p) => this.reduce(p, p.quantity, this.marketExit(p)));
+    await this.save();
+    return orders;
+  }
+
+  /**
+   * 按行情检查止损、止盈和强平
+   * 同一区间内止损与止盈都可能触发时，保守地先处理不利方向
+   */
+  async checkTriggers(symbol?: string): Promise<any[]> {
+    await this.load();
+
+    const symbols = symbol
+      ? [symbol]
+      : Array.from(new Set([
+          ...this.state.positions.map((p) => p.symbol),
+          ...this.state.orders.map((o) => o.symbol),
+        ]));
+
+    const fills: any[] = [];
+    const now = Date.now();
+
+    for (const s of symbols) {
+      const price = await this.priceFeed.getPrice(s);
+      const since = this.state.lastCheck[s];
+      const range = since && this.priceFeed.getRange
+        ? await safeExecute(() => this.priceFeed.getRange!(s, since), null, `Paper price range ${s}`)
+        : null;
+
+      const high = Math.max(price, range?.high ?? price);
+      const low = Math.min(price, range?.low ?? price);
+
+      this.state.marks[s] = price;
+      this.state.lastCheck[s] = now;
+
+      fills.push(...this.processLimitOrders(s, high, low));
+
+      for (const positionSide of ['LONG', 'SHORT'] as PositionSide[]) {
+        fills.push(...this.processTriggers(s, positionSide, high, low));
+      }
+    }
+
+    await this.save();
+    return fills;
+  }
+
+  /**
+   * 价格穿越挂单价的限价单按挂单价成交
+   */
+  private processLimitOrders(symbol: string, high: number, low: number): any[] {
+    const filled = this.state.limitOrders.filter(
+      (o) => o.symbol === symbol && (o.side === 'BUY' ? low <= o.price : high >= o.price)
+    );
+
+    return filled.map((o) => {
+      const fee = o.price * o.quantity * this.makerCommission;
+      this.addToPosition(symbol, o.positionSide, o.quantity, o.price, o.leverage);
+      this.balance -= fee;
+      this.state.limitOrders = this.state.limitOrders.filter((order) => order !== o);
+
+      console.log(`📄 [Paper:${this.name}] ${symbol} ${o.positionSide} LIMIT ${o.quantity} @ ${o.price}`);
+
+      return this.fillResult(symbol, o.side, o.positionSide, o.quantity, o.price, fee, 0, o.orderId);
+    });
+  }
+
+  /**
+   * 处理单个方向持仓的触发事件
+   */
+  private processTriggers(
+    symbol: string,
+    positionSide: PositionSide,
+    high: number,
+    low: number
+  ): any[] {
+    const isLong = positionSide === 'LONG';
+    const position = this.findPosition(symbol, positionSide);
+    const orders = this.state.orders.filter(
+      (o) => o.symbol === symbol && o.positionSide === positionSide
+    );
+
+    if (!position) {
+      // 无持仓的保护单不再有效
+      this.state.orders = this.state.orders.filter((o) => !orders.includes(o));
+      return [];
+    }
+
+    const adverse: TriggerEvent[] = orders
+      .filter((o) => o.type === 'STOP_MARKET' && (isLong ? low <= o.stopPrice : high >= o.stopPrice))
+      .map((o) => ({ level: o.stopPrice, reason: 'STOP_LOSS' as const, order: o }));
+
+    const liquidationPrice = isLong
+      ? position.entryPrice * (1 - 1 / position.leverage)
+      : position.entryPrice * (1 + 1 / position.leverage);
+    if (isLong ? low <= liquidationPrice : high >= liquidationPrice) {
+      adverse.push({ level: liquidationPrice, reason: 'LIQUIDATION' });
+    }
+
+    const favorable: TriggerEvent[] = orders
+      .filter((o) => o.type === 'TAKE_PROFIT_MARKET' && (isLong ? high >= o.stopPrice : low <= o.stopPrice))
+      .map((o) => ({ level: o.stopPrice, reason: 'TAKE_PROFIT' as const, order: o }));
+
+    // 按价格先到达的顺序排列
+    adverse.sort((a, b) => (isLong ? b.level - a.level : a.level - b.level));
+    favorable.sort((a, b) => (isLong ? a.level - b.level : b.level - a.level));
+
+    const fills: any[] = [];
+    for (const event of [...adverse, ...favorable]) {
+      if (position.quantity <= 0) break;
+
+      const quantity = event.order && !event.order.closePosition
+        ? Math.min(event.order.quantity, position.quantity)
+        : position.quantity;
+      const price = event.reason === 'LIQUIDATION'
+        ? event.level
+        : isLong
+        ? event.level * (1 - this.slippage)
+        : event.level * (1 + this.slippage);
+
+      const fill = this.reduce(position, quantity, price);
+      fills.push({ ...fill, type: event.order?.type ?? 'LIQUIDATION', reason: event.reason });
+
+      if (event.order) {
+        this.state.orders = this.state.orders.filter((o) => o !== event.order);
+      }
+
+      console.log(
+        `📄 [Paper:${this.name}] ${symbol} ${positionSide} ${event.reason} ` +
+          `${quantity} @ ${price.toFixed(4)}`
+      );
+    }
+
+    if (position.quantity <= 0) {
+      this.state.orders = this.state.orders.filter(
+        (o) => !(o.symbol === symbol && o.positionSide === positionSide)
+      );
+    }
+
+    return fills;
+  }
+
+  /**
+   * 减少持仓并结算已实现盈亏和手续费
+   */
+  private reduce(position: PaperPosition, quantity: number, price: number): any {
+    const pnl = this.positionPnL({ ...position, quantity }, price);
+    const fee = price * quantity * this.commission;
+
+    this.balance += pnl - fee;
+    position.quantity -= quantity;
+
+    if (position.quantity <= 1e-12) {
+      position.quantity = 0;
+      this.state.positions = this.state.positions.filter((p) => p !== position);
+    }
+
+    return this.fillResult(
+      position.symbol,
+      position.positionSide === 'LONG' ? 'SELL' : 'BUY',
+      position.positionSide,
+      quantity,
+      price,
+      fee,
+      pnl
+    );
+  }
+
+  /**
+   * 市价平仓成交价（含滑点）
+   */
+  private marketExit(position: PaperPosition): number {
+    const mark = this.state.marks[position.symbol];
+    return position.positionSide === 'LONG'
+      ? mark * (1 - this.slippage)
+      : mark * (1 + this.slippage);
+  }
+
+  private positionPnL(position: PaperPosition, price: number): number {
+    const direction = position.positionSide === 'LONG' ? 1 : -1;
+    return (price - position.entryPrice) * position.quantity * direction;
+  }
+
+  private findPosition(symbol: string, positionSide: PositionSide): PaperPosition | undefined {
+    return this.state.positions.find(
+      (p) => p.symbol === symbol && p.positionSide === positionSide
+    );
+  }
+
+  /**
+   * 限价挂单的币安订单格式
+   */
+  private limitOrderResult(order: PaperLimitOrder, status: 'NEW' | 'CANCELED' | 'EXPIRED'): any {
+    return {
+      orderId: order.orderId,
+      symbol: order.symbol,
+      status,
+      side: order.side,
+      type: 'LIMIT',
+      timeInForce: order.postOnly ? 'GTX' : 'GTC',
+      positionSide: order.positionSide,
+      price: String(order.price),
+      origQty: String(order.quantity),
+      executedQty: '0',
+      avgPrice: '0',
+      time: order.time,
+    };
+  }
+
+  private newOrder(
+    symbol: string,
+    side: 'BUY' | 'SELL',
+    type: PaperOrder['type'],
+    positionSide: PositionSide,
+    quantity: number,
+    stopPrice: number
+  ): PaperOrder {
+    return {
+      orderId: this.state.nextOrderId++,
+      symbol,
+      side,
+      type,
+      positionSide,
+      quantity,
+      stopPrice,
+      time: Date.now(),
+    };
+  }
+
+  /**
+   * 记录成交并返回币安订单响应格式的结果
+   */
+  private fillResult(
+    symbol: string,
+    side: 'BUY' | 'SELL',
+    positionSide: PositionSide,
+    quantity: number,
+    price: number,
+    fee: number,
+    realizedPnl: number = 0,
+    limitOrderId?: number // 限价单成交沿用挂单的订单号
+  ): any {
+    const orderId = limitOrderId ?? this.state.nextOrderId++;
+    const time = Date.now();
+
+    this.state.fills.push({
+      symbol,
+      id: orderId,
+      orderId,
+      side,
+      positionSide,
+      price: String(price),
+      qty: String(quantity),
+      realizedPnl: String(realizedPnl),
+      commission: String(fee),
+      commissionAsset: 'USDT',
+      time,
+    });
+    if (this.state.fills.length > MAX_FILLS) {
+      this.state.fills.splice(0, this.state.fills.length - MAX_FILLS);
+    }
+
+    return {
+      orderId,
+      symbol,
+      status: 'FILLED',
+      side,
+      type: limitOrderId !== undefined ? 'LIMIT' : 'MARKET',
+      positionSide,
+      origQty: String(quantity),
+      executedQty: String(quantity),
+      avgPrice: String(price),
+      cumQuote: String(price * quantity),
+      updateTime: time,
+    };
+  }
+}
+
+// 同名账户共享实例，避免同一模型的多个引擎互相覆盖状态
+const paperExchanges: Map<string, PaperExchange> = new Map();
+
+/**
+ * 获取（或创建）模拟盘账户
+ */
+export function getPaperExchange(options: PaperExchangeOptions): PaperExchange {
+  let exchange = paperExchanges.get(options.name);
+  if (!exchange) {
+    exchange = new PaperExchange(options);
+    paperExchanges.set(options.name, exchange);
+  }
+  return exchange;
+}
@@ -0,0 +1,161 @@
+/**
+ * 执行场所抽象
+ * TradingEngine 通过该接口下单，实盘使用 BinanceClient，模拟盘使用 PaperExchange
+ */
+
+import type { BookTicker, Position, UserTrade } from '../binance/client';
+
+export interface VenueAccountInfo {
+  balance: number; // 可用余额
+  positions: Position[];
+  unrealizedPnL: number;
+  totalValue: number;
+}
+
+export interface BracketOrderParams {
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  quantity: number;
+  leverage: number;
+  stopLoss: number;
+  takeProfit: number;
+  // 自定义入场（限价追价、TWAP 等），返回合并后的成交；不提供时市价入场
+  // 分批成交时应在首笔成交后调用 protect 提前挂上保护腿，保护腿失败时 protect 抛出，应停止继续入场
+  execute?: (protect: () => Promise<void>) => Promise<any>;
+}
+
+export interface LimitOrderParams {
+  symbol: string;
+  side: 'LONG' | 'SHORT'; // 开仓方向
+  quantity: number;
+  price: number;
+  leverage: number;
+  postOnly?: boolean; // GTX：会立即吃单成交时由交易所拒绝（状态 EXPIRED）
+}
+
+export interface BracketLegResult {
+  status: 'PLACED' | 'FAILED';
+  order?: any;
+  error?: string;
+  attempts: number;
+}
+
+/**
+ * 括号单结果：入场单 + 止损/止盈两条腿
+ * 任一保护腿失败时撤销已挂的腿并平掉入场仓位（rolledBack）
+ */
+export interface BracketOrderResult {
+  success: boolean;
+  entry: any;
+  stopLoss: BracketLegResult;
+  takeProfit: BracketLegResult;
+  rolledBack: boolean;
+  rollbackOrder?: any;
+  error?: string;
+}
+
+export interface ProtectionParams {
+  symbol: string;
+  side: 'LONG' | 'SHORT'; // 持仓方向
+  quantity: number; // 需要保护的持仓数量
+  stopLoss?: number; // 不提供时保留原有止损单
+  takeProfit?: number; // 不提供时保留原有止盈单
+}
+
+/**
+ * 替换止损止盈结果
+ * 新腿全部挂上并确认后才撤销旧腿；失败时撤回已挂的新腿，previousKept 为仍在生效的旧保护单数量
+ */
+export interface ProtectionResult {
+  success: boolean;
+  stopLoss?: BracketLegResult;
+  takeProfit?: BracketLegResult;
+  previousKept: number;
+  error?: string;
+}
+
+export interface ExecutionVenue {
+  /**
+   * 获取所有非零持仓（币安 positionRisk 格式）
+   */
+  getPositions(): Promise<Position[]>;
+
+  /**
+   * 获取账户信息（余额+持仓）
+   */
+  getAccountInfo(): Promise<VenueAccountInfo>;
+
+  openLong(
+    symbol: string,
+    quantity: number,
+    leverage: number,
+    stopLoss?: number,
+    takeProfit?: number
+  ): Promise<any>;
+
+  openShort(
+    symbol: string,
+    quantity: number,
+    leverage: number,
+    stopLoss?: number,
+    takeProfit?: number
+  ): Promise<any>;
+
+  /**
+   * 入场 + 止损止盈作为一个整体下单，保护单失败时回滚入场
+   */
+  placeBracketOrder(params: BracketOrderParams): Promise<BracketOrderResult>;
+
+  closePosition(symbol: string, positionSide: 'LONG' | 'SHORT'): Promise<any>;
+
+  /**
+   * 市价平掉标的的所有持仓（多空两侧）
+   */
+  closeAllPositions(symbol: string): Promise<any[]>;
+
+  reducePosition(symbol: string, positionSide: 'LONG' | 'SHORT', quantity: number): Promise<any>;
+
+  placeProtectiveOrders(
+    symbol: string,
+    positionSide: 'LONG' | 'SHORT',
+    quantity: number,
+    stopLoss?: number,
+    takeProfit?: number
+  ): Promise<any[]>;
+
+  /**
+   * 替换持仓的止损止盈：先挂新腿并回查确认，再撤旧腿，避免中途出现无保护窗口
+   */
+  replaceProtectiveOrders(params: ProtectionParams): Promise<ProtectionResult>;
+
+  cancelAllOpenOrders(symbol: string): Promise<any>;
+
+  setLeverage(symbol: string, leverage: number): Promise<void>;
+
+  /**
+   * 最优买卖价
+   */
+  getBookTicker(symbol: string): Promise<BookTicker>;
+
+  /**
+   * 限价开仓单（挂单，成交情况通过 getOrder 查询）
+   */
+  placeLimitOrder(params: LimitOrderParams): Promise<any>;
+
+  /**
+   * 查询订单（币安订单格式：status、executedQty、avgPrice）
+   */
+  getOrder(symbol: string, orderId: number | string): Promise<any>;
+
+  /**
+   * 当前挂单（币安 openOrders 格式）
+   */
+  getOpenOrders(symbol?: string): Promise<any[]>;
+
+  cancelOrder(symbol: string, orderId: number | string): Promise<any>;
+
+  /**
+   * 成交历史（币安 userTrades 格式）
+   */
+  getUserTrades(symbol: string, startTime?: number, limit?: number): Promise<UserTrade[]>;
+}
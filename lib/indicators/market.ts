@@ -0,0 +1,102 @@
+/**
+ * 衍生品市场指标
+ * 包括: 资金费率（当前/历史均值）、持仓量及变化、多空账户比、主动买卖量比
+ */
+
+import type { BinanceClient } from '../binance/client';
+
+export interface DerivativesIndicators {
+  fundingRate?: number; // 当前资金费率（小数，0.0001 = 0.01%）
+  fundingRateAvg?: number; // 最近若干期资金费率均值
+  nextFundingTime?: number;
+  openInterest?: number; // 持仓量（合约张数）
+  openInterestValue?: number; // 持仓价值（USDT）
+  openInterestChange?: number; // 窗口内持仓量变化百分比
+  longShortRatio?: number; // 多空账户比
+  takerBuySellRatio?: number; // 主动买入量 / 主动卖出量
+}
+
+export interface DerivativesOptions {
+  period?: string; // 持仓量、多空比、主动买卖量的统计周期
+  window?: number; // 计算变化和均值使用的周期数
+  fundingPeriods?: number; // 资金费率均值的期数（每8小时一期）
+  liveFundingRate?: number | null; // 来自 markPrice 流的实时资金费率
+}
+
+/**
+ * 序列首尾变化百分比
+ */
+export function percentChange(values: number[]): number | undefined {
+  if (values.length < 2 || values[0] === 0) return undefined;
+  return ((values[values.length - 1] - values[0]) / values[0]) * 100;
+}
+
+/**
+ * 平均值（空序列返回 undefined）
+ */
+export function average(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * 拉取并计算衍生品指标
+ * 各数据源相互独立，单项失败（如测试网没有 /futures/data 接口）只缺失该项
+ */
+export async function fetchDerivativesIndicators(
+  binance: BinanceClient,
+  symbol: string,
+  options: DerivativesOptions = {}
+): Promise<DerivativesIndicators> {
+  const period = options.period ?? '1h';
+  const window = options.window ?? 24;
+  const fundingPeriods = options.fundingPeriods ?? 21; // 7天
+
+  const settle = <T>(promise: Promise<T>): Promise<T | null> => promise.catch(() => null);
+
+  const [premium, fundingHistory, openInterest, oiHistory, longShort, takerVolume] =
+    await Promise.all([
+      settle(binance.getPremiumIndex(symbol)),
+      settle(binance.getFundingRateHistory(symbol, fundingPeriods)),
+      settle(binance.getOpenInterest(symbol)),
+      settle(binance.getOpenInterestHistory(symbol, period, window + 1)),
+      settle(binance.getLongShortRatio(symbol, period, 1)),
+      settle(binance.getTakerBuySellVolume(symbol, period, 1)),
+    ]);
+
+  const result: DerivativesIndicators = {};
+
+  const liveFunding = options.liveFundingRate;
+  if (liveFunding !== undefined && liveFunding !== null) {
+    result.fundingRate = liveFunding;
+  } else if (premium) {
+    result.fundingRate = parseFloat(premium.lastFundingRate);
+  }
+  if (premium) {
+    result.nextFundingTime = premium.nextFundingTime;
+  }
+
+  if (fundingHistory && fundingHistory.length > 0) {
+    result.fundingRateAvg = average(fundingHistory.map((f) => parseFloat(f.fundingRate)));
+  }
+
+  if (openInterest !== null) {
+    result.openInterest = openInterest;
+  }
+
+  if (oiHistory && oiHistory.length > 0) {
+    const latest = oiHistory[oiHistory.length - 1];
+    result.openInterestValue = parseFloat(latest.sumOpenInterestValue);
+    result.openInterestChange = percentChange(oiHistory.map((o) => parseFloat(o.sumOpenInterest)));
+  }
+
+  if (longShort && longShort.length > 0) {
+    result.longShortRatio = parseFloat(longShort[longShort.length - 1].longShortRatio);
+  }
+
+  if (takerVolume && takerVolume.length > 0) {
+    result.takerBuySellRatio = parseFloat(takerVolume[takerVolume.length - 1].buySellRatio);
+  }
+
+  return result;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { INTERVAL_MS, resampleKlines } from './timeframes';
+import type { Kline } from './technical';
+
+const MINUTE = INTERVAL_MS['1m'];
+const BASE = Date.UTC(2024, 0, 1);
+
+const kline = (minute: number, open: number, high: number, low: number, close: number, volume = 1): Kline => ({
+  timestamp: BASE + minute * MINUTE,
+  open,
+  high,
+  low,
+  close,
+  volume,
+});
+
+describe('resampleKlines', () => {
+  it('merges lower timeframe candles into UTC-aligned buckets', () => {
+    const result = resampleKlines(
+      [
+        kline(0, 10, 12, 9, 11, 2),
+        kline(1, 11, 15, 10, 14, 3),
+        kline(2, 14, 14, 8, 9, 1),
+        kline(3, 9, 10, 9, 10, 4),
+      ],
+      INTERVAL_MS['3m']
+    );
+
+    expect(result).toEqual([
+      { timestamp: BASE, open: 10, high: 15, low: 8, close: 9, volume: 6 },
+      { timestamp: BASE + 3 * MINUTE, open: 9, high: 10, low: 9, close: 10, volume: 4 },
+    ]);
+  });
+
+  it('aligns a series that starts mid-bucket to the bucket start', () => {
+    const [first] = resampleKlines([kline(7, 1, 2, 0.5, 1.5)], INTERVAL_MS['5m']);
+    expect(first.timestamp).toBe(BASE + 5 * MINUTE);
+  });
+
+  it('keeps only the most recent buckets up to the limit', () => {
+    const klines = Array.from({ length: 10 }, (_, i) => kline(i * 5, i, i, i, i));
+    const result = resampleKlines(klines, INTERVAL_MS['5m'], 3);
+
+    expect(result.map((k) => k.close)).toEqual([7, 8, 9]);
+  });
+
+  it('does not mutate the input candles', () => {
+    const input = [kline(0, 10, 12, 9, 11), kline(1, 11, 15, 10, 14)];
+    resampleKlines(input, INTERVAL_MS['5m']);
+    expect(input[0]).toEqual(kline(0, 10, 12, 9, 11));
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * 多周期分析
+ * 每个周期独立计算指标、趋势和支撑阻力；回测时由低周期K线重采样得到高周期序列
+ */
+
+import { Kline, calculateAllIndicators, getLatest } from './technical';
+
+export const INTERVAL_MS: Record<string, number> = {
+  '1m': 60 * 1000,
+  '3m': 3 * 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '30m': 30 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '2h': 2 * 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+  '8h': 8 * 60 * 60 * 1000,
+  '12h': 12 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+export const DEFAULT_TIMEFRAMES = ['15m', '1h', '4h', '1d'];
+
+export interface TimeframeSnapshot {
+  interval: string;
+  bars: number; // 参与计算的K线数量
+  close: number;
+  trend: 'UPTREND' | 'DOWNTREND' | 'SIDEWAYS';
+  rsi: number | null;
+  macdHistogram: number | null;
+  ema20: number | null;
+  ema50: number | null;
+  atr: number | null;
+  support: number | null; // 收盘价下方最近的支撑位
+  resistance: number | null; // 收盘价上方最近的阻力位
+}
+
+/**
+ * 解析周期列表（如 "15m,1h,4h,1d"），忽略不支持的周期并按时长升序
+ */
+export function parseTimeframes(value?: string): string[] {
+  if (!value) return DEFAULT_TIMEFRAMES.slice();
+
+  const intervals = value
+    .split(',')
+    .map((s) => s.trim())
+    .filter((s) => {
+      if (INTERVAL_MS[s]) return true;
+      if (s) console.warn(`[Timeframes] Unsupported interval ${s} ignored`);
+      return false;
+    });
+
+  return Array.from(new Set(intervals)).sort((a, b) => INTERVAL_MS[a] - INTERVAL_MS[b]);
+}
+
+/**
+ * 计算单个周期的指标快照
+ */
+export function analyzeTimeframe(interval: string, klines: Kline[]): TimeframeSnapshot {
+  const indicators = calculateAllIndicators(klines);
+  const close = klines.length > 0 ? klines[klines.length - 1].close : NaN;
+  const { support, resistance } = indicators.supportResistance;
+
+  const below = support.filter((level) => level <= close);
+  const above = resistance.filter((level) => level >= close);
+
+  return {
+    interval,
+    bars: klines.length,
+    close,
+    trend: indicators.trend,
+    rsi: getLatest(indicators.rsi),
+    macdHistogram: getLatest(indicators.macd.histogram),
+    ema20: getLatest(indicators.ema20),
+    ema50: getLatest(indicators.ema50),
+    atr: getLatest(indicators.atr),
+    support: below.length > 0 ? Math.max(...below) : null,
+    resistance: above.length > 0 ? Math.min(...above) : null,
+  };
+}
+
+/**
+ * 把低周期K线合并为高周期K线（按 UTC 对齐，与交易所一致）
+ * 只使用传入的K线，调用方传入已收盘的历史即可保证无未来数据；最后一根可能是未走完的高周期K线，
+ * 与实盘读取到的当前K线一致
+ */
+export function resampleKlines(klines: Kline[], targetMs: number, limit: number = 200): Kline[] {
+  const result: Kline[] = [];
+
+  for (const k of klines) {
+    const bucket = Math.floor(k.timestamp / targetMs) * targetMs;
+    const last = result[result.length - 1];
+
+    if (last && last.timestamp === bucket) {
+      last.high = Math.max(last.high, k.high);
+      last.low = Math.min(last.low, k.low);
+      last.close = k.close;
+      last.volume += k.volume;
+    } else {
+      result.push({
+        open: k.open,
+        high: k.high,
+        low: k.low,
+        close: k.close,
+        volume: k.volume,
+        timestamp: bucket,
+      });
+    }
+  }
+
+  return result.length > limit ? result.slice(result.length - limit) : result;
+}
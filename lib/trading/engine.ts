@@ -3,31 +3,74 @@
  * 协调AI决策、指标计算、订单执行
  */
 
-import { BinanceClient } from '../binance/client';
-import { DeepSeekClient, AIDecisionInput, AIDecisionOutput } from '../ai/deepseek';
-import { calculateAllIndicators, getLatest } from '../indicators/technical';
+import { BinanceClient, Position } from '../binance/client';
+import {
+  AIDecisionProvider,
+  AIDecisionInput,
+  AIDecisionOutput,
+  AIProviderName,
+  OpenPositionContext,
+} from '../ai/base';
+import { createAIProvider } from '../ai/factory';
+import { promptTemplates } from '../ai/prompt-templates';
 import {
   withErrorHandling,
+  safeExecute,
   Validator,
   TradingError,
   ErrorType,
 } from '../utils/error-handler';
-import { rateLimitManager } from '../utils/rate-limiter';
+import { rateLimitManager, ExponentialBackoff } from '../utils/rate-limiter';
+import { tradeRecorder, DecisionSnapshot, EntryExecution } from './recorder';
+import { performanceService } from './performance';
+import { gatherMarketData, MarketData } from './market-data';
+import {
+  ExecutionVenue,
+  VenueAccountInfo,
+  BracketOrderResult,
+  ProtectionParams,
+} from '../execution/venue';
+import { getPaperExchange, BinancePriceFeed } from '../execution/paper-exchange';
+import { OrderExecutor, ExecutionOptions, ExecutionReport } from '../execution/executor';
+import {
+  SymbolFilters,
+  roundQuantity,
+  roundPrice,
+  validateOrder,
+} from '../binance/symbol-info';
+import { PortfolioRiskManager, PortfolioLimits, PortfolioSnapshot } from './portfolio';
+import { PositionSizer, SizingMethod, SizingParams, SizingResult, SizingStats } from './position-sizing';
+import { RiskManager, RiskLimits, riskControl } from './risk-manager';
+import { LiquidationGuard, LiquidationGuardOptions, MarginType } from './liquidation';
+import type { CandleStore } from '../binance/candle-store';
 
 export interface TradingEngineConfig {
-  symbol: string;
+  symbols: string[]; // 交易标的池
   modelId: string;
   modelName: string;
-  aiProvider: 'deepseek' | 'openai' | 'anthropic';
+  aiProvider: AIProviderName;
   apiKey: string;
+  aiModel?: string; // 提供者的模型ID，不填使用默认
+  aiBaseURL?: string; // 自定义API端点（本地模型等）
   binanceApiKey: string;
   binanceApiSecret: string;
   testnet?: boolean;
+  paperTrading?: boolean; // 模拟盘：本地模拟成交，不向交易所下单
+  paperBalance?: number; // 模拟盘初始资金
   minConfidence?: number; // 最小信心度才执行交易
   tradingInterval?: number; // 交易间隔（秒）
+  portfolio?: Partial<PortfolioLimits>; // 组合风险限制
+  candles?: CandleStore; // 实时K线缓存，未提供时每轮通过 REST 拉取
+  timeframes?: string[]; // 提供给AI的多周期分析周期
+  sizing?: { method: SizingMethod; params?: Partial<SizingParams> }; // 仓位计算方法，默认沿用AI建议
+  risk?: Partial<RiskLimits>; // 下单前风控限制
+  marginType?: MarginType; // 保证金模式：实盘开仓前设置到交易对并用于估算强平价格（未配置时沿用账户设置，按全仓估算）
+  liquidation?: Partial<LiquidationGuardOptions>; // 止损与强平距离的安全限制
+  execution?: Partial<ExecutionOptions>; // 入场执行方式（市价、post-only 追价、TWAP）
 }
 
 export interface TradingResult {
+  symbol: string;
   success: boolean;
   action: string;
   decision?: AIDecisionOutput;
@@ -35,10 +78,47 @@ export interface TradingResult {
   error?: string;
 }
 
+interface ExecutedOrder {
+  order: any;
+  bracket: BracketOrderResult;
+  side: 'LONG' | 'SHORT';
+  quantity: number;
+  leverage: number;
+  stopLoss: number;
+  takeProfit: number;
+  sizing: SizingResult;
+  liquidationPrice: number;
+  execution?: ExecutionReport; // 入场未成交（抛出）时为空
+}
+
+/**
+ * 持仓管理中替换止损止盈失败后的处理结果
+ * PROTECTION_KEPT：旧保护单仍有效；ROLLED_BACK：加仓部分已平掉；FLATTENED：已市价平仓；UNPROTECTED：平仓也失败，需人工处理
+ */
+interface ProtectionFailure {
+  action: 'PROTECTION_KEPT' | 'ROLLED_BACK' | 'FLATTENED' | 'UNPROTECTED';
+  error: string;
+  order?: any; // 回滚/平仓订单
+  quantity?: number; // 回滚/平仓数量
+}
+
+interface SymbolAnalysis {
+  marketData: MarketData;
+  position?: OpenPositionContext;
+  decision: AIDecisionOutput;
+}
+
 export class TradingEngine {
   private config: TradingEngineConfig;
   private binance: BinanceClient;
-  private ai: DeepSeekClient; // TODO: 支持多AI
+  private venue: ExecutionVenue;
+  private ai: AIDecisionProvider;
+  private portfolio: PortfolioRiskManager;
+  private sizer: PositionSizer;
+  private risk: RiskManager;
+  private liquidation: LiquidationGuard;
+  private executor: OrderExecutor;
+  private sizingStats: SizingStats | null = null;
   private wakeupCount: number = 0;
   private lastTradeTime: number = 0;
   private cooldownMap: Map<string, number> = new Map();
@@ -53,101 +133,290 @@ export class TradingEngine {
       testnet: config.testnet,
     });
 
+    // 初始化执行场所（行情始终来自币安）
+    this.venue = config.paperTrading
+      ? getPaperExchange({
+          name: `paper-${config.modelId}`,
+          initialBalance: config.paperBalance ?? 20,
+          priceFeed: new BinancePriceFeed(this.binance),
+        })
+      : this.binance;
+
     // 初始化AI客户端
-    this.ai = new DeepSeekClient(config.apiKey);
+    this.ai = createAIProvider({
+      provider: config.aiProvider,
+      apiKey: config.apiKey,
+      model: config.aiModel,
+      baseURL: config.aiBaseURL,
+    });
+
+    this.portfolio = new PortfolioRiskManager(config.portfolio);
+    this.sizer = new PositionSizer(config.sizing?.method, config.sizing?.params);
+    this.risk = new RiskManager(config.modelId, config.risk);
+    // 杠杆分层是签名接口：未配置 API Key 的模拟盘不请求，直接使用保守档位
+    this.liquidation = new LiquidationGuard(
+      config.binanceApiKey && config.binanceApiSecret
+        ? () => this.binance.getLeverageBrackets()
+        : () => Promise.resolve([]),
+      config.liquidation
+    );
+    this.executor = new OrderExecutor(this.venue, config.execution);
   }
 
   /**
    * 主交易循环
+   * 逐个标的获取AI决策，先管理已有持仓，再按信心度从高到低尝试开仓
    */
-  async executeTradingCycle(): Promise<TradingResult> {
+  async executeTradingCycle(): Promise<TradingResult[]> {
     this.wakeupCount++;
 
+    const results: TradingResult[] = [];
+
+    // kill switch：平掉本场所所有持仓并跳过本周期（实盘多个引擎共享账户，后执行的平仓为空操作）
+    const pause = await safeExecute(
+      () => riskControl.getActivePause(this.config.modelId),
+      null,
+      'Load trading pause'
+    );
+    if (pause?.flatten) {
+      await safeExecute(() => riskControl.flatten(this.venue), null, 'Kill switch flatten');
+      return this.config.symbols.map((symbol) => ({
+        symbol,
+        success: true,
+        action: 'PAUSED',
+        error: `Trading paused: ${pause.reason}`,
+      }));
+    }
+
     try {
-      // 1. 检查冷却期
-      if (this.isInCooldown(this.config.symbol)) {
-        return {
-          success: true,
-          action: 'COOLDOWN',
-          error: 'Symbol in cooldown period',
-        };
+      // 1. 账户和持仓（所有标的共享）
+      const accountInfo = await this.venue.getAccountInfo();
+      const performance = await this.getPerformanceMetrics();
+
+      // 2. 逐个标的分析
+      const analyses: SymbolAnalysis[] = [];
+      for (const symbol of this.config.symbols) {
+        if (this.isInCooldown(symbol)) {
+          results.push({
+            symbol,
+            success: true,
+            action: 'COOLDOWN',
+            error: 'Symbol in cooldown period',
+          });
+          continue;
+        }
+
+        if (await this.isHeldByOtherModel(symbol, accountInfo)) {
+          results.push({
+            symbol,
+            success: true,
+            action: 'SKIP',
+            error: 'Position held by another model',
+          });
+          continue;
+        }
+
+        try {
+          analyses.push(await this.analyzeSymbol(symbol, accountInfo, performance));
+        } catch (error: any) {
+          results.push({ symbol, success: false, action: 'ERROR', error: error.message });
+        }
       }
 
-      // 2. 检查现有持仓
-      const positions = await this.binance.getPositions();
-      const hasPosition = positions.some((p) => p.symbol === this.config.symbol);
+      // 收盘价序列用于组合相关性
+      const closes: Record<string, number[]> = {};
+      analyses.forEach((a) => {
+        closes[a.marketData.symbol] = a.marketData.closes;
+      });
 
-      if (hasPosition) {
-        return {
-          success: true,
-          action: 'SKIP',
-          error: 'Already has position in this symbol',
-        };
+      // 3. 先处理已有持仓（平仓/减仓会释放风险预算）
+      for (const analysis of analyses.filter((a) => a.position)) {
+        results.push(await this.processDecision(analysis, closes));
       }
 
-      // 3. 获取市场数据和指标
-      const marketData = await this.gatherMarketData();
-
-      // 4. 获取账户信息
-      const accountInfo = await this.binance.getAccountInfo();
-
-      // 5. 构建AI决策输入
-      const aiInput: AIDecisionInput = {
-        symbol: this.config.symbol,
-        price: marketData.currentPrice,
-        indicators: marketData.indicators,
-        account: {
-          balance: accountInfo.balance,
-          positions: positions.length,
-          totalValue: accountInfo.totalValue,
-          unrealizedPnL: accountInfo.unrealizedPnL,
-        },
-        performance: await this.getPerformanceMetrics(),
-        metadata: {
-          timestamp: Date.now(),
-          wakeupCount: this.wakeupCount,
-        },
-      };
+      // 4. 新开仓机会按信心度排序
+      const opportunities = analyses
+        .filter((a) => !a.position)
+        .sort((a, b) => b.decision.confidence - a.decision.confidence);
 
-      // 6. 获取AI决策
-      const decision = await this.getAIDecision(aiInput);
+      for (const analysis of opportunities) {
+        results.push(await this.processDecision(analysis, closes));
+      }
+
+      return results;
+    } catch (error: any) {
+      const handled = new Set(results.map((r) => r.symbol));
+      return [
+        ...results,
+        ...this.config.symbols
+          .filter((symbol) => !handled.has(symbol))
+          .map((symbol) => ({ symbol, success: false, action: 'ERROR', error: error.message })),
+      ];
+    }
+  }
+
+  /**
+   * 实盘账户由多个模型共享：交易所有持仓但本模型没有对应的持仓记录时，视为其他模型的仓位
+   * 查询失败时同样跳过，避免误管理他人仓位
+   */
+  private async isHeldByOtherModel(symbol: string, accountInfo: VenueAccountInfo): Promise<boolean> {
+    if (this.config.paperTrading) return false;
+    if (!accountInfo.positions.some((p) => p.symbol === symbol)) return false;
 
-      // 7. 验证决策
-      Validator.validateAIDecision(decision);
+    const owned = await safeExecute(
+      () => tradeRecorder.findOpenPosition(this.config.modelId, symbol),
+      null,
+      'Load position owner'
+    );
+    return !owned;
+  }
+
+  /**
+   * 获取单个标的的市场数据、持仓和AI决策
+   */
+  private async analyzeSymbol(
+    symbol: string,
+    accountInfo: VenueAccountInfo,
+    performance: AIDecisionInput['performance']
+  ): Promise<SymbolAnalysis> {
+    const symbolPosition = accountInfo.positions.find((p) => p.symbol === symbol);
+
+    // 同步未实现盈亏，供性能统计使用
+    await safeExecute(
+      () =>
+        tradeRecorder.syncUnrealizedPnL(
+          this.config.modelId,
+          symbol,
+          symbolPosition ? parseFloat(symbolPosition.unRealizedProfit) : 0
+        ),
+      undefined,
+      'Sync unrealized PnL'
+    );
 
-      // 8. 检查信心度
+    // 获取市场数据和指标
+    const marketData = await gatherMarketData(
+      this.binance,
+      symbol,
+      this.config.candles,
+      this.config.timeframes
+    );
+    const position = symbolPosition
+      ? await this.describePosition(symbolPosition, marketData.currentPrice)
+      : undefined;
+    const filters = await this.binance.getSymbolInfo(symbol);
+
+    // 构建AI决策输入
+    const aiInput: AIDecisionInput = {
+      symbol,
+      price: marketData.currentPrice,
+      indicators: marketData.indicators,
+      timeframes: marketData.timeframes,
+      symbolRules: { minNotional: filters.minNotional, priceDecimals: filters.priceDecimals },
+      account: {
+        balance: accountInfo.balance,
+        positions: accountInfo.positions.length,
+        totalValue: accountInfo.totalValue,
+        unrealizedPnL: accountInfo.unrealizedPnL,
+      },
+      performance,
+      position,
+      metadata: {
+        timestamp: Date.now(),
+        wakeupCount: this.wakeupCount,
+      },
+    };
+
+    // 获取并验证AI决策
+    const decision = await this.getAIDecision(aiInput);
+    Validator.validateAIDecision(decision);
+
+    return { marketData, position, decision };
+  }
+
+  /**
+   * 执行单个标的的决策
+   */
+  private async processDecision(
+    analysis: SymbolAnalysis,
+    closes: Record<string, number[]>
+  ): Promise<TradingResult> {
+    const { marketData, position, decision } = analysis;
+    const { symbol } = marketData;
+
+    try {
+      // 检查信心度
       const minConfidence = this.config.minConfidence || 65;
       if (decision.confidence < minConfidence) {
+        const reason = `Confidence too low: ${decision.confidence}% < ${minConfidence}%`;
+        await this.recordDecision(decision, marketData, false, reason);
+
         return {
+          symbol,
           success: true,
           action: 'NO_TRADE',
           decision,
-          error: `Confidence too low: ${decision.confidence}% < ${minConfidence}%`,
+          error: reason,
         };
       }
 
-      // 9. 执行交易
+      // 已有持仓时进入持仓管理
+      if (position) {
+        return await this.managePosition(decision, position, marketData, closes);
+      }
+
+      // 执行交易（使用最新余额，本周期前面的成交会占用资金）
       if (decision.action === 'BUY' || decision.action === 'SELL') {
-        const order = await this.executeOrder(decision, accountInfo.balance, marketData.currentPrice);
+        let executed: ExecutedOrder;
+        try {
+          const accountInfo = await this.venue.getAccountInfo();
+          executed = await this.executeOrder(
+            decision,
+            marketData,
+            accountInfo.balance,
+            this.buildPortfolioSnapshot(accountInfo, closes)
+          );
+        } catch (error: any) {
+          await this.recordDecision(decision, marketData, false, error.message, {
+            liquidationPrice: error.details?.liquidationPrice,
+          });
+          return this.rejectedResult(symbol, decision, error);
+        }
 
-        // 记录交易成功
         this.lastTradeTime = Date.now();
+        await this.recordExecution(decision, marketData, executed);
+
+        // 保护单失败：入场已回滚（或回滚失败需人工处理）
+        if (!executed.bracket.success) {
+          return {
+            symbol,
+            success: false,
+            action: executed.bracket.rolledBack ? 'ROLLED_BACK' : 'UNPROTECTED',
+            decision,
+            order: executed.order,
+            error: executed.bracket.error,
+          };
+        }
 
         return {
+          symbol,
           success: true,
           action: decision.action,
           decision,
-          order,
+          order: executed.order,
         };
       }
 
+      await this.recordDecision(decision, marketData, false);
+
       return {
+        symbol,
         success: true,
         action: decision.action,
         decision,
       };
     } catch (error: any) {
       return {
+        symbol,
         success: false,
         action: 'ERROR',
         error: error.message,
@@ -156,51 +425,56 @@ export class TradingEngine {
   }
 
   /**
-   * 收集市场数据和计算指标
+   * 执行失败的结果：组合限制和风控暂停属于正常跳过，其他错误继续上抛
    */
-  private async gatherMarketData() {
-    // 获取K线数据
-    const klines = await this.binance.getKlines(this.config.symbol, '1h', 200);
-
-    // 转换为指标计算格式
-    const klinesData = klines.map((k) => ({
-      open: parseFloat(k.open),
-      high: parseFloat(k.high),
-      low: parseFloat(k.low),
-      close: parseFloat(k.close),
-      volume: parseFloat(k.volume),
-      timestamp: k.openTime,
-    }));
-
-    // 计算所有指标
-    const indicators = calculateAllIndicators(klinesData);
+  private rejectedResult(symbol: string, decision: AIDecisionOutput, error: any): TradingResult {
+    if (error instanceof TradingError && error.type === ErrorType.TRADING_POSITION_LIMIT) {
+      return {
+        symbol,
+        success: true,
+        action: 'SKIP',
+        decision,
+        error: error.message,
+      };
+    }
+    // 风控暂停只拦截开仓/加仓，持仓管理照常进行
+    if (error instanceof TradingError && error.details?.pause) {
+      return {
+        symbol,
+        success: true,
+        action: 'PAUSED',
+        decision,
+        error: error.message,
+      };
+    }
+    throw error;
+  }
 
-    // 获取当前价格
-    const currentPrice = await this.binance.getCurrentPrice(this.config.symbol);
+  /**
+   * 当前组合敞口快照
+   * 权益 = 可用余额 + 占用保证金（可用余额已包含未实现盈亏）
+   */
+  private buildPortfolioSnapshot(
+    accountInfo: VenueAccountInfo,
+    closes: Record<string, number[]>
+  ): PortfolioSnapshot {
+    let margin = 0;
+    const positions = accountInfo.positions.map((p) => {
+      const amount = parseFloat(p.positionAmt);
+      const notional = Math.abs(amount) * parseFloat(p.entryPrice);
+      margin += notional / (parseInt(p.leverage) || 1);
 
-    // 获取24h行情
-    const ticker = await this.binance.get24hrTicker(this.config.symbol);
+      return {
+        symbol: p.symbol,
+        side: (amount > 0 ? 'LONG' : 'SHORT') as 'LONG' | 'SHORT',
+        notional,
+      };
+    });
 
     return {
-      currentPrice,
-      indicators: {
-        rsi: getLatest(indicators.rsi),
-        macd: getLatest(indicators.macd.macd),
-        macdSignal: getLatest(indicators.macd.signal),
-        macdHistogram: getLatest(indicators.macd.histogram),
-        ema20: getLatest(indicators.ema20),
-        ema50: getLatest(indicators.ema50),
-        ema200: getLatest(indicators.ema200),
-        bollingerUpper: getLatest(indicators.bollingerBands.upper),
-        bollingerMiddle: getLatest(indicators.bollingerBands.middle),
-        bollingerLower: getLatest(indicators.bollingerBands.lower),
-        atr: getLatest(indicators.atr),
-      },
-      trend: indicators.trend,
-      support: indicators.supportResistance.support,
-      resistance: indicators.supportResistance.resistance,
-      volume24h: parseFloat(ticker.volume),
-      priceChange24h: parseFloat(ticker.priceChangePercent),
+      equity: accountInfo.balance + margin,
+      positions,
+      closes,
     };
   }
 
@@ -220,8 +494,15 @@ export class TradingEngine {
     }
 
     // 调用AI（带错误处理和重试）
+    // 提示词模板（含 A/B 分流），读取失败时使用内置提示词
+    const template = await safeExecute(
+      () => promptTemplates.select(this.config.modelId),
+      undefined,
+      'Load prompt template'
+    );
+
     const getDecision = withErrorHandling(
-      async () => await this.ai.makeDecision(input),
+      async () => await this.ai.makeDecision(input, template),
       { maxRetries: 3, retryDelay: 2000 }
     );
 
@@ -233,89 +514,746 @@ export class TradingEngine {
    */
   private async executeOrder(
     decision: AIDecisionOutput,
+    marketData: MarketData,
     balance: number,
-    currentPrice: number
-  ): Promise<any> {
+    portfolio: PortfolioSnapshot
+  ): Promise<ExecutedOrder> {
     const { action, positionSize = 20, leverage = 3, stopLoss = 2, takeProfit = 4 } = decision;
+    const { symbol, currentPrice } = marketData;
+    const side = action === 'BUY' ? 'LONG' : 'SHORT';
+    const filters = await this.binance.getSymbolInfo(symbol);
+
+    // 按模型的仓位计算方法调整AI建议
+    const sizing = this.sizer.size({
+      price: currentPrice,
+      balance,
+      equity: portfolio.equity,
+      positionSize,
+      leverage,
+      stopLoss,
+      takeProfit,
+      klines: marketData.klines,
+      stats: this.sizingStats ?? undefined,
+    });
+
+    // 下单前风控（暂停状态、杠杆、日内亏损、回撤等）
+    await this.risk.checkOrder({ symbol, leverage: sizing.leverage });
 
     // 验证风险参数
-    Validator.validateRiskParams({ balance, positionSize, leverage });
+    Validator.validateRiskParams({
+      balance,
+      positionSize: sizing.positionSize,
+      leverage: sizing.leverage,
+      minNotional: filters.minNotional,
+    });
 
-    // 计算交易金额
-    const amount = (balance * positionSize) / 100;
-    const notionalValue = amount * leverage;
+    // 计算数量（按交易对步长取整后再校验）
+    const quantity = roundQuantity(filters, sizing.notional / currentPrice);
+    validateOrder(filters, { quantity, price: currentPrice, isMarket: true, reducing: false });
 
-    // 验证最小名义价值
-    if (notionalValue < 20) {
-      throw new TradingError(
-        ErrorType.TRADING_INVALID_PARAMS,
-        `Notional value $${notionalValue.toFixed(2)} is below minimum $20`
+    // 组合风险预算
+    this.portfolio.checkNewPosition({ symbol, side, notional: quantity * currentPrice }, portfolio);
+
+    // 止损必须落在强平距离之内，超出时收紧止损或拒绝
+    const liquidation = await this.liquidation.check({
+      symbol,
+      side,
+      price: currentPrice,
+      quantity,
+      leverage: sizing.leverage,
+      stopLoss: sizing.stopLoss,
+      marginType: this.config.marginType ?? 'CROSSED',
+      walletBalance: portfolio.equity,
+      otherPositions: portfolio.positions.filter((p) => p.symbol !== symbol),
+    });
+    if (liquidation.adjusted) {
+      sizing.notes.push(
+        `stop-loss tightened to ${liquidation.stopLoss.toFixed(2)}% (liquidation ${liquidation.liquidationDistance.toFixed(2)}% away)`
       );
     }
 
-    // 计算数量（精度处理）
-    const rawQuantity = notionalValue / currentPrice;
-    const quantity = this.roundQuantity(this.config.symbol, rawQuantity);
-
     // 计算止损止盈价格
-    const stopLossPrice = action === 'BUY'
-      ? currentPrice * (1 - stopLoss / 100)
-      : currentPrice * (1 + stopLoss / 100);
-
-    const takeProfitPrice = action === 'BUY'
-      ? currentPrice * (1 + takeProfit / 100)
-      : currentPrice * (1 - takeProfit / 100);
-
-    // 四舍五入到2位小数
-    const roundedStopLoss = Math.round(stopLossPrice * 100) / 100;
-    const roundedTakeProfit = Math.round(takeProfitPrice * 100) / 100;
-
-    // 执行开仓
-    if (action === 'BUY') {
-      return await this.binance.openLong(
-        this.config.symbol,
-        quantity,
-        leverage,
-        roundedStopLoss,
-        roundedTakeProfit
+    const { stopLoss: roundedStopLoss, takeProfit: roundedTakeProfit } =
+      this.calculateProtectionPrices(
+        side,
+        currentPrice,
+        liquidation.stopLoss,
+        sizing.takeProfit,
+        filters
+      );
+
+    // 实盘按配置设置交易对保证金模式（已有持仓或挂单时币安会拒绝）
+    if (!this.config.paperTrading && this.config.marginType) {
+      await this.binance.ensureMarginType(symbol, this.config.marginType);
+    }
+
+    // 入场按执行算法成交，止损止盈作为括号单挂出
+    let execution: ExecutionReport | undefined;
+    const bracket = await this.venue.placeBracketOrder({
+      symbol,
+      side,
+      quantity,
+      leverage: sizing.leverage,
+      stopLoss: roundedStopLoss,
+      takeProfit: roundedTakeProfit,
+      execute: async (protect) => {
+        execution = await this.executor.execute({
+          symbol,
+          side,
+          quantity,
+          leverage: sizing.leverage,
+          decisionPrice: currentPrice,
+          filters,
+          onFirstFill: protect,
+        });
+        return execution.order;
+      },
+    });
+
+    return {
+      order: bracket.entry,
+      bracket,
+      side,
+      quantity,
+      leverage: sizing.leverage,
+      stopLoss: roundedStopLoss,
+      takeProfit: roundedTakeProfit,
+      sizing,
+      liquidationPrice: liquidation.liquidationPrice,
+      execution,
+    };
+  }
+
+  /**
+   * 根据百分比计算止损止盈价格
+   */
+  private calculateProtectionPrices(
+    side: 'LONG' | 'SHORT',
+    price: number,
+    stopLossPercent: number,
+    takeProfitPercent: number,
+    filters: SymbolFilters
+  ): { stopLoss: number; takeProfit: number } {
+    const stopLossPrice = side === 'LONG'
+      ? price * (1 - stopLossPercent / 100)
+      : price * (1 + stopLossPercent / 100);
+
+    const takeProfitPrice = side === 'LONG'
+      ? price * (1 + takeProfitPercent / 100)
+      : price * (1 - takeProfitPercent / 100);
+
+    // 按交易对 tickSize 取整
+    return {
+      stopLoss: roundPrice(filters, stopLossPrice),
+      takeProfit: roundPrice(filters, takeProfitPrice),
+    };
+  }
+
+  /**
+   * 描述当前持仓（供AI持仓管理）
+   */
+  private async describePosition(
+    position: Position,
+    markPrice: number
+  ): Promise<OpenPositionContext> {
+    const amount = parseFloat(position.positionAmt);
+    const entryPrice = parseFloat(position.entryPrice);
+    const quantity = Math.abs(amount);
+    const leverage = parseInt(position.leverage) || 1;
+    const unrealizedPnL = parseFloat(position.unRealizedProfit);
+    const margin = (entryPrice * quantity) / leverage;
+
+    const stored = await safeExecute(
+      () => tradeRecorder.findOpenPosition(this.config.modelId, position.symbol),
+      null,
+      'Load stored position'
+    );
+
+    return {
+      side: amount > 0 ? 'LONG' : 'SHORT',
+      entryPrice,
+      markPrice,
+      quantity,
+      leverage,
+      unrealizedPnL,
+      unrealizedPnLPercent: margin > 0 ? (unrealizedPnL / margin) * 100 : 0,
+      ageMinutes: stored ? (Date.now() - stored.openedAt.getTime()) / 60000 : undefined,
+      stopLoss: stored?.stopLoss ?? undefined,
+      takeProfit: stored?.takeProfit ?? undefined,
+    };
+  }
+
+  /**
+   * 持仓管理：平仓、减仓、加仓、调整止损止盈
+   */
+  private async managePosition(
+    decision: AIDecisionOutput,
+    position: OpenPositionContext,
+    marketData: MarketData,
+    closes: Record<string, number[]>
+  ): Promise<TradingResult> {
+    const { symbol } = marketData;
+    const { side } = position;
+
+    if (!['CLOSE', 'REDUCE', 'ADD', 'ADJUST'].includes(decision.action)) {
+      const conflict = decision.action !== 'HOLD';
+      await this.recordDecision(
+        decision,
+        marketData,
+        false,
+        conflict ? 'Position already open, use ADD/REDUCE/CLOSE to manage it' : undefined
       );
+
+      return {
+        symbol,
+        success: true,
+        action: conflict ? 'SKIP' : 'HOLD',
+        decision,
+        error: conflict ? 'Already has position in this symbol' : undefined,
+      };
+    }
+
+    let order: any;
+    let quantity = position.quantity; // 本次操作涉及的数量
+    let protection: { stopLoss: number; takeProfit: number } | undefined;
+    let liquidationPrice: number | undefined;
+    let execution: ExecutionReport | undefined;
+    let protectionFailure: ProtectionFailure | undefined;
+    let cleanupWarning: string | undefined; // 平仓后撤单失败（不影响平仓结果）
+
+    try {
+      const filters = await this.binance.getSymbolInfo(symbol);
+
+      switch (decision.action) {
+        case 'CLOSE': {
+          order = await this.venue.closePosition(symbol, side);
+          cleanupWarning = await this.cancelLeftoverOrders(symbol);
+          break;
+        }
+
+        case 'REDUCE': {
+          quantity = roundQuantity(
+            filters,
+            (position.quantity * (decision.closePercent || 50)) / 100
+          );
+          if (quantity <= 0) {
+            throw new TradingError(
+              ErrorType.TRADING_INVALID_PARAMS,
+              'Reduce quantity rounds to zero'
+            );
+          }
+
+          if (quantity >= position.quantity) {
+            quantity = position.quantity;
+            order = await this.venue.closePosition(symbol, side);
+            cleanupWarning = await this.cancelLeftoverOrders(symbol);
+          } else {
+            order = await this.venue.reducePosition(symbol, side, quantity);
+            // 按剩余数量替换止损止盈
+            protectionFailure = await this.reprotect({
+              symbol,
+              side,
+              quantity: roundQuantity(filters, position.quantity - quantity),
+              stopLoss: position.stopLoss,
+              takeProfit: position.takeProfit,
+            });
+          }
+          break;
+        }
+
+        case 'ADD': {
+          const { positionSize = 20, stopLoss = 2, takeProfit = 4 } = decision;
+          const accountInfo = await this.venue.getAccountInfo();
+          const snapshot = this.buildPortfolioSnapshot(accountInfo, closes);
+
+          // 加仓沿用持仓杠杆，只调整规模和止损止盈
+          const sizing = this.sizer.size({
+            price: marketData.currentPrice,
+            balance: accountInfo.balance,
+            equity: snapshot.equity,
+            positionSize,
+            leverage: position.leverage,
+            stopLoss,
+            takeProfit,
+            klines: marketData.klines,
+            stats: this.sizingStats ?? undefined,
+            fixedLeverage: position.leverage,
+          });
+          const notionalValue = sizing.notional;
+
+          await this.risk.checkOrder({ symbol, leverage: position.leverage });
+
+          if (notionalValue < filters.minNotional) {
+            throw new TradingError(
+              ErrorType.TRADING_INVALID_PARAMS,
+              `Notional value $${notionalValue.toFixed(2)} is below minimum $${filters.minNotional}`
+            );
+          }
+
+          quantity = roundQuantity(filters, notionalValue / marketData.currentPrice);
+          validateOrder(filters, {
+            quantity,
+            price: marketData.currentPrice,
+            isMarket: true,
+            reducing: false,
+          });
+          this.portfolio.checkNewPosition(
+            { symbol, side, notional: quantity * marketData.currentPrice },
+            snapshot
+          );
+
+          // 按加仓后的持仓均价和总数量检查强平距离
+          const totalQuantity = position.quantity + quantity;
+          const liquidation = await this.liquidation.check({
+            symbol,
+            side,
+            price: marketData.currentPrice,
+            entryPrice:
+              (position.entryPrice * position.quantity + marketData.currentPrice * quantity) /
+              totalQuantity,
+            quantity: totalQuantity,
+            leverage: position.leverage,
+            stopLoss: sizing.stopLoss,
+            marginType: this.config.marginType ?? 'CROSSED',
+            walletBalance: snapshot.equity,
+            otherPositions: snapshot.positions.filter((p) => p.symbol !== symbol),
+          });
+          liquidationPrice = liquidation.liquidationPrice;
+
+          protection = this.calculateProtectionPrices(
+            side,
+            marketData.currentPrice,
+            liquidation.stopLoss,
+            sizing.takeProfit,
+            filters
+          );
+
+          execution = await this.executor.execute({
+            symbol,
+            side,
+            quantity,
+            leverage: position.leverage,
+            decisionPrice: marketData.currentPrice,
+            filters,
+          });
+          order = execution.order;
+
+          protectionFailure = await this.reprotect(
+            {
+              symbol,
+              side,
+              quantity: roundQuantity(filters, position.quantity + execution.quantity),
+              ...protection,
+            },
+            execution.quantity
+          );
+          break;
+        }
+
+        case 'ADJUST': {
+          const { stopLoss = 2, takeProfit = 4 } = decision;
+          const accountInfo = await this.venue.getAccountInfo();
+          const snapshot = this.buildPortfolioSnapshot(accountInfo, closes);
+
+          // 新止损同样需要落在强平距离之内
+          const liquidation = await this.liquidation.check({
+            symbol,
+            side,
+            price: marketData.currentPrice,
+            entryPrice: position.entryPrice,
+            quantity: position.quantity,
+            leverage: position.leverage,
+            stopLoss,
+            marginType: this.config.marginType ?? 'CROSSED',
+            walletBalance: snapshot.equity,
+            otherPositions: snapshot.positions.filter((p) => p.symbol !== symbol),
+          });
+          liquidationPrice = liquidation.liquidationPrice;
+
+          protection = this.calculateProtectionPrices(
+            side,
+            marketData.currentPrice,
+            liquidation.stopLoss,
+            takeProfit,
+            filters
+          );
+
+          protectionFailure = await this.reprotect({
+            symbol,
+            side,
+            quantity: position.quantity,
+            ...protection,
+          });
+          if (protectionFailure) order = protectionFailure.order;
+          break;
+        }
+      }
+    } catch (error: any) {
+      await this.recordDecision(decision, marketData, false, error.message, {
+        liquidationPrice: error.details?.liquidationPrice,
+      });
+      return this.rejectedResult(symbol, decision, error);
+    }
+
+    this.lastTradeTime = Date.now();
+    if (decision.action === 'ADJUST' && protectionFailure) {
+      // 新止损止盈未生效，不更新记录
+      await this.recordDecision(decision, marketData, false, protectionFailure.error, { liquidationPrice });
     } else {
-      return await this.binance.openShort(
-        this.config.symbol,
+      await this.recordManagement(
+        decision,
+        position,
+        marketData,
+        order,
         quantity,
-        leverage,
-        roundedStopLoss,
-        roundedTakeProfit
+        protection,
+        liquidationPrice,
+        execution
       );
     }
+
+    if (protectionFailure) {
+      if (protectionFailure.order) {
+        await this.recordProtectionExit(position, marketData, protectionFailure, execution);
+      }
+      if (protectionFailure.action === 'FLATTENED') {
+        this.setCooldown(symbol);
+      }
+
+      return {
+        symbol,
+        success: false,
+        action: protectionFailure.action,
+        decision,
+        order,
+        error: protectionFailure.error,
+      };
+    }
+
+    // 平仓后进入冷却期，避免立即反手
+    if (decision.action === 'CLOSE') {
+      this.setCooldown(symbol);
+    }
+
+    return {
+      symbol,
+      success: true,
+      action: decision.action,
+      decision,
+      order,
+      error: cleanupWarning,
+    };
   }
 
   /**
-   * 数量精度处理
+   * 平仓后撤销剩余挂单
+   * 失败只返回警告：仓位已平，必须照常入账，遗留的保护单由对账服务清理
    */
-  private roundQuantity(symbol: string, quantity: number): number {
-    if (symbol.includes('BTC')) {
-      return Math.round(quantity * 1000) / 1000; // 0.001
-    } else if (symbol.includes('ETH')) {
-      return Math.round(quantity * 1000) / 1000; // 0.001
-    } else if (symbol.includes('BNB') || symbol.includes('SOL')) {
-      return Math.round(quantity * 10) / 10; // 0.1
+  private async cancelLeftoverOrders(symbol: string): Promise<string | undefined> {
+    try {
+      await this.venue.cancelAllOpenOrders(symbol);
+      return undefined;
+    } catch (error: any) {
+      return `Position closed but cancelling open orders failed: ${error.message}`;
     }
-    return Math.round(quantity * 1000) / 1000; // 默认 0.001
   }
 
   /**
-   * 获取性能指标
+   * 替换持仓的止损止盈（先挂新腿再撤旧腿）
+   * 失败时旧腿仍有效则保留；加仓时旧腿不覆盖新增数量，回滚加仓部分；没有旧腿时市价平仓；平仓失败返回 UNPROTECTED
+   */
+  private async reprotect(
+    params: ProtectionParams,
+    addedQuantity?: number
+  ): Promise<ProtectionFailure | undefined> {
+    const { symbol, side } = params;
+    let kept: boolean;
+    let error: string;
+
+    try {
+      const result = await this.venue.replaceProtectiveOrders(params);
+      if (result.success) return undefined;
+      kept = result.previousKept > 0;
+      error = result.error ?? 'Protective orders were not placed';
+    } catch (replaceError: any) {
+      // 只会在改动挂单之前失败（查询挂单），原有保护单保持不变
+      kept = true;
+      error = replaceError.message;
+    }
+
+    if (kept && !addedQuantity) {
+      return { action: 'PROTECTION_KEPT', error: `${error}; previous stop/take-profit kept` };
+    }
+
+    const rollback = kept && !!addedQuantity;
+    try {
+      const order = await new ExponentialBackoff(500, 4000, 3).execute(() =>
+        rollback
+          ? this.venue.reducePosition(symbol, side, addedQuantity!)
+          : this.venue.closePosition(symbol, side)
+      );
+      return {
+        action: rollback ? 'ROLLED_BACK' : 'FLATTENED',
+        error: `${error}; ${rollback ? 'added quantity rolled back' : 'position flattened'}`,
+        order,
+        quantity: rollback ? addedQuantity : params.quantity,
+      };
+    } catch (exitError: any) {
+      return {
+        action: 'UNPROTECTED',
+        error: `${error}; ${rollback ? 'rollback' : 'flatten'} failed, position is UNPROTECTED: ${exitError.message}`,
+      };
+    }
+  }
+
+  /**
+   * 保护单替换失败后的回滚/平仓记入账本
+   */
+  private async recordProtectionExit(
+    position: OpenPositionContext,
+    marketData: MarketData,
+    failure: ProtectionFailure,
+    execution?: ExecutionReport
+  ): Promise<void> {
+    const exitPrice = parseFloat(failure.order?.avgPrice || '0');
+    const filledQty = parseFloat(failure.order?.executedQty || '0');
+
+    await safeExecute(
+      () =>
+        tradeRecorder.recordCloseTrade({
+          modelId: this.config.modelId,
+          symbol: marketData.symbol,
+          side: position.side,
+          price: exitPrice > 0 ? exitPrice : marketData.currentPrice,
+          quantity: filledQty > 0 ? filledQty : failure.quantity!,
+          // 回滚的是本次加仓部分，按加仓成交价计算盈亏
+          entryPrice: failure.action === 'ROLLED_BACK' && execution ? execution.avgPrice : position.entryPrice,
+          leverage: position.leverage,
+          orderId: failure.order?.orderId,
+          reasoning: `Protection rollback: ${failure.error}`,
+        }),
+      null,
+      'Record protection rollback'
+    );
+  }
+
+  /**
+   * 记录持仓管理操作
+   */
+  private async recordManagement(
+    decision: AIDecisionOutput,
+    position: OpenPositionContext,
+    marketData: MarketData,
+    order: any,
+    quantity: number,
+    protection?: { stopLoss: number; takeProfit: number },
+    liquidationPrice?: number,
+    execution?: ExecutionReport
+  ): Promise<void> {
+    const { modelId } = this.config;
+    const { symbol } = marketData;
+    const avgPrice = parseFloat(order?.avgPrice || '0');
+    const filledQty = parseFloat(order?.executedQty || '0');
+    const price = avgPrice > 0 ? avgPrice : marketData.currentPrice;
+
+    await safeExecute(
+      async () => {
+        if (decision.action === 'CLOSE' || decision.action === 'REDUCE') {
+          await tradeRecorder.recordCloseTrade({
+            modelId,
+            symbol,
+            side: position.side,
+            price,
+            quantity: filledQty > 0 ? filledQty : quantity,
+            entryPrice: position.entryPrice,
+            leverage: position.leverage,
+            orderId: order?.orderId,
+            reasoning: decision.reasoning,
+            confidence: decision.confidence,
+          });
+        } else if (decision.action === 'ADD') {
+          await tradeRecorder.recordScaleIn({
+            modelId,
+            symbol,
+            side: position.side,
+            price,
+            quantity: filledQty > 0 ? filledQty : quantity,
+            leverage: position.leverage,
+            stopLoss: protection?.stopLoss,
+            takeProfit: protection?.takeProfit,
+            orderId: order?.orderId,
+            reasoning: decision.reasoning,
+            confidence: decision.confidence,
+            execution: this.entryExecution(execution),
+          });
+        } else if (decision.action === 'ADJUST') {
+          await tradeRecorder.updateProtection(
+            modelId,
+            symbol,
+            protection?.stopLoss,
+            protection?.takeProfit
+          );
+        }
+      },
+      undefined,
+      `Record ${decision.action}`
+    );
+
+    await this.recordDecision(decision, marketData, true, undefined, { liquidationPrice });
+  }
+
+  /**
+   * 记录AI决策（写库失败不影响交易）
+   */
+  private async recordDecision(
+    decision: AIDecisionOutput,
+    marketData: MarketData,
+    executed: boolean,
+    executionError?: string,
+    extras: { sizing?: SizingResult; liquidationPrice?: number } = {}
+  ): Promise<void> {
+    await safeExecute(
+      () =>
+        tradeRecorder.recordDecision({
+          modelId: this.config.modelId,
+          symbol: marketData.symbol,
+          decision,
+          snapshot: this.buildSnapshot(marketData),
+          executed,
+          executionError,
+          sizing: extras.sizing,
+          liquidationPrice: extras.liquidationPrice,
+        }),
+      null,
+      'Record AI decision'
+    );
+  }
+
+  /**
+   * 记录已执行的开仓：成交、持仓和决策
    */
-  private async getPerformanceMetrics() {
-    // TODO: 从数据库查询真实指标
-    // 目前返回模拟数据
+  private async recordExecution(
+    decision: AIDecisionOutput,
+    marketData: MarketData,
+    executed: ExecutedOrder
+  ): Promise<void> {
+    const { order, bracket } = executed;
+    const avgPrice = parseFloat(order?.avgPrice || '0');
+    const filledQty = parseFloat(order?.executedQty || '0');
+    const entryPrice = avgPrice > 0 ? avgPrice : marketData.currentPrice;
+    const quantity = filledQty > 0 ? filledQty : executed.quantity;
+
+    await safeExecute(
+      () =>
+        tradeRecorder.recordOpenTrade({
+          modelId: this.config.modelId,
+          symbol: marketData.symbol,
+          side: executed.side,
+          price: entryPrice,
+          quantity,
+          leverage: executed.leverage,
+          stopLoss: bracket.stopLoss.status === 'PLACED' ? executed.stopLoss : undefined,
+          takeProfit: bracket.takeProfit.status === 'PLACED' ? executed.takeProfit : undefined,
+          orderId: order?.orderId,
+          reasoning: decision.reasoning,
+          confidence: decision.confidence,
+          promptVersion: decision.promptVersion,
+          execution: this.entryExecution(executed.execution),
+        }),
+      null,
+      'Record open trade'
+    );
+
+    // 回滚平仓也记入账本，手续费和滑点是真实成本
+    if (bracket.rolledBack) {
+      const rollback = bracket.rollbackOrder;
+      const exitPrice = parseFloat(rollback?.avgPrice || '0');
+
+      await safeExecute(
+        () =>
+          tradeRecorder.recordCloseTrade({
+            modelId: this.config.modelId,
+            symbol: marketData.symbol,
+            side: executed.side,
+            price: exitPrice > 0 ? exitPrice : marketData.currentPrice,
+            quantity,
+            entryPrice,
+            leverage: executed.leverage,
+            orderId: rollback?.orderId,
+            reasoning: `Bracket rollback: ${bracket.error}`,
+          }),
+        null,
+        'Record bracket rollback'
+      );
+    }
+
+    await this.recordDecision(
+      decision,
+      marketData,
+      bracket.success,
+      bracket.error,
+      { sizing: executed.sizing, liquidationPrice: executed.liquidationPrice }
+    );
+  }
+
+  /**
+   * 入场成交质量（写入 Trade）
+   */
+  private entryExecution(execution?: ExecutionReport): EntryExecution | undefined {
+    if (!execution) return undefined;
+
+    return {
+      style: execution.style,
+      decisionPrice: execution.decisionPrice,
+      slippage: execution.slippage,
+    };
+  }
+
+  /**
+   * 决策时刻的指标快照
+   */
+  private buildSnapshot(marketData: MarketData): DecisionSnapshot {
     return {
+      price: marketData.currentPrice,
+      rsi: marketData.indicators.rsi,
+      macd: marketData.indicators.macd,
+      ema20: marketData.indicators.ema20,
+      ema50: marketData.indicators.ema50,
+    };
+  }
+
+  /**
+   * 获取性能指标
+   */
+  private async getPerformanceMetrics(): Promise<AIDecisionInput['performance']> {
+    const fallback = {
       totalReturn: 0,
       sharpeRatio: 0,
       winRate: 0,
       totalTrades: 0,
     };
+
+    return await safeExecute(
+      async () => {
+        const metrics = await performanceService.getMetrics(this.config.modelId);
+        this.sizingStats = {
+          winRate: metrics.winRate,
+          averageWin: metrics.averageWin,
+          averageLoss: metrics.averageLoss,
+          totalTrades: metrics.totalTrades,
+          currentDrawdown: metrics.currentDrawdown,
+        };
+        return {
+          totalReturn: metrics.totalReturn,
+          sharpeRatio: metrics.sharpeRatio,
+          winRate: metrics.winRate,
+          totalTrades: metrics.totalTrades,
+          maxDrawdown: metrics.maxDrawdown,
+        };
+      },
+      fallback,
+      'Load performance metrics'
+    );
   }
 
   /**
@@ -335,6 +1273,13 @@ export class TradingEngine {
     this.cooldownMap.set(symbol, Date.now() + durationMs);
   }
 
+  /**
+   * 获取执行场所（对账等服务复用）
+   */
+  getVenue(): ExecutionVenue {
+    return this.venue;
+  }
+
   /**
    * 获取统计信息
    */
@@ -344,7 +1289,9 @@ export class TradingEngine {
       lastTradeTime: this.lastTradeTime,
       modelId: this.config.modelId,
       modelName: this.config.modelName,
-      symbol: this.config.symbol,
+      symbols: this.config.symbols,
+      paperTrading: !!this.config.paperTrading,
+      ai: this.ai.getStats(),
     };
   }
 }
@@ -0,0 +1,214 @@
+/**
+ * 资金费追踪
+ * 从收入流水（FUNDING_FEE）拉取实际支付/收取的资金费，按结算时刻分摊到当时持有的 Position，
+ * 计入持仓累计资金费和模型已实现盈亏
+ */
+
+import type { BinanceClient, IncomeRecord } from '../binance/client';
+import { prisma } from '../database/client';
+
+type PositionSide = 'LONG' | 'SHORT';
+
+export interface FundingAllocation {
+  positionId: string;
+  modelId: string;
+  amount: number;
+}
+
+export interface FundingSyncReport {
+  payments: number; // 新入账的资金费流水数
+  allocations: FundingAllocation[];
+  unmatched: number; // 找不到对应持仓的流水数（如手动开的仓）
+}
+
+// 首次同步回溯的时长
+const DEFAULT_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+// 资金费率结算时刻与收入流水时间的最大偏差
+const FUNDING_TIME_TOLERANCE_MS = 60 * 1000;
+const INCOME_PAGE_LIMIT = 1000;
+
+export class FundingTracker {
+  private binance: BinanceClient;
+
+  constructor(binance: BinanceClient) {
+    this.binance = binance;
+  }
+
+  /**
+   * 拉取上次入账之后的资金费流水并分摊到持仓
+   */
+  async sync(): Promise<FundingSyncReport> {
+    const report: FundingSyncReport = { payments: 0, allocations: [], unmatched: 0 };
+
+    const latest = await prisma.fundingPayment.aggregate({ _max: { fundingTime: true } });
+    const since = latest._max.fundingTime?.getTime() ?? Date.now() - DEFAULT_LOOKBACK_MS;
+
+    const records = await this.fetchIncome(since);
+    if (records.length === 0) return report;
+
+    const recorded = await prisma.fundingPayment.findMany({
+      where: { tranId: { in: records.map((r) => String(r.tranId)) } },
+      select: { tranId: true },
+    });
+    const recordedIds = new Set(recorded.map((r) => r.tranId));
+    const pending = records.filter((r) => !recordedIds.has(String(r.tranId)));
+    if (pending.length === 0) return report;
+
+    const rates = await this.fetchFundingRates(pending);
+
+    for (const record of pending) {
+      const fundingTime = new Date(record.time);
+      const rate = this.findRate(rates.get(record.symbol), record.time);
+      const allocations = await this.allocate(record, rate);
+
+      if (allocations.length === 0) {
+        report.unmatched++;
+        continue;
+      }
+
+      await prisma.$transaction(
+        allocations.flatMap((a) => [
+          prisma.fundingPayment.create({
+            data: {
+              positionId: a.positionId,
+              modelId: a.modelId,
+              symbol: record.symbol,
+              amount: a.amount,
+              fundingRate: rate,
+              tranId: String(record.tranId),
+              fundingTime,
+            },
+          }),
+          prisma.position.update({
+            where: { id: a.positionId },
+            data: { fundingFees: { increment: a.amount } },
+          }),
+          // 持仓已平仓时资金费补计入平仓成交的盈亏
+          prisma.trade.updateMany({
+            where: { closePositionId: a.positionId },
+            data: { pnl: { increment: a.amount } },
+          }),
+        ])
+      );
+
+      report.payments++;
+      report.allocations.push(...allocations);
+    }
+
+    return report;
+  }
+
+  /**
+   * 分页拉取资金费流水（按时间升序）
+   */
+  private async fetchIncome(since: number): Promise<IncomeRecord[]> {
+    const records: Map<number, IncomeRecord> = new Map();
+    let startTime = since;
+
+    while (true) {
+      const page = await this.binance.getIncomeHistory(
+        'FUNDING_FEE',
+        startTime,
+        undefined,
+        INCOME_PAGE_LIMIT
+      );
+      const added = page.filter((r) => !records.has(r.tranId));
+      added.forEach((r) => records.set(r.tranId, r));
+
+      if (page.length < INCOME_PAGE_LIMIT || added.length === 0) break;
+      // 同一时刻的流水可能跨页，从最后一条的时间继续并按 tranId 去重
+      startTime = page[page.length - 1].time;
+    }
+
+    return Array.from(records.values()).sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * 拉取流水覆盖区间内各标的的历史资金费率
+   */
+  private async fetchFundingRates(
+    records: IncomeRecord[]
+  ): Promise<Map<string, Array<{ fundingTime: number; fundingRate: number }>>> {
+    const rates = new Map<string, Array<{ fundingTime: number; fundingRate: number }>>();
+    const symbols = Array.from(new Set(records.map((r) => r.symbol)));
+
+    for (const symbol of symbols) {
+      const times = records.filter((r) => r.symbol === symbol).map((r) => r.time);
+      const history = await this.binance
+        .getFundingRateHistory(
+          symbol,
+          1000,
+          Math.min(...times) - FUNDING_TIME_TOLERANCE_MS,
+          Math.max(...times) + FUNDING_TIME_TOLERANCE_MS
+        )
+        .catch(() => []);
+
+      rates.set(
+        symbol,
+        history.map((h) => ({ fundingTime: h.fundingTime, fundingRate: parseFloat(h.fundingRate) }))
+      );
+    }
+
+    return rates;
+  }
+
+  private findRate(
+    history: Array<{ fundingTime: number; fundingRate: number }> | undefined,
+    time: number
+  ): number | null {
+    const match = history?.find((h) => Math.abs(h.fundingTime - time) <= FUNDING_TIME_TOLERANCE_MS);
+    return match ? match.fundingRate : null;
+  }
+
+  /**
+   * 将一笔资金费分摊到结算时刻持有该标的的持仓
+   * 费率为正时多头支付、空头收取（为负时相反），按流水方向只分摊给对应一侧；
+   * 同侧多个模型的持仓按名义价值比例分摊
+   */
+  private async allocate(record: IncomeRecord, rate: number | null): Promise<FundingAllocation[]> {
+    const fundingTime = new Date(record.time);
+    const amount = parseFloat(record.income);
+
+    const positions = await prisma.position.findMany({
+      where: {
+        symbol: record.symbol,
+        openedAt: { lte: fundingTime },
+        OR: [{ closedAt: null }, { closedAt: { gte: fundingTime } }],
+      },
+      include: { account: { select: { modelId: true } } },
+    });
+    if (positions.length === 0 || amount === 0) return [];
+
+    let candidates = positions;
+    if (rate !== null && rate !== 0) {
+      const payer: PositionSide = rate > 0 ? 'LONG' : 'SHORT';
+      const side: PositionSide = amount < 0 ? payer : payer === 'LONG' ? 'SHORT' : 'LONG';
+      const sameSide = positions.filter((p) => p.side === side);
+      if (sameSide.length > 0) candidates = sameSide;
+    }
+
+    const totalNotional = candidates.reduce((sum, p) => sum + p.quantity * p.entryPrice, 0);
+
+    return candidates.map((p) => ({
+      positionId: p.id,
+      modelId: p.account.modelId,
+      amount:
+        totalNotional > 0
+          ? (amount * p.quantity * p.entryPrice) / totalNotional
+          : amount / candidates.length,
+    }));
+  }
+}
+
+/**
+ * 各标的/方向当前未平持仓的累计资金费，键为 `${symbol}:${side}`（仪表板使用）
+ */
+export async function openPositionFundingFees(): Promise<Map<string, number>> {
+  const groups = await prisma.position.groupBy({
+    by: ['symbol', 'side'],
+    where: { status: 'OPEN' },
+    _sum: { fundingFees: true },
+  });
+
+  return new Map(groups.map((g) => [`${g.symbol}:${g.side}`, g._sum.fundingFees ?? 0]));
+}
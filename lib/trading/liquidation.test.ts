@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  FALLBACK_BRACKET,
+  LiquidationGuard,
+  calculateLiquidationPrice,
+  findBracket,
+  maintenanceMargin,
+} from './liquidation';
+import type { LeverageBracket } from '../binance/client';
+import { TradingError } from '../utils/error-handler';
+
+const BRACKETS: LeverageBracket[] = [
+  { bracket: 1, initialLeverage: 20, notionalCap: 10000, notionalFloor: 0, maintMarginRatio: 0.005, cum: 0 },
+  { bracket: 2, initialLeverage: 10, notionalCap: 50000, notionalFloor: 10000, maintMarginRatio: 0.01, cum: 50 },
+];
+
+const isolated = { entryPrice: 100, quantity: 1, leverage: 10, marginType: 'ISOLATED' as const, brackets: BRACKETS };
+
+describe('findBracket / maintenanceMargin', () => {
+  it('picks the bracket containing the notional', () => {
+    expect(findBracket(BRACKETS, 5000).bracket).toBe(1);
+    expect(findBracket(BRACKETS, 20000).bracket).toBe(2);
+    // 超出最高档时使用最后一档
+    expect(findBracket(BRACKETS, 1e9).bracket).toBe(2);
+    expect(findBracket([], 100)).toBe(FALLBACK_BRACKET);
+  });
+
+  it('subtracts the cumulative amount', () => {
+    expect(maintenanceMargin(BRACKETS, 20000)).toBeCloseTo(150, 10);
+  });
+});
+
+describe('calculateLiquidationPrice', () => {
+  it('uses the initial margin as wallet balance for isolated positions', () => {
+    // LP = (WB + cum - side × Q × EP) / (Q × MMR - side × Q)
+    expect(calculateLiquidationPrice({ ...isolated, side: 'LONG' })).toBeCloseTo(-90 / -0.995, 8);
+    expect(calculateLiquidationPrice({ ...isolated, side: 'SHORT' })).toBeCloseTo(110 / 1.005, 8);
+  });
+
+  it('ignores cross-margin inputs for isolated positions', () => {
+    const withCross = calculateLiquidationPrice({
+      ...isolated,
+      side: 'LONG',
+      walletBalance: 5000,
+      otherMaintenanceMargin: 100,
+    });
+    expect(withCross).toBeCloseTo(calculateLiquidationPrice({ ...isolated, side: 'LONG' }), 10);
+  });
+
+  it('uses account equity minus other maintenance margin for cross positions', () => {
+    const price = calculateLiquidationPrice({
+      ...isolated,
+      side: 'LONG',
+      marginType: 'CROSSED',
+      walletBalance: 50,
+      otherMaintenanceMargin: 20,
+    });
+    expect(price).toBeCloseTo((50 - 20 - 100) / (0.005 - 1), 8);
+  });
+
+  it('returns 0 when the balance covers any price move', () => {
+    expect(
+      calculateLiquidationPrice({ ...isolated, side: 'LONG', marginType: 'CROSSED', walletBalance: 1000 })
+    ).toBe(0);
+  });
+});
+
+describe('LiquidationGuard', () => {
+  const guard = (options = {}) =>
+    new LiquidationGuard(() => Promise.resolve([{ symbol: 'BTCUSDT', brackets: BRACKETS }]), options);
+  const params = {
+    symbol: 'BTCUSDT',
+    side: 'LONG' as const,
+    price: 100,
+    quantity: 1,
+    leverage: 10,
+    stopLoss: 5,
+    marginType: 'ISOLATED' as const,
+  };
+  // 强平距离约 9.55%，默认安全系数 0.8 时止损上限约 7.64%
+  const maxStopLoss = ((100 - -90 / -0.995) / 100) * 100 * 0.8;
+
+  it('passes a stop inside the safe distance unchanged', async () => {
+    const result = await guard().check(params);
+    expect(result.adjusted).toBe(false);
+    expect(result.stopLoss).toBe(5);
+    expect(result.maxStopLoss).toBeCloseTo(maxStopLoss, 8);
+    expect(result.maxLeverage).toBe(20);
+  });
+
+  it('tightens a stop beyond the safe distance', async () => {
+    const result = await guard().check({ ...params, stopLoss: 9 });
+    expect(result.adjusted).toBe(true);
+    expect(result.stopLoss).toBeCloseTo(maxStopLoss, 8);
+  });
+
+  it('rejects instead of tightening in reject mode', async () => {
+    const error = await guard({ mode: 'reject' })
+      .check({ ...params, stopLoss: 9 })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(TradingError);
+    expect(error.details.liquidationPrice).toBeCloseTo(-90 / -0.995, 8);
+  });
+
+  it('rejects leverage above the bracket maximum', async () => {
+    await expect(guard().check({ ...params, leverage: 30 })).rejects.toThrow(/exceeds 20x/);
+  });
+
+  it('rejects when the tightened stop would fall below the minimum', async () => {
+    await expect(guard({ minStopLoss: 8 }).check({ ...params, stopLoss: 9 })).rejects.toThrow(
+      /beyond safe liquidation distance/
+    );
+  });
+
+  it('caches brackets and falls back when loading fails', async () => {
+    const fetchBrackets = vi.fn().mockRejectedValue(new Error('no keys'));
+    const failing = new LiquidationGuard(fetchBrackets);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await failing.getBrackets('BTCUSDT')).toEqual([FALLBACK_BRACKET]);
+    expect(await failing.getBrackets('ETHUSDT')).toEqual([FALLBACK_BRACKET]);
+    expect(fetchBrackets).toHaveBeenCalledTimes(1);
+  });
+});
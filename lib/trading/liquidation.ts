@@ -0,0 +1,224 @@
+/**
+ * 保证金与强平价格计算
+ * 基于币安杠杆分层（/fapi/v1/leverageBracket）的维持保证金率，支持逐仓和全仓；
+ * LiquidationGuard 在下单前确认止损位于强平距离之内，否则收紧止损或拒绝下单
+ */
+
+import type { LeverageBracket, MarginType, SymbolLeverageBrackets } from '../binance/client';
+import { TradingError, ErrorType } from '../utils/error-handler';
+import { pickDefined } from '../utils/options';
+
+export type { MarginType };
+
+/**
+ * 无法获取分层时使用的保守档位（主流币首档维持保证金率通常为 0.4%~0.5%）
+ */
+export const FALLBACK_BRACKET: LeverageBracket = {
+  bracket: 1,
+  initialLeverage: 125,
+  notionalCap: Number.MAX_SAFE_INTEGER,
+  notionalFloor: 0,
+  maintMarginRatio: 0.005,
+  cum: 0,
+};
+
+export interface LiquidationInput {
+  side: 'LONG' | 'SHORT';
+  entryPrice: number;
+  quantity: number;
+  leverage: number;
+  marginType: MarginType;
+  brackets: LeverageBracket[];
+  walletBalance?: number; // 全仓：账户权益（逐仓使用初始保证金）
+  otherMaintenanceMargin?: number; // 全仓：其他持仓占用的维持保证金
+}
+
+export interface LiquidationCheck {
+  liquidationPrice: number; // 0 表示不会强平（全仓余额足以覆盖）
+  liquidationDistance: number; // 当前价格到强平价的距离百分比
+  maxStopLoss: number; // 安全范围内允许的最大止损百分比
+  stopLoss: number; // 最终使用的止损百分比
+  adjusted: boolean; // 止损是否被收紧
+  maxLeverage: number; // 该名义价值档位允许的最大杠杆
+}
+
+export interface LiquidationGuardOptions {
+  safetyRatio: number; // 止损距离最多占强平距离的比例
+  minStopLoss: number; // 收紧后止损低于该百分比时拒绝下单
+  mode: 'adjust' | 'reject'; // 止损超出范围时收紧还是直接拒绝
+  ttl: number; // 分层缓存时长（毫秒）
+}
+
+export const DEFAULT_LIQUIDATION_OPTIONS: LiquidationGuardOptions = {
+  safetyRatio: 0.8,
+  minStopLoss: 0.5,
+  mode: 'adjust',
+  ttl: 60 * 60 * 1000,
+};
+
+/**
+ * 名义价值所在的档位
+ */
+export function findBracket(brackets: LeverageBracket[], notional: number): LeverageBracket {
+  const sorted = brackets.slice().sort((a, b) => a.notionalFloor - b.notionalFloor);
+  return (
+    sorted.find((b) => notional >= b.notionalFloor && notional < b.notionalCap) ??
+    sorted[sorted.length - 1] ??
+    FALLBACK_BRACKET
+  );
+}
+
+/**
+ * 维持保证金 = 名义价值 × 维持保证金率 - 速算额
+ */
+export function maintenanceMargin(brackets: LeverageBracket[], notional: number): number {
+  const bracket = findBracket(brackets, notional);
+  return Math.max(0, notional * bracket.maintMarginRatio - bracket.cum);
+}
+
+/**
+ * 强平价格（币安单向持仓公式）
+ * LP = (WB - TMM + cum - side × Q × EP) / (Q × MMR - side × Q)
+ * 逐仓 WB 为仓位初始保证金且不计其他持仓；全仓 WB 为账户权益并扣除其他持仓的维持保证金
+ */
+export function calculateLiquidationPrice(input: LiquidationInput): number {
+  const { side, entryPrice, quantity, leverage, marginType } = input;
+  if (quantity <= 0 || entryPrice <= 0) return 0;
+
+  const notional = quantity * entryPrice;
+  const bracket = findBracket(input.brackets, notional);
+  const direction = side === 'LONG' ? 1 : -1;
+
+  const isolated = marginType === 'ISOLATED';
+  const walletBalance = isolated ? notional / leverage : input.walletBalance ?? notional / leverage;
+  const otherMaintenance = isolated ? 0 : input.otherMaintenanceMargin ?? 0;
+
+  const price =
+    (walletBalance - otherMaintenance + bracket.cum - direction * quantity * entryPrice) /
+    (quantity * bracket.maintMarginRatio - direction * quantity);
+
+  return Math.max(0, price);
+}
+
+export interface GuardParams {
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  price: number; // 当前价格（止损百分比的基准）
+  entryPrice?: number; // 加仓后的持仓均价，默认等于当前价格
+  quantity: number; // 下单后的持仓总数量
+  leverage: number;
+  stopLoss: number; // 止损百分比
+  marginType: MarginType;
+  walletBalance?: number;
+  otherPositions?: Array<{ symbol: string; notional: number }>; // 全仓时计算其他持仓的维持保证金
+}
+
+export class LiquidationGuard {
+  private fetchBrackets: () => Promise<SymbolLeverageBrackets[]>;
+  private options: LiquidationGuardOptions;
+  private brackets: Map<string, LeverageBracket[]> = new Map();
+  private loadedAt: number = 0;
+  private loading: Promise<void> | null = null;
+
+  constructor(
+    fetchBrackets: () => Promise<SymbolLeverageBrackets[]>,
+    options: Partial<LiquidationGuardOptions> = {}
+  ) {
+    this.fetchBrackets = fetchBrackets;
+    this.options = { ...DEFAULT_LIQUIDATION_OPTIONS, ...pickDefined(options) };
+  }
+
+  /**
+   * 交易对的杠杆分层（缓存；拉取失败时使用保守档位）
+   */
+  async getBrackets(symbol: string): Promise<LeverageBracket[]> {
+    if (Date.now() - this.loadedAt > this.options.ttl) {
+      if (!this.loading) {
+        this.loading = this.fetchBrackets()
+          .then((all) => {
+            this.brackets = new Map(all.map((s) => [s.symbol, s.brackets]));
+          })
+          .catch((error) => {
+            console.warn('[LiquidationGuard] Failed to load leverage brackets:', error.message);
+          })
+          .finally(() => {
+            // 失败时同样等待一个周期再重试，避免每笔订单都请求
+            this.loadedAt = Date.now();
+            this.loading = null;
+          });
+      }
+      await this.loading;
+    }
+
+    return this.brackets.get(symbol) ?? [FALLBACK_BRACKET];
+  }
+
+  /**
+   * 检查止损是否在强平距离之内
+   * 超出时按 mode 收紧止损或拒绝；杠杆超过档位上限、收紧后止损过小时拒绝
+   * 拒绝的 TradingError 在 details.liquidationPrice 中带上预估强平价
+   */
+  async check(params: GuardParams): Promise<LiquidationCheck> {
+    const { symbol, side, price, leverage, stopLoss, marginType } = params;
+    const entryPrice = params.entryPrice ?? price;
+    const brackets = await this.getBrackets(symbol);
+    const notional = params.quantity * entryPrice;
+    const bracket = findBracket(brackets, notional);
+
+    let otherMaintenanceMargin = 0;
+    if (marginType === 'CROSSED') {
+      for (const other of params.otherPositions ?? []) {
+        otherMaintenanceMargin += maintenanceMargin(await this.getBrackets(other.symbol), other.notional);
+      }
+    }
+
+    const liquidationPrice = calculateLiquidationPrice({
+      side,
+      entryPrice,
+      quantity: params.quantity,
+      leverage,
+      marginType,
+      brackets,
+      walletBalance: params.walletBalance,
+      otherMaintenanceMargin,
+    });
+
+    const liquidationDistance =
+      liquidationPrice > 0 ? (Math.abs(price - liquidationPrice) / price) * 100 : Infinity;
+    const reject = (message: string) =>
+      new TradingError(ErrorType.TRADING_RISK_EXCEEDED, message, {
+        details: { liquidationPrice },
+      });
+
+    if (leverage > bracket.initialLeverage) {
+      throw reject(
+        `${symbol} leverage ${leverage}x exceeds ${bracket.initialLeverage}x allowed for $${notional.toFixed(0)} notional`
+      );
+    }
+
+    // 强平价已在当前价格不利一侧之外（保证金不足以开仓）
+    const wrongSide = side === 'LONG' ? liquidationPrice >= price : liquidationPrice > 0 && liquidationPrice <= price;
+    if (wrongSide) {
+      throw reject(`${symbol} position would be liquidated immediately (liq $${liquidationPrice.toFixed(2)})`);
+    }
+
+    const maxStopLoss = liquidationDistance * this.options.safetyRatio;
+    const result: LiquidationCheck = {
+      liquidationPrice,
+      liquidationDistance,
+      maxStopLoss,
+      stopLoss,
+      adjusted: false,
+      maxLeverage: bracket.initialLeverage,
+    };
+
+    if (stopLoss <= maxStopLoss) return result;
+
+    const detail = `stop ${stopLoss.toFixed(2)}% vs liquidation ${liquidationDistance.toFixed(2)}% away (liq $${liquidationPrice.toFixed(2)})`;
+    if (this.options.mode === 'reject' || maxStopLoss < this.options.minStopLoss) {
+      throw reject(`${symbol} stop-loss beyond safe liquidation distance: ${detail}`);
+    }
+
+    return { ...result, stopLoss: maxStopLoss, adjusted: true };
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * 市场数据快照
+ * 读取K线、价格和24h行情并计算技术指标（优先使用实时K线缓存，缺失时回退到 REST）
+ */
+
+import { BinanceClient } from '../binance/client';
+import type { CandleStore } from '../binance/candle-store';
+import { Kline, calculateAllIndicators, getLatest } from '../indicators/technical';
+import { fetchDerivativesIndicators } from '../indicators/market';
+import { DEFAULT_TIMEFRAMES, analyzeTimeframe } from '../indicators/timeframes';
+
+export type MarketData = Awaited<ReturnType<typeof gatherMarketData>>;
+
+/**
+ * 读取一个周期的K线（缓存优先）
+ */
+async function loadKlines(
+  binance: BinanceClient,
+  symbol: string,
+  interval: string,
+  candles?: CandleStore
+): Promise<Kline[]> {
+  return (
+    candles?.getCandles(symbol, interval) ??
+    (await binance.getKlines(symbol, interval, 200)).map((k) => ({
+      open: parseFloat(k.open),
+      high: parseFloat(k.high),
+      low: parseFloat(k.low),
+      close: parseFloat(k.close),
+      volume: parseFloat(k.volume),
+      timestamp: k.openTime,
+    }))
+  );
+}
+
+/**
+ * 收集市场数据和计算指标
+ * 主指标基于1h K线，timeframes 中的每个周期另算一份多周期快照
+ */
+export async function gatherMarketData(
+  binance: BinanceClient,
+  symbol: string,
+  candles?: CandleStore,
+  timeframes: string[] = DEFAULT_TIMEFRAMES
+) {
+  // 获取K线数据
+  const klinesData = await loadKlines(binance, symbol, '1h', candles);
+
+  // 多周期快照（1h 复用主序列）
+  const timeframeSnapshots = await Promise.all(
+    timeframes.map(async (interval) =>
+      analyzeTimeframe(
+        interval,
+        interval === '1h' ? klinesData : await loadKlines(binance, symbol, interval, candles)
+      )
+    )
+  );
+
+  // 计算所有指标
+  const indicators = calculateAllIndicators(klinesData);
+
+  // 获取当前价格
+  const currentPrice = candles?.getLastPrice(symbol) ?? (await binance.getCurrentPrice(symbol));
+
+  // 获取24h行情
+  const streamTicker = candles?.getTicker(symbol);
+  const ticker = streamTicker ? null : await binance.get24hrTicker(symbol);
+
+  // 资金费率、持仓量、多空比
+  const derivatives = await fetchDerivativesIndicators(binance, symbol, {
+    liveFundingRate: candles?.getFundingRate(symbol),
+  });
+
+  return {
+    symbol,
+    currentPrice,
+    indicators: {
+      rsi: getLatest(indicators.rsi),
+      macd: getLatest(indicators.macd.macd),
+      macdSignal: getLatest(indicators.macd.signal),
+      macdHistogram: getLatest(indicators.macd.histogram),
+      ema20: getLatest(indicators.ema20),
+      ema50: getLatest(indicators.ema50),
+      ema200: getLatest(indicators.ema200),
+      bollingerUpper: getLatest(indicators.bollingerBands.upper),
+      bollingerMiddle: getLatest(indicators.bollingerBands.middle),
+      bollingerLower: getLatest(indicators.bollingerBands.lower),
+      atr: getLatest(indicators.atr),
+      ...derivatives,
+    },
+    trend: indicators.trend,
+    timeframes: timeframeSnapshots,
+    support: indicators.supportResistance.support,
+    resistance: indicators.supportResistance.resistance,
+    klines: klinesData, // 1h K线，用于仓位计算（ATR、波动率）
+    closes: klinesData.map((k) => k.close), // 1h收盘价，用于组合相关性
+    volume24h: streamTicker ? streamTicker.volume24h : parseFloat(ticker.volume),
+    priceChange24h: streamTicker ? streamTicker.priceChange24h : parseFloat(ticker.priceChangePercent),
+    timestamp: Date.now(),
+  };
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+import { calculateMaxDrawdown, calculateSharpe } from './performance';
+
+vi.mock('../database/client', () => ({ prisma: {} }));
+
+const HOUR_MS = 60 * 60 * 1000;
+const YEAR_MS = 365 * 24 * HOUR_MS;
+
+const curve = (values: number[], interval: number = HOUR_MS) =>
+  values.map((value, i) => ({ value, time: i * interval }));
+
+describe('calculateSharpe', () => {
+  it('returns 0 for too few points', () => {
+    expect(calculateSharpe(curve([100, 110]))).toBe(0);
+  });
+
+  it('returns 0 when returns have no variance', () => {
+    expect(calculateSharpe(curve([100, 100, 100, 100]))).toBe(0);
+    // 等比增长的收益率只差浮点误差
+    expect(calculateSharpe(curve([100, 110, 121, 133.1]))).toBe(0);
+  });
+
+  it('annualizes by the average snapshot interval', () => {
+    const equity = curve([100, 110, 99, 108.9]);
+    const returns = [0.1, -0.1, 0.1];
+    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+    const std = Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / returns.length);
+
+    expect(calculateSharpe(equity)).toBeCloseTo((mean / std) * Math.sqrt(YEAR_MS / HOUR_MS), 6);
+  });
+
+  it('is negative for a losing curve', () => {
+    expect(calculateSharpe(curve([100, 95, 96, 90]))).toBeLessThan(0);
+  });
+});
+
+describe('calculateMaxDrawdown', () => {
+  it('returns 0 for a rising curve', () => {
+    expect(calculateMaxDrawdown([100, 105, 110])).toBe(0);
+  });
+
+  it('measures the deepest fall from a running peak', () => {
+    expect(calculateMaxDrawdown([100, 120, 90, 130, 117])).toBeCloseTo(25, 10);
+  });
+
+  it('ignores an empty curve', () => {
+    expect(calculateMaxDrawdown([])).toBe(0);
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * 性能统计服务
+ * 基于成交记录和性能快照计算模型的真实表现
+ */
+
+import { prisma } from '../database/client';
+
+export interface PerformanceMetrics {
+  totalReturn: number; // 百分比
+  sharpeRatio: number;
+  winRate: number; // 百分比
+  maxDrawdown: number; // 百分比
+  totalTrades: number; // 已平仓交易数
+  winningTrades: number;
+  losingTrades: number;
+  averageWin: number;
+  averageLoss: number; // 绝对值
+  currentDrawdown: number; // 当前权益相对历史峰值的回撤百分比
+  realizedPnL: number; // 含已结算资金费
+  unrealizedPnL: number;
+  feesPaid: number;
+  fundingFees: number; // 累计资金费（负数为支付）
+  portfolioValue: number;
+}
+
+export interface PromptPerformance {
+  promptVersion: string; // "name@v3"、"builtin"；功能上线前的记录为 "unversioned"
+  decisions: number;
+  executedDecisions: number;
+  averageConfidence: number;
+  closedTrades: number; // 平仓/减仓成交数
+  winRate: number; // 百分比
+  realizedPnL: number; // 平仓盈亏 + 资金费
+  feesPaid: number;
+  netPnL: number; // realizedPnL - feesPaid
+  averagePnL: number; // 每笔平仓的净盈亏
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const UNVERSIONED = 'unversioned';
+
+/**
+ * 年化夏普比率（按快照平均间隔折算）
+ */
+export function calculateSharpe(equity: Array<{ value: number; time: number }>): number {
+  if (equity.length < 3) return 0;
+
+  const returns: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    const prev = equity[i - 1].value;
+    if (prev > 0) {
+      returns.push(equity[i].value / prev - 1);
+    }
+  }
+
+  if (returns.length < 2) return 0;
+
+  const avgReturn = returns.reduce((a, b) => a + b, 0) / returns.length;
+  const stdDev = Math.sqrt(
+    returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / returns.length
+  );
+  // 收益率恒定时只剩浮点误差，不能当作波动
+  if (stdDev < 1e-12) return 0;
+
+  const avgInterval = (equity[equity.length - 1].time - equity[0].time) / (equity.length - 1);
+  const periodsPerYear = avgInterval > 0 ? YEAR_MS / avgInterval : 0;
+
+  return (avgReturn / stdDev) * Math.sqrt(periodsPerYear);
+}
+
+/**
+ * 最大回撤（百分比）
+ */
+export function calculateMaxDrawdown(values: number[]): number {
+  let peak = 0;
+  let maxDrawdown = 0;
+
+  values.forEach((value) => {
+    if (value > peak) {
+      peak = value;
+    }
+    if (peak > 0) {
+      const drawdown = ((peak - value) / peak) * 100;
+      if (drawdown > maxDrawdown) {
+        maxDrawdown = drawdown;
+      }
+    }
+  });
+
+  return maxDrawdown;
+}
+
+export class PerformanceService {
+  /**
+   * 计算模型的性能指标
+   */
+  async getMetrics(modelId: string): Promise<PerformanceMetrics> {
+    const [account, closedTrades, fees, funding, openFunding, snapshots] = await Promise.all([
+      prisma.account.findUnique({
+        where: { modelId },
+        include: { positions: { where: { status: 'OPEN' } } },
+      }),
+      prisma.trade.findMany({
+        where: { modelId, pnl: { not: null } },
+        select: { pnl: true },
+      }),
+      prisma.trade.aggregate({
+        where: { modelId },
+        _sum: { fee: true },
+      }),
+      prisma.fundingPayment.aggregate({
+        where: { modelId },
+        _sum: { amount: true },
+      }),
+      // 已平仓持仓的资金费已计入平仓成交的盈亏
+      prisma.position.aggregate({
+        where: { account: { modelId }, closeTrade: { is: null } },
+        _sum: { fundingFees: true },
+      }),
+      prisma.performanceSnapshot.findMany({
+        where: { modelId },
+        orderBy: { timestamp: 'asc' },
+        select: { portfolioValue: true, timestamp: true },
+      }),
+    ]);
+
+    const initialBalance = account?.initialBalance ?? 0;
+    const feesPaid = fees._sum.fee ?? 0;
+    const fundingFees = funding._sum.amount ?? 0;
+
+    const wins = closedTrades.filter((t) => (t.pnl ?? 0) > 0).map((t) => t.pnl!);
+    const losses = closedTrades.filter((t) => (t.pnl ?? 0) < 0).map((t) => Math.abs(t.pnl!));
+    const winningTrades = wins.length;
+    const losingTrades = losses.length;
+    const realizedPnL =
+      closedTrades.reduce((sum, t) => sum + (t.pnl ?? 0), 0) + (openFunding._sum.fundingFees ?? 0);
+    const unrealizedPnL = (account?.positions || []).reduce(
+      (sum, p) => sum + p.unrealizedPnL,
+      0
+    );
+
+    const portfolioValue = initialBalance + realizedPnL - feesPaid + unrealizedPnL;
+    const totalReturn =
+      initialBalance > 0 ? ((portfolioValue - initialBalance) / initialBalance) * 100 : 0;
+
+    // 权益曲线 = 历史快照 + 当前值
+    const equity = [
+      ...snapshots.map((s) => ({ value: s.portfolioValue, time: s.timestamp.getTime() })),
+      { value: portfolioValue, time: Date.now() },
+    ];
+
+    const peak = Math.max(...equity.map((e) => e.value));
+
+    return {
+      totalReturn,
+      sharpeRatio: calculateSharpe(equity),
+      winRate: closedTrades.length > 0 ? (winningTrades / closedTrades.length) * 100 : 0,
+      maxDrawdown: calculateMaxDrawdown(equity.map((e) => e.value)),
+      totalTrades: closedTrades.length,
+      winningTrades,
+      losingTrades,
+      averageWin: winningTrades > 0 ? wins.reduce((sum, v) => sum + v, 0) / winningTrades : 0,
+      averageLoss: losingTrades > 0 ? losses.reduce((sum, v) => sum + v, 0) / losingTrades : 0,
+      currentDrawdown: peak > 0 ? Math.max(0, ((peak - portfolioValue) / peak) * 100) : 0,
+      realizedPnL,
+      unrealizedPnL,
+      feesPaid,
+      fundingFees,
+      portfolioValue,
+    };
+  }
+
+  /**
+   * 写入性能快照并同步账户汇总字段
+   */
+  async recordSnapshot(modelId: string): Promise<PerformanceMetrics> {
+    const metrics = await this.getMetrics(modelId);
+    const account = await prisma.account.findUnique({ where: { modelId } });
+
+    if (!account) return metrics;
+
+    const openPositions = await prisma.position.count({
+      where: { accountId: account.id, status: 'OPEN' },
+    });
+
+    await prisma.$transaction([
+      prisma.performanceSnapshot.create({
+        data: {
+          modelId,
+          portfolioValue: metrics.portfolioValue,
+          totalReturn: metrics.totalReturn,
+          sharpeRatio: metrics.sharpeRatio,
+          maxDrawdown: metrics.maxDrawdown,
+          openPositions,
+          totalTrades: metrics.totalTrades,
+        },
+      }),
+      prisma.account.update({
+        where: { id: account.id },
+        data: this.accountSummary(account.initialBalance, metrics),
+      }),
+    ]);
+
+    return metrics;
+  }
+
+  /**
+   * 仅同步账户汇总字段（不写快照），用于实时成交推送
+   */
+  async syncAccount(modelId: string): Promise<PerformanceMetrics> {
+    const metrics = await this.getMetrics(modelId);
+    const account = await prisma.account.findUnique({ where: { modelId } });
+
+    if (!account) return metrics;
+
+    await prisma.account.update({
+      where: { id: account.id },
+      data: this.accountSummary(account.initialBalance, metrics),
+    });
+
+    return metrics;
+  }
+
+  /**
+   * 按提示词版本对比决策和已实现表现（A/B 分流评估）
+   * 成交归属于开仓决策使用的版本，modelId 不传时统计所有模型
+   */
+  async getPromptComparison(modelId?: string): Promise<PromptPerformance[]> {
+    const modelFilter = modelId ? { modelId } : {};
+
+    const [decisions, executed, trades, closedTrades, funding] = await Promise.all([
+      prisma.aIDecision.groupBy({
+        by: ['promptVersion'],
+        where: modelFilter,
+        _count: { _all: true },
+        _avg: { confidence: true },
+      }),
+      prisma.aIDecision.groupBy({
+        by: ['promptVersion'],
+        where: { ...modelFilter, executed: true },
+        _count: { _all: true },
+      }),
+      prisma.trade.groupBy({
+        by: ['promptVersion'],
+        where: modelFilter,
+        _sum: { fee: true },
+      }),
+      prisma.trade.findMany({
+        where: { ...modelFilter, pnl: { not: null } },
+        select: { promptVersion: true, pnl: true },
+      }),
+      // 已平仓持仓的资金费已计入平仓成交的盈亏
+      prisma.position.groupBy({
+        by: ['promptVersion'],
+        where: { ...(modelId ? { account: { modelId } } : {}), closeTrade: { is: null } },
+        _sum: { fundingFees: true },
+      }),
+    ]);
+
+    const stats = new Map<string, PromptPerformance>();
+    const entry = (version: string | null): PromptPerformance => {
+      const key = version ?? UNVERSIONED;
+      if (!stats.has(key)) {
+        stats.set(key, {
+          promptVersion: key,
+          decisions: 0,
+          executedDecisions: 0,
+          averageConfidence: 0,
+          closedTrades: 0,
+          winRate: 0,
+          realizedPnL: 0,
+          feesPaid: 0,
+          netPnL: 0,
+          averagePnL: 0,
+        });
+      }
+      return stats.get(key)!;
+    };
+
+    decisions.forEach((d) => {
+      const e = entry(d.promptVersion);
+      e.decisions = d._count._all;
+      e.averageConfidence = d._avg.confidence ?? 0;
+    });
+    executed.forEach((d) => {
+      entry(d.promptVersion).executedDecisions = d._count._all;
+    });
+    trades.forEach((t) => {
+      entry(t.promptVersion).feesPaid = t._sum.fee ?? 0;
+    });
+    funding.forEach((f) => {
+      entry(f.promptVersion).realizedPnL += f._sum.fundingFees ?? 0;
+    });
+
+    const wins = new Map<string, number>();
+    closedTrades.forEach((t) => {
+      const e = entry(t.promptVersion);
+      e.closedTrades++;
+      e.realizedPnL += t.pnl ?? 0;
+      if ((t.pnl ?? 0) > 0) wins.set(e.promptVersion, (wins.get(e.promptVersion) ?? 0) + 1);
+    });
+
+    return Array.from(stats.values())
+      .map((e) => {
+        const netPnL = e.realizedPnL - e.feesPaid;
+        return {
+          ...e,
+          winRate: e.closedTrades > 0 ? ((wins.get(e.promptVersion) ?? 0) / e.closedTrades) * 100 : 0,
+          netPnL,
+          averagePnL: e.closedTrades > 0 ? netPnL / e.closedTrades : 0,
+        };
+      })
+      .sort((a, b) => b.netPnL - a.netPnL);
+  }
+
+  private accountSummary(initialBalance: number, metrics: PerformanceMetrics) {
+    return {
+      balance: initialBalance + metrics.realizedPnL - metrics.feesPaid,
+      totalValue: metrics.portfolioValue,
+      unrealizedPnL: metrics.unrealizedPnL,
+      realizedPnL: metrics.realizedPnL,
+      totalReturn: metrics.totalReturn,
+      sharpeRatio: metrics.sharpeRatio,
+      maxDrawdown: metrics.maxDrawdown,
+      winRate: metrics.winRate,
+      totalTrades: metrics.totalTrades,
+      winningTrades: metrics.winningTrades,
+      losingTrades: metrics.losingTrades,
+      feesPaid: metrics.feesPaid,
+    };
+  }
+}
+
+export const performanceService = new PerformanceService();
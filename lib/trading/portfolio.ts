@@ -0,0 +1,134 @@
+/**
+ * 组合风险预算
+ * 多标的交易时限制总敞口、相关敞口和同时持仓数量
+ */
+
+import { TradingError, ErrorType } from '../utils/error-handler';
+import { pickDefined } from '../utils/options';
+
+export interface PortfolioLimits {
+  maxPositions: number; // 最大同时持仓数
+  maxTotalExposure: number; // 总名义敞口 / 账户权益（倍数）
+  maxCorrelatedExposure: number; // 同向相关标的名义敞口 / 账户权益（倍数）
+  correlationThreshold: number; // 收益率相关系数超过该值视为相关
+}
+
+export interface ExposurePosition {
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  notional: number;
+}
+
+export interface PortfolioSnapshot {
+  equity: number;
+  positions: ExposurePosition[];
+  closes: Record<string, number[]>; // 各标的收盘价序列
+}
+
+export const DEFAULT_PORTFOLIO_LIMITS: PortfolioLimits = {
+  maxPositions: 3,
+  maxTotalExposure: 3,
+  maxCorrelatedExposure: 2,
+  correlationThreshold: 0.7,
+};
+
+/**
+ * 收益率序列的皮尔逊相关系数（按末尾对齐）
+ */
+export function calculateCorrelation(closesA: number[], closesB: number[]): number {
+  const length = Math.min(closesA.length, closesB.length);
+  if (length < 3) return 0;
+
+  const toReturns = (closes: number[]) => {
+    const tail = closes.slice(-length);
+    const returns: number[] = [];
+    for (let i = 1; i < tail.length; i++) {
+      returns.push(tail[i - 1] > 0 ? tail[i] / tail[i - 1] - 1 : 0);
+    }
+    return returns;
+  };
+
+  const a = toReturns(closesA);
+  const b = toReturns(closesB);
+  const meanA = a.reduce((sum, v) => sum + v, 0) / a.length;
+  const meanB = b.reduce((sum, v) => sum + v, 0) / b.length;
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < a.length; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += Math.pow(a[i] - meanA, 2);
+    varianceB += Math.pow(b[i] - meanB, 2);
+  }
+
+  if (varianceA === 0 || varianceB === 0) return 0;
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
+
+export class PortfolioRiskManager {
+  private limits: PortfolioLimits;
+
+  constructor(limits: Partial<PortfolioLimits> = {}) {
+    this.limits = { ...DEFAULT_PORTFOLIO_LIMITS, ...pickDefined(limits) };
+  }
+
+  getLimits(): PortfolioLimits {
+    return this.limits;
+  }
+
+  /**
+   * 检查新开仓（或加仓）是否超出组合限制，超出时抛出 TRADING_POSITION_LIMIT
+   */
+  checkNewPosition(candidate: ExposurePosition, portfolio: PortfolioSnapshot): void {
+    const { equity, positions, closes } = portfolio;
+    const { maxPositions, maxTotalExposure, maxCorrelatedExposure, correlationThreshold } =
+      this.limits;
+
+    if (equity <= 0) {
+      throw new TradingError(ErrorType.TRADING_POSITION_LIMIT, 'Portfolio equity is zero');
+    }
+
+    // 1. 同时持仓数量（加仓不占新名额）
+    const isNewSymbol = !positions.some((p) => p.symbol === candidate.symbol);
+    if (isNewSymbol && positions.length >= maxPositions) {
+      throw new TradingError(
+        ErrorType.TRADING_POSITION_LIMIT,
+        `Max concurrent positions reached (${positions.length}/${maxPositions})`,
+        { details: { symbol: candidate.symbol } }
+      );
+    }
+
+    // 2. 总名义敞口
+    const totalExposure =
+      positions.reduce((sum, p) => sum + p.notional, 0) + candidate.notional;
+    if (totalExposure > equity * maxTotalExposure) {
+      throw new TradingError(
+        ErrorType.TRADING_POSITION_LIMIT,
+        `Total exposure $${totalExposure.toFixed(2)} exceeds ${maxTotalExposure}x equity ($${(equity * maxTotalExposure).toFixed(2)})`,
+        { details: { symbol: candidate.symbol } }
+      );
+    }
+
+    // 3. 同向相关敞口：正相关标的同向持仓视为同一风险
+    const correlated = positions.filter((p) => {
+      if (p.symbol === candidate.symbol) return p.side === candidate.side;
+      if (p.side !== candidate.side) return false;
+      const a = closes[p.symbol];
+      const b = closes[candidate.symbol];
+      return !!a && !!b && calculateCorrelation(a, b) >= correlationThreshold;
+    });
+
+    const correlatedExposure =
+      correlated.reduce((sum, p) => sum + p.notional, 0) + candidate.notional;
+    if (correlated.length > 0 && correlatedExposure > equity * maxCorrelatedExposure) {
+      const symbols = Array.from(new Set([candidate.symbol, ...correlated.map((p) => p.symbol)]));
+      throw new TradingError(
+        ErrorType.TRADING_POSITION_LIMIT,
+        `Correlated ${candidate.side} exposure $${correlatedExposure.toFixed(2)} ` +
+          `(${symbols.join(', ')}) exceeds ${maxCorrelatedExposure}x equity`,
+        { details: { symbol: candidate.symbol } }
+      );
+    }
+  }
+}
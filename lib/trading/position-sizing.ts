@@ -0,0 +1,242 @@
+/**
+ * 仓位计算
+ * 按模型选择的方法覆盖或收敛AI建议的仓位、杠杆和止损止盈：
+ * 固定比例风险、ATR倍数止损、按回撤折减的凯利比例、波动率目标
+ */
+
+import { Kline, calculateATR, getLatest } from '../indicators/technical';
+import { TradingError, ErrorType } from '../utils/error-handler';
+import { pickDefined } from '../utils/options';
+
+export const SIZING_METHODS = ['ai', 'fixed_fractional', 'atr', 'kelly', 'volatility_target'] as const;
+
+export type SizingMethod = (typeof SIZING_METHODS)[number];
+
+export interface SizingParams {
+  riskPercent: number; // 每笔止损时亏损的权益百分比（固定比例 / ATR，凯利样本不足时使用）
+  atrPeriod: number;
+  atrMultiplier: number; // 止损距离 = ATR × 倍数
+  rewardRisk: number; // ATR 方法的止盈距离 = 止损距离 × 盈亏比
+  kellyFraction: number; // 分数凯利（0.5 = 半凯利）
+  kellyMinTrades: number; // 样本不足时不放大，只按 riskPercent
+  maxDrawdown: number; // 当前回撤达到该百分比时凯利仓位降为0
+  targetVolatility: number; // 年化目标波动率（百分比）
+  maxLeverage: number;
+  maxPositionPercent: number; // 单笔保证金占可用余额上限（百分比）
+}
+
+export const DEFAULT_SIZING_PARAMS: SizingParams = {
+  riskPercent: 1,
+  atrPeriod: 14,
+  atrMultiplier: 2,
+  rewardRisk: 2,
+  kellyFraction: 0.5,
+  kellyMinTrades: 20,
+  maxDrawdown: 30,
+  targetVolatility: 50,
+  maxLeverage: 30,
+  maxPositionPercent: 100,
+};
+
+export interface SizingStats {
+  winRate: number; // 百分比
+  averageWin: number;
+  averageLoss: number; // 绝对值
+  totalTrades: number;
+  currentDrawdown: number; // 百分比
+}
+
+export interface SizingInput {
+  price: number;
+  balance: number; // 可用余额
+  equity: number; // 账户权益（含占用保证金）
+  positionSize: number; // AI建议的保证金比例
+  leverage: number; // AI建议的杠杆
+  stopLoss: number; // AI建议的止损百分比
+  takeProfit: number; // AI建议的止盈百分比
+  klines?: Kline[]; // ATR 和波动率使用的K线
+  stats?: SizingStats; // 凯利使用的历史表现
+  fixedLeverage?: number; // 加仓时沿用持仓杠杆
+}
+
+export interface SizingResult {
+  method: SizingMethod;
+  notional: number; // 下单名义价值
+  positionSize: number; // 实际保证金比例
+  leverage: number;
+  stopLoss: number; // 止损百分比
+  takeProfit: number; // 止盈百分比
+  notes: string[]; // 对AI建议的调整说明
+}
+
+export function isSizingMethod(method: string): method is SizingMethod {
+  return (SIZING_METHODS as readonly string[]).includes(method);
+}
+
+/**
+ * 年化已实现波动率（百分比，按K线间隔折算）
+ */
+export function realizedVolatility(klines: Kline[]): number | null {
+  if (klines.length < 3) return null;
+
+  const returns: number[] = [];
+  for (let i = 1; i < klines.length; i++) {
+    if (klines[i - 1].close > 0) {
+      returns.push(Math.log(klines[i].close / klines[i - 1].close));
+    }
+  }
+  if (returns.length < 2) return null;
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1);
+  const interval = (klines[klines.length - 1].timestamp - klines[0].timestamp) / (klines.length - 1);
+  if (interval <= 0) return null;
+
+  const periodsPerYear = (365 * 24 * 60 * 60 * 1000) / interval;
+  return Math.sqrt(variance * periodsPerYear) * 100;
+}
+
+/**
+ * 凯利比例 f* = p - (1 - p) / b，b 为平均盈亏比
+ */
+export function kellyFraction(stats: SizingStats): number {
+  if (stats.averageLoss <= 0 || stats.averageWin <= 0) return 0;
+
+  const p = stats.winRate / 100;
+  const b = stats.averageWin / stats.averageLoss;
+  return p - (1 - p) / b;
+}
+
+export class PositionSizer {
+  private method: SizingMethod;
+  private params: SizingParams;
+
+  constructor(method: SizingMethod = 'ai', params: Partial<SizingParams> = {}) {
+    this.method = method;
+    // 未配置或非数字的项保留默认值
+    this.params = {
+      ...DEFAULT_SIZING_PARAMS,
+      ...pickDefined(params, (value) => typeof value === 'number' && isFinite(value)),
+    };
+  }
+
+  getMethod(): SizingMethod {
+    return this.method;
+  }
+
+  /**
+   * 计算下单规模
+   */
+  size(input: SizingInput): SizingResult {
+    const notes: string[] = [];
+    let stopLoss = input.stopLoss;
+    let takeProfit = input.takeProfit;
+    const aiNotional = (input.balance * input.positionSize) / 100 * input.leverage;
+    let notional: number;
+
+    switch (this.method) {
+      case 'fixed_fractional': {
+        notional = this.riskNotional(input.equity, this.params.riskPercent, stopLoss);
+        break;
+      }
+
+      case 'atr': {
+        const atr = input.klines ? getLatest(calculateATR(input.klines, this.params.atrPeriod)) : null;
+        if (atr && atr > 0 && input.price > 0) {
+          stopLoss = ((atr * this.params.atrMultiplier) / input.price) * 100;
+          takeProfit = stopLoss * this.params.rewardRisk;
+          notes.push(`ATR stop ${stopLoss.toFixed(2)}% / target ${takeProfit.toFixed(2)}%`);
+        } else {
+          notes.push('ATR unavailable, using AI stop');
+        }
+        notional = this.riskNotional(input.equity, this.params.riskPercent, stopLoss);
+        break;
+      }
+
+      case 'kelly': {
+        const stats = input.stats;
+        let riskPercent = this.params.riskPercent;
+
+        if (stats && stats.totalTrades >= this.params.kellyMinTrades) {
+          const kelly = kellyFraction(stats) * this.params.kellyFraction;
+          const drawdownScale = Math.max(0, 1 - stats.currentDrawdown / this.params.maxDrawdown);
+          riskPercent = Math.max(0, kelly * drawdownScale * 100);
+          notes.push(
+            `Kelly risk ${riskPercent.toFixed(2)}% (edge ${(kelly * 100).toFixed(2)}%, drawdown ${stats.currentDrawdown.toFixed(1)}%)`
+          );
+
+          if (riskPercent <= 0) {
+            throw new TradingError(
+              ErrorType.TRADING_POSITION_LIMIT,
+              `Kelly sizing gives no position (win rate ${stats.winRate.toFixed(1)}%, drawdown ${stats.currentDrawdown.toFixed(1)}%)`
+            );
+          }
+        }
+
+        // 凯利只收敛AI建议，不放大
+        notional = Math.min(aiNotional, this.riskNotional(input.equity, riskPercent, stopLoss));
+        break;
+      }
+
+      case 'volatility_target': {
+        const volatility = input.klines ? realizedVolatility(input.klines) : null;
+        if (volatility && volatility > 0) {
+          notional = (input.equity * this.params.targetVolatility) / volatility;
+          notes.push(`Realized volatility ${volatility.toFixed(1)}%, target ${this.params.targetVolatility}%`);
+        } else {
+          notional = aiNotional;
+          notes.push('Volatility unavailable, using AI size');
+        }
+        break;
+      }
+
+      default:
+        notional = aiNotional;
+    }
+
+    return { method: this.method, stopLoss, takeProfit, notes, ...this.fit(notional, input, notes) };
+  }
+
+  /**
+   * 止损时亏损 riskPercent% 权益对应的名义价值
+   */
+  private riskNotional(equity: number, riskPercent: number, stopLoss: number): number {
+    return stopLoss > 0 ? (equity * riskPercent) / stopLoss : 0;
+  }
+
+  /**
+   * 把目标名义价值换算为杠杆和保证金比例：优先沿用AI杠杆，保证金不足时提高杠杆，仍不足时缩小仓位
+   */
+  private fit(
+    target: number,
+    input: SizingInput,
+    notes: string[]
+  ): { notional: number; positionSize: number; leverage: number } {
+    const maxMargin = (input.balance * this.params.maxPositionPercent) / 100;
+    let leverage = input.fixedLeverage ?? Math.max(1, Math.min(this.params.maxLeverage, input.leverage));
+    let notional = target;
+
+    if (leverage !== (input.fixedLeverage ?? input.leverage)) {
+      notes.push(`Leverage clamped ${input.leverage}x -> ${leverage}x`);
+    }
+
+    if (notional / leverage > maxMargin && !input.fixedLeverage && maxMargin > 0) {
+      const needed = Math.min(this.params.maxLeverage, Math.ceil(notional / maxMargin));
+      if (needed > leverage) {
+        notes.push(`Leverage raised ${leverage}x -> ${needed}x`);
+        leverage = needed;
+      }
+    }
+
+    if (notional / leverage > maxMargin) {
+      notional = maxMargin * leverage;
+      notes.push(`Size capped at ${this.params.maxPositionPercent}% of balance`);
+    }
+
+    return {
+      notional,
+      positionSize: input.balance > 0 ? (notional / leverage / input.balance) * 100 : 0,
+      leverage,
+    };
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * 持仓/挂单对账服务
+ * 定期比对交易所持仓、挂单与 Position 表：撤销孤立的保护单，补记在交易所侧触发的平仓
+ */
+
+import type { Position, UserTrade } from '../binance/client';
+import type { ExecutionVenue } from '../execution/venue';
+import { tradeRecorder } from './recorder';
+
+type PositionSide = 'LONG' | 'SHORT';
+
+export interface ReconcileReport {
+  cancelledOrders: Array<{ symbol: string; orderId: number | string; type: string }>;
+  closedPositions: Array<{
+    positionId: string;
+    modelId: string;
+    symbol: string;
+    side: PositionSide;
+    pnl: number | null; // 找不到成交时为 null
+    fills: number;
+  }>;
+  errors: string[];
+}
+
+export interface ReconcilerOptions {
+  modelId?: string; // 仅对账该模型的持仓（模拟盘账户按模型隔离）
+}
+
+// userTrades 单次查询最多覆盖7天
+const USER_TRADES_WINDOW_MS = 7 * 24 * 60 * 60 * 1000 - 60 * 1000;
+const PROTECTIVE_TYPES = ['STOP_MARKET', 'TAKE_PROFIT_MARKET', 'STOP', 'TAKE_PROFIT', 'TRAILING_STOP_MARKET'];
+
+function positionKey(symbol: string, side: PositionSide): string {
+  return `${symbol}:${side}`;
+}
+
+/**
+ * 交易所持仓方向（兼容单向持仓模式的 BOTH）
+ */
+function exchangePositionSide(position: Position): PositionSide {
+  if (position.positionSide === 'LONG' || position.positionSide === 'SHORT') {
+    return position.positionSide;
+  }
+  return parseFloat(position.positionAmt) > 0 ? 'LONG' : 'SHORT';
+}
+
+/**
+ * 挂单所保护的持仓方向
+ */
+function protectedSide(order: any): PositionSide {
+  if (order.positionSide === 'LONG' || order.positionSide === 'SHORT') {
+    return order.positionSide;
+  }
+  return order.side === 'SELL' ? 'LONG' : 'SHORT';
+}
+
+export class PositionReconciler {
+  private venue: ExecutionVenue;
+  private modelId?: string;
+
+  constructor(venue: ExecutionVenue, options: ReconcilerOptions = {}) {
+    this.venue = venue;
+    this.modelId = options.modelId;
+  }
+
+  /**
+   * 执行一次对账
+   */
+  async reconcile(): Promise<ReconcileReport> {
+    const report: ReconcileReport = { cancelledOrders: [], closedPositions: [], errors: [] };
+
+    const positions = await this.venue.getPositions();
+    const openKeys = new Set(
+      positions.map((p) => positionKey(p.symbol, exchangePositionSide(p)))
+    );
+
+    await this.cancelOrphanedOrders(openKeys, report);
+    await this.closeMissingPositions(openKeys, report);
+
+    return report;
+  }
+
+  /**
+   * 撤销对应持仓已不存在的保护单（如止盈触发后残留的止损）
+   */
+  private async cancelOrphanedOrders(openKeys: Set<string>, report: ReconcileReport): Promise<void> {
+    const orders = await this.venue.getOpenOrders();
+
+    for (const order of orders) {
+      const isProtective =
+        order.reduceOnly || order.closePosition || PROTECTIVE_TYPES.includes(order.type);
+      if (!isProtective) continue;
+      if (openKeys.has(positionKey(order.symbol, protectedSide(order)))) continue;
+
+      try {
+        await this.venue.cancelOrder(order.symbol, order.orderId);
+        report.cancelledOrders.push({
+          symbol: order.symbol,
+          orderId: order.orderId,
+          type: order.type,
+        });
+      } catch (error: any) {
+        report.errors.push(`Cancel ${order.symbol} #${order.orderId} failed: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * 交易所已无持仓但数据库仍为 OPEN 的记录：按成交历史补记平仓
+   */
+  private async closeMissingPositions(openKeys: Set<string>, report: ReconcileReport): Promise<void> {
+    const stored = await tradeRecorder.findAllOpenPositions(this.modelId);
+
+    // 共享账户下多个模型可能持有同一标的同方向仓位，按组处理
+    const groups = new Map<string, typeof stored>();
+    stored.forEach((position) => {
+      const key = positionKey(position.symbol, position.side as PositionSide);
+      if (openKeys.has(key)) return;
+      groups.set(key, [...(groups.get(key) || []), position]);
+    });
+
+    for (const group of groups.values()) {
+      const { symbol } = group[0];
+      const side = group[0].side as PositionSide;
+
+      try {
+        const fills = await this.findClosingFills(symbol, side, group[0].openedAt);
+
+        if (fills.length === 0) {
+          for (const position of group) {
+            await tradeRecorder.markPositionClosed(position.id);
+            report.closedPositions.push({
+              positionId: position.id,
+              modelId: position.account.modelId,
+              symbol,
+              side,
+              pnl: null,
+              fills: 0,
+            });
+          }
+          continue;
+        }
+
+        const quantity = fills.reduce((sum, f) => sum + parseFloat(f.qty), 0);
+        const notional = fills.reduce((sum, f) => sum + parseFloat(f.price) * parseFloat(f.qty), 0);
+        const last = fills[fills.length - 1];
+
+        // 交易所已无持仓，按整仓平掉分摊
+        const allocations = await tradeRecorder.recordExchangeClose({
+          symbol,
+          side,
+          modelId: this.modelId,
+          price: quantity > 0 ? notional / quantity : group[0].entryPrice,
+          pnl: fills.reduce((sum, f) => sum + parseFloat(f.realizedPnl), 0),
+          fee: fills.reduce((sum, f) => sum + parseFloat(f.commission), 0),
+          orderId: last.orderId,
+          closedAt: new Date(last.time),
+          reason: 'Closed on exchange (stop loss / take profit), reconciled',
+        });
+
+        allocations.forEach((allocation) => {
+          report.closedPositions.push({
+            positionId: allocation.positionId,
+            modelId: allocation.modelId,
+            symbol,
+            side,
+            pnl: allocation.pnl,
+            fills: fills.length,
+          });
+        });
+      } catch (error: any) {
+        report.errors.push(`Reconcile ${symbol} ${side} failed: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * 查找持仓开立后尚未入账的平仓成交
+   */
+  private async findClosingFills(
+    symbol: string,
+    side: PositionSide,
+    openedAt: Date
+  ): Promise<UserTrade[]> {
+    const startTime = Math.max(openedAt.getTime(), Date.now() - USER_TRADES_WINDOW_MS);
+    const closingSide = side === 'LONG' ? 'SELL' : 'BUY';
+
+    const [trades, recorded] = await Promise.all([
+      this.venue.getUserTrades(symbol, startTime),
+      tradeRecorder.findRecordedOrderIds(symbol, new Date(startTime), this.modelId),
+    ]);
+
+    return trades
+      .filter(
+        (t) =>
+          t.side === closingSide &&
+          (t.positionSide === side || t.positionSide === 'BOTH') &&
+          !recorded.has(String(t.orderId))
+      )
+      .sort((a, b) => a.time - b.time);
+  }
+}
@@ -0,0 +1,546 @@
+/**
+ * 交易记录器
+ * 将每个交易周期的AI决策、成交和持仓写入数据库
+ */
+
+import { prisma } from '../database/client';
+import { AIDecisionOutput } from '../ai/base';
+import type { SizingResult } from './position-sizing';
+
+export interface DecisionSnapshot {
+  price: number;
+  rsi?: number | null;
+  macd?: number | null;
+  ema20?: number | null;
+  ema50?: number | null;
+}
+
+export interface DecisionRecord {
+  modelId: string;
+  symbol: string;
+  decision: AIDecisionOutput;
+  snapshot: DecisionSnapshot;
+  executed: boolean;
+  executionError?: string;
+  sizing?: SizingResult; // 仓位计算对AI建议的调整
+  liquidationPrice?: number; // 下单后持仓的预估强平价格
+}
+
+export interface OpenTradeRecord {
+  modelId: string;
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  price: number;
+  quantity: number;
+  leverage: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  fee?: number;
+  orderId?: string | number;
+  reasoning?: string;
+  confidence?: number;
+  promptVersion?: string; // 开仓决策使用的提示词版本
+  execution?: EntryExecution; // 入场成交质量
+}
+
+export interface EntryExecution {
+  style: string; // 执行方式
+  decisionPrice: number; // 决策时价格
+  slippage: number | null; // 相对决策价格的不利滑点（%），没有真实成交价时为 null
+}
+
+export interface CloseTradeRecord {
+  modelId: string;
+  symbol: string;
+  side: 'LONG' | 'SHORT'; // 被平持仓方向
+  price: number;
+  quantity: number;
+  entryPrice: number; // 数据库无持仓记录时使用
+  leverage: number;
+  fee?: number;
+  orderId?: string | number;
+  reasoning?: string;
+  confidence?: number;
+}
+
+export interface ScaleInRecord extends OpenTradeRecord {}
+
+export interface ReconciledCloseRecord {
+  positionId: string;
+  modelId: string;
+  symbol: string;
+  side: 'LONG' | 'SHORT'; // 被平持仓方向
+  price: number; // 平仓成交均价
+  quantity: number;
+  leverage: number;
+  entryPrice: number;
+  pnl: number; // 交易所返回的已实现盈亏
+  fee: number;
+  orderId?: string | number;
+  closedAt: Date;
+  reason: string;
+  remainingQuantity?: number; // 部分平仓（如部分强平）后的剩余数量
+}
+
+export interface ExchangeCloseRecord {
+  symbol: string;
+  side: 'LONG' | 'SHORT'; // 被平持仓方向
+  price: number; // 平仓成交均价
+  quantity?: number; // 成交数量，缺省视为整仓平掉
+  pnl: number; // 交易所返回的已实现盈亏（整单）
+  fee: number;
+  orderId?: string | number;
+  closedAt: Date;
+  reason: string;
+  modelId?: string; // 仅分摊到该模型的持仓
+}
+
+export interface ExchangeCloseAllocation {
+  positionId: string;
+  modelId: string;
+  quantity: number;
+  pnl: number;
+}
+
+// 默认吃单手续费率 (0.04%)
+const DEFAULT_TAKER_FEE = 0.0004;
+
+export class TradeRecorder {
+  /**
+   * 获取或创建模型账户
+   */
+  async ensureAccount(modelId: string) {
+    const existing = await prisma.account.findUnique({ where: { modelId } });
+    if (existing) return existing;
+
+    const model = await prisma.aIModel.findUnique({ where: { id: modelId } });
+    const initialCapital = model?.initialCapital ?? 20;
+
+    return await prisma.account.upsert({
+      where: { modelId },
+      update: {},
+      create: {
+        modelId,
+        balance: initialCapital,
+        initialBalance: initialCapital,
+        totalValue: initialCapital,
+      },
+    });
+  }
+
+  /**
+   * 记录AI决策及当时的指标快照
+   */
+  async recordDecision(record: DecisionRecord) {
+    const {
+      modelId,
+      symbol,
+      decision,
+      snapshot,
+      executed,
+      executionError,
+      sizing,
+      liquidationPrice,
+    } = record;
+
+    return await prisma.aIDecision.create({
+      data: {
+        modelId,
+        symbol,
+        action: decision.action,
+        confidence: decision.confidence,
+        reasoning: decision.reasoning,
+        positionSize: decision.positionSize,
+        leverage: decision.leverage,
+        stopLoss: decision.stopLoss,
+        takeProfit: decision.takeProfit,
+        price: snapshot.price,
+        rsi: snapshot.rsi ?? undefined,
+        macd: snapshot.macd ?? undefined,
+        ema20: snapshot.ema20 ?? undefined,
+        ema50: snapshot.ema50 ?? undefined,
+        executed,
+        executionError,
+        sizingMethod: sizing?.method,
+        sizingNotes: sizing && sizing.notes.length > 0 ? sizing.notes.join('; ') : undefined,
+        liquidationPrice,
+        promptVersion: decision.promptVersion,
+      },
+    });
+  }
+
+  /**
+   * 记录开仓成交，并创建关联的持仓
+   */
+  async recordOpenTrade(record: OpenTradeRecord) {
+    const account = await this.ensureAccount(record.modelId);
+    const notionalValue = record.quantity * record.price;
+    const fee = record.fee ?? notionalValue * DEFAULT_TAKER_FEE;
+
+    return await prisma.$transaction(async (tx) => {
+      const position = await tx.position.create({
+        data: {
+          accountId: account.id,
+          symbol: record.symbol,
+          side: record.side,
+          entryPrice: record.price,
+          quantity: record.quantity,
+          leverage: record.leverage,
+          stopLoss: record.stopLoss,
+          takeProfit: record.takeProfit,
+          promptVersion: record.promptVersion,
+        },
+      });
+
+      const trade = await tx.trade.create({
+        data: {
+          modelId: record.modelId,
+          symbol: record.symbol,
+          action: record.side === 'LONG' ? 'OPEN_LONG' : 'OPEN_SHORT',
+          side: record.side === 'LONG' ? 'BUY' : 'SELL',
+          price: record.price,
+          quantity: record.quantity,
+          leverage: record.leverage,
+          notionalValue,
+          fee,
+          orderId: record.orderId !== undefined ? String(record.orderId) : undefined,
+          reasoning: record.reasoning,
+          confidence: record.confidence,
+          promptVersion: record.promptVersion,
+          executionStyle: record.execution?.style,
+          decisionPrice: record.execution?.decisionPrice,
+          slippage: record.execution?.slippage,
+          openPositionId: position.id,
+        },
+      });
+
+      await tx.account.update({
+        where: { id: account.id },
+        data: { feesPaid: { increment: fee } },
+      });
+
+      return { position, trade };
+    });
+  }
+
+  /**
+   * 查找模型在某标的上的未平持仓
+   */
+  async findOpenPosition(modelId: string, symbol: string) {
+    return await prisma.position.findFirst({
+      where: { account: { modelId }, symbol, status: 'OPEN' },
+      orderBy: { openedAt: 'desc' },
+    });
+  }
+
+  /**
+   * 查找模型的全部未平持仓
+   */
+  async findOpenPositions(modelId: string) {
+    return await prisma.position.findMany({
+      where: { account: { modelId }, status: 'OPEN' },
+      orderBy: { openedAt: 'asc' },
+    });
+  }
+
+  /**
+   * 记录平仓成交（全部或部分）
+   * 全部平仓时关联 CloseTrade、将持仓标记为 CLOSED，并把持仓期间的资金费计入该笔盈亏
+   */
+  async recordCloseTrade(record: CloseTradeRecord) {
+    const account = await this.ensureAccount(record.modelId);
+    const position = await this.findOpenPosition(record.modelId, record.symbol);
+    const entryPrice = position?.entryPrice ?? record.entryPrice;
+    const leverage = position?.leverage ?? record.leverage;
+    const openQuantity = position?.quantity ?? record.quantity;
+    const isFullClose = record.quantity >= openQuantity - 1e-12;
+
+    const direction = record.side === 'LONG' ? 1 : -1;
+    const notionalValue = record.quantity * record.price;
+    const fee = record.fee ?? notionalValue * DEFAULT_TAKER_FEE;
+    // 与币安一致：已实现盈亏不含手续费，手续费单独记录；资金费在全部平仓时计入
+    const funding = position && isFullClose ? position.fundingFees : 0;
+    const pnl = (record.price - entryPrice) * record.quantity * direction + funding;
+    const margin = (entryPrice * record.quantity) / leverage;
+
+    return await prisma.$transaction(async (tx) => {
+      const trade = await tx.trade.create({
+        data: {
+          modelId: record.modelId,
+          symbol: record.symbol,
+          action: isFullClose ? 'CLOSE' : 'REDUCE',
+          side: record.side === 'LONG' ? 'SELL' : 'BUY',
+          price: record.price,
+          quantity: record.quantity,
+          leverage,
+          notionalValue,
+          fee,
+          pnl,
+          pnlPercent: margin > 0 ? (pnl / margin) * 100 : 0,
+          orderId: record.orderId !== undefined ? String(record.orderId) : undefined,
+          reasoning: record.reasoning,
+          confidence: record.confidence,
+          promptVersion: position?.promptVersion,
+          closePositionId: position && isFullClose ? position.id : undefined,
+        },
+      });
+
+      if (position) {
+        await tx.position.update({
+          where: { id: position.id },
+          data: isFullClose
+            ? { status: 'CLOSED', closedAt: new Date(), unrealizedPnL: 0 }
+            : { quantity: openQuantity - record.quantity },
+        });
+      }
+
+      await tx.account.update({
+        where: { id: account.id },
+        data: { feesPaid: { increment: fee } },
+      });
+
+      return trade;
+    });
+  }
+
+  /**
+   * 记录对账发现的平仓（止损止盈在交易所触发）
+   * 盈亏和手续费取自交易所成交记录，全部平仓时另计入持仓期间的资金费
+   */
+  async recordReconciledClose(record: ReconciledCloseRecord) {
+    const notionalValue = record.quantity * record.price;
+    const margin = (record.entryPrice * record.quantity) / record.leverage;
+    const isFullClose = !record.remainingQuantity || record.remainingQuantity <= 1e-12;
+
+    return await prisma.$transaction(async (tx) => {
+      const position = await tx.position.update({
+        where: { id: record.positionId },
+        data: isFullClose
+          ? { status: 'CLOSED', closedAt: record.closedAt, unrealizedPnL: 0 }
+          : { quantity: record.remainingQuantity },
+      });
+      await tx.account.update({
+        where: { id: position.accountId },
+        data: { feesPaid: { increment: record.fee } },
+      });
+
+      const pnl = record.pnl + (isFullClose ? position.fundingFees : 0);
+      return await tx.trade.create({
+        data: {
+          modelId: record.modelId,
+          symbol: record.symbol,
+          action: isFullClose ? 'CLOSE' : 'REDUCE',
+          side: record.side === 'LONG' ? 'SELL' : 'BUY',
+          price: record.price,
+          quantity: record.quantity,
+          leverage: record.leverage,
+          notionalValue,
+          fee: record.fee,
+          pnl,
+          pnlPercent: margin > 0 ? (pnl / margin) * 100 : 0,
+          orderId: record.orderId !== undefined ? String(record.orderId) : undefined,
+          reasoning: record.reason,
+          promptVersion: position.promptVersion,
+          executedAt: record.closedAt,
+          closePositionId: isFullClose ? record.positionId : undefined,
+        },
+      });
+    });
+  }
+
+  /**
+   * 记录交易所侧发生的平仓（保护单触发、强平、对账补记）
+   * 共享账户下同一标的同方向可能有多个模型的持仓，按持仓数量比例分摊成交、盈亏和手续费
+   */
+  async recordExchangeClose(record: ExchangeCloseRecord): Promise<ExchangeCloseAllocation[]> {
+    const positions = await prisma.position.findMany({
+      where: {
+        status: 'OPEN',
+        symbol: record.symbol,
+        side: record.side,
+        ...(record.modelId ? { account: { modelId: record.modelId } } : {}),
+      },
+      include: { account: { select: { modelId: true } } },
+      orderBy: { openedAt: 'asc' },
+    });
+
+    const totalQuantity = positions.reduce((sum, p) => sum + p.quantity, 0);
+    const isFullClose =
+      record.quantity === undefined || record.quantity >= totalQuantity - 1e-12;
+    const allocations: ExchangeCloseAllocation[] = [];
+
+    for (const position of positions) {
+      const ratio = totalQuantity > 0 ? position.quantity / totalQuantity : 0;
+      const quantity = isFullClose ? position.quantity : record.quantity! * ratio;
+      const pnl = record.pnl * ratio;
+
+      await this.recordReconciledClose({
+        positionId: position.id,
+        modelId: position.account.modelId,
+        symbol: record.symbol,
+        side: record.side,
+        price: record.price,
+        quantity,
+        leverage: position.leverage,
+        entryPrice: position.entryPrice,
+        pnl,
+        fee: record.fee * ratio,
+        orderId: record.orderId,
+        closedAt: record.closedAt,
+        reason: record.reason,
+        remainingQuantity: isFullClose ? undefined : position.quantity - quantity,
+      });
+
+      allocations.push({ positionId: position.id, modelId: position.account.modelId, quantity, pnl });
+    }
+
+    return allocations;
+  }
+
+  /**
+   * 按持仓数量分摊交易所推送的未实现盈亏（所有模型），返回涉及的模型
+   */
+  async allocateUnrealizedPnL(
+    symbol: string,
+    side: 'LONG' | 'SHORT',
+    unrealizedPnL: number
+  ): Promise<string[]> {
+    const positions = await prisma.position.findMany({
+      where: { status: 'OPEN', symbol, side },
+      include: { account: { select: { modelId: true } } },
+    });
+
+    const totalQuantity = positions.reduce((sum, p) => sum + p.quantity, 0);
+    if (totalQuantity <= 0) return [];
+
+    await prisma.$transaction(
+      positions.map((p) =>
+        prisma.position.update({
+          where: { id: p.id },
+          data: { unrealizedPnL: unrealizedPnL * (p.quantity / totalQuantity) },
+        })
+      )
+    );
+
+    return Array.from(new Set(positions.map((p) => p.account.modelId)));
+  }
+
+  /**
+   * 标记持仓已关闭（找不到对应成交时）
+   */
+  async markPositionClosed(positionId: string, closedAt: Date = new Date()) {
+    await prisma.position.update({
+      where: { id: positionId },
+      data: { status: 'CLOSED', closedAt, unrealizedPnL: 0 },
+    });
+  }
+
+  /**
+   * 查询所有模型的未平持仓（含所属模型）
+   */
+  async findAllOpenPositions(modelId?: string) {
+    return await prisma.position.findMany({
+      where: { status: 'OPEN', ...(modelId ? { account: { modelId } } : {}) },
+      include: { account: { select: { modelId: true } } },
+      orderBy: { openedAt: 'asc' },
+    });
+  }
+
+  /**
+   * 某标的自某时刻起已记录的订单号
+   * 不传 modelId 时查询所有模型（实盘共享账户订单号全局唯一；模拟盘各账户独立编号，需按模型过滤）
+   */
+  async findRecordedOrderIds(symbol: string, since: Date, modelId?: string): Promise<Set<string>> {
+    const trades = await prisma.trade.findMany({
+      where: {
+        symbol,
+        executedAt: { gte: since },
+        orderId: { not: null },
+        ...(modelId ? { modelId } : {}),
+      },
+      select: { orderId: true },
+    });
+    return new Set(trades.map((t) => t.orderId!));
+  }
+
+  /**
+   * 记录加仓成交，更新持仓均价和数量
+   */
+  async recordScaleIn(record: ScaleInRecord) {
+    const account = await this.ensureAccount(record.modelId);
+    const position = await this.findOpenPosition(record.modelId, record.symbol);
+    const notionalValue = record.quantity * record.price;
+    const fee = record.fee ?? notionalValue * DEFAULT_TAKER_FEE;
+
+    return await prisma.$transaction(async (tx) => {
+      const trade = await tx.trade.create({
+        data: {
+          modelId: record.modelId,
+          symbol: record.symbol,
+          action: 'ADD',
+          side: record.side === 'LONG' ? 'BUY' : 'SELL',
+          price: record.price,
+          quantity: record.quantity,
+          leverage: record.leverage,
+          notionalValue,
+          fee,
+          orderId: record.orderId !== undefined ? String(record.orderId) : undefined,
+          reasoning: record.reasoning,
+          confidence: record.confidence,
+          promptVersion: position?.promptVersion,
+          executionStyle: record.execution?.style,
+          decisionPrice: record.execution?.decisionPrice,
+          slippage: record.execution?.slippage,
+        },
+      });
+
+      if (position) {
+        const quantity = position.quantity + record.quantity;
+        await tx.position.update({
+          where: { id: position.id },
+          data: {
+            quantity,
+            entryPrice:
+              (position.entryPrice * position.quantity + record.price * record.quantity) / quantity,
+            stopLoss: record.stopLoss,
+            takeProfit: record.takeProfit,
+          },
+        });
+      }
+
+      await tx.account.update({
+        where: { id: account.id },
+        data: { feesPaid: { increment: fee } },
+      });
+
+      return trade;
+    });
+  }
+
+  /**
+   * 更新持仓的止损止盈价格
+   */
+  async updateProtection(
+    modelId: string,
+    symbol: string,
+    stopLoss?: number,
+    takeProfit?: number
+  ) {
+    await prisma.position.updateMany({
+      where: { account: { modelId }, symbol, status: 'OPEN' },
+      data: { stopLoss, takeProfit },
+    });
+  }
+
+  /**
+   * 同步持仓的未实现盈亏
+   */
+  async syncUnrealizedPnL(modelId: string, symbol: string, unrealizedPnL: number) {
+    await prisma.position.updateMany({
+      where: { account: { modelId }, symbol, status: 'OPEN' },
+      data: { unrealizedPnL },
+    });
+  }
+}
+
+export const tradeRecorder = new TradeRecorder();
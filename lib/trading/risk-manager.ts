@@ -0,0 +1,349 @@
+/**
+ * 下单前风控
+ * 所有开仓/加仓订单先经过 RiskManager：日内亏损、峰值回撤、单标的杠杆、连续亏损和日内交易次数，
+ * 触发限制时暂停该模型交易（原因写入 Config 表），并提供全局 kill switch 平掉所有持仓
+ */
+
+import { prisma } from '../database/client';
+import { performanceService } from './performance';
+import type { ExecutionVenue } from '../execution/venue';
+import { TradingError, ErrorType } from '../utils/error-handler';
+import { pickDefined } from '../utils/options';
+
+export interface RiskLimits {
+  maxDailyLoss: number; // 当日亏损占日初权益百分比
+  maxDrawdown: number; // 权益相对峰值的最大回撤百分比
+  maxLeverage: number; // 默认单标的最大杠杆
+  symbolLeverage: Record<string, number>; // 按标的覆盖最大杠杆
+  maxConsecutiveLosses: number;
+  maxTradesPerDay: number; // 每个UTC日的开仓/加仓次数
+}
+
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxDailyLoss: 10,
+  maxDrawdown: 30,
+  maxLeverage: 30,
+  symbolLeverage: {},
+  maxConsecutiveLosses: 5,
+  maxTradesPerDay: 20,
+};
+
+export type RiskLimitName =
+  | 'DAILY_LOSS'
+  | 'MAX_DRAWDOWN'
+  | 'CONSECUTIVE_LOSSES'
+  | 'MAX_TRADES'
+  | 'MANUAL'
+  | 'KILL_SWITCH';
+
+export interface TradingPause {
+  scope: string; // modelId 或 'global'
+  limit: RiskLimitName;
+  reason: string;
+  pausedAt: string;
+  until?: string; // 日内限制在下一个UTC日自动恢复
+  flatten?: boolean; // kill switch：各引擎发现后平掉自己场所的所有持仓
+}
+
+export interface RiskStatus {
+  modelId: string;
+  pause: TradingPause | null; // 生效中的暂停（全局优先）
+  dailyPnLPercent: number;
+  drawdown: number; // 百分比，自上次恢复以来的峰值起算
+  consecutiveLosses: number;
+  tradesToday: number;
+}
+
+export interface FlattenReport {
+  closed: Array<{ symbol: string; orders: number }>;
+  errors: string[];
+}
+
+export const GLOBAL_SCOPE = 'global';
+
+const PAUSE_PREFIX = 'risk.pause.';
+const RESUME_PREFIX = 'risk.resumedAt.';
+
+function startOfUtcDay(time: number = Date.now()): Date {
+  const date = new Date(time);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * 暂停状态存储与 kill switch（Config 表，worker 和 API 进程共享）
+ */
+class RiskControl {
+  /**
+   * 读取暂停状态，已过自动恢复时间的记录会被清除
+   */
+  async getPause(scope: string): Promise<TradingPause | null> {
+    const row = await prisma.config.findUnique({ where: { key: PAUSE_PREFIX + scope } });
+    if (!row) return null;
+
+    let pause: TradingPause;
+    try {
+      pause = JSON.parse(row.value);
+    } catch {
+      return { scope, limit: 'MANUAL', reason: row.value, pausedAt: row.updatedAt.toISOString() };
+    }
+
+    if (pause.until && Date.parse(pause.until) <= Date.now()) {
+      await prisma.config.deleteMany({ where: { key: PAUSE_PREFIX + scope } });
+      return null;
+    }
+    return pause;
+  }
+
+  /**
+   * 模型生效中的暂停（全局暂停优先）
+   */
+  async getActivePause(modelId: string): Promise<TradingPause | null> {
+    return (await this.getPause(GLOBAL_SCOPE)) ?? (await this.getPause(modelId));
+  }
+
+  async listPauses(): Promise<TradingPause[]> {
+    const rows = await prisma.config.findMany({ where: { key: { startsWith: PAUSE_PREFIX } } });
+    const pauses = await Promise.all(rows.map((r) => this.getPause(r.key.slice(PAUSE_PREFIX.length))));
+    return pauses.filter((p): p is TradingPause => p !== null);
+  }
+
+  async pause(
+    scope: string,
+    limit: RiskLimitName,
+    reason: string,
+    options: { until?: Date; flatten?: boolean } = {}
+  ): Promise<TradingPause> {
+    const pause: TradingPause = {
+      scope,
+      limit,
+      reason,
+      pausedAt: new Date().toISOString(),
+      until: options.until?.toISOString(),
+      flatten: options.flatten || undefined,
+    };
+
+    await prisma.config.upsert({
+      where: { key: PAUSE_PREFIX + scope },
+      create: { key: PAUSE_PREFIX + scope, value: JSON.stringify(pause) },
+      update: { value: JSON.stringify(pause) },
+    });
+
+    console.warn(`⛔ [Risk] Trading paused (${scope}): ${reason}`);
+    return pause;
+  }
+
+  /**
+   * 恢复交易；回撤和连续亏损从恢复时刻重新统计，避免立即再次触发
+   */
+  async resume(scope: string): Promise<void> {
+    const resumedAt = new Date().toISOString();
+
+    await prisma.$transaction([
+      prisma.config.deleteMany({ where: { key: PAUSE_PREFIX + scope } }),
+      prisma.config.upsert({
+        where: { key: RESUME_PREFIX + scope },
+        create: { key: RESUME_PREFIX + scope, value: resumedAt },
+        update: { value: resumedAt },
+      }),
+    ]);
+
+    console.log(`▶️  [Risk] Trading resumed (${scope})`);
+  }
+
+  async getResumedAt(scope: string): Promise<Date | null> {
+    const row = await prisma.config.findUnique({ where: { key: RESUME_PREFIX + scope } });
+    return row ? new Date(row.value) : null;
+  }
+
+  /**
+   * Kill switch：全局暂停并平掉场所内所有持仓
+   * 未传 venue 时（如模拟盘持仓在 worker 进程中）由各引擎在下一周期发现 flatten 标记后自行平仓
+   */
+  async activateKillSwitch(
+    reason: string,
+    venue?: ExecutionVenue
+  ): Promise<{ pause: TradingPause; report: FlattenReport | null }> {
+    const pause = await this.pause(GLOBAL_SCOPE, 'KILL_SWITCH', reason, { flatten: true });
+    const report = venue ? await this.flatten(venue) : null;
+    return { pause, report };
+  }
+
+  /**
+   * 撤销挂单并通过 closeAllPositions 平掉所有持仓
+   * 平仓成交由对账/用户数据流写入账本
+   */
+  async flatten(venue: ExecutionVenue): Promise<FlattenReport> {
+    const report: FlattenReport = { closed: [], errors: [] };
+    const positions = await venue.getPositions();
+    const symbols = Array.from(new Set(positions.map((p) => p.symbol)));
+
+    for (const symbol of symbols) {
+      try {
+        await venue.cancelAllOpenOrders(symbol);
+        const orders = await venue.closeAllPositions(symbol);
+        report.closed.push({ symbol, orders: orders.length });
+      } catch (error: any) {
+        report.errors.push(`${symbol}: ${error.message}`);
+      }
+    }
+
+    if (symbols.length > 0) {
+      console.warn(`⛔ [Risk] Flattened ${report.closed.length}/${symbols.length} symbols`);
+    }
+    return report;
+  }
+}
+
+export const riskControl = new RiskControl();
+
+/**
+ * 单个模型的下单前风控
+ */
+export class RiskManager {
+  private modelId: string;
+  private limits: RiskLimits;
+
+  constructor(modelId: string, limits: Partial<RiskLimits> = {}) {
+    this.modelId = modelId;
+    this.limits = { ...DEFAULT_RISK_LIMITS, ...pickDefined(limits) };
+  }
+
+  /**
+   * 标的允许的最大杠杆
+   */
+  maxLeverage(symbol: string): number {
+    return this.limits.symbolLeverage[symbol] ?? this.limits.maxLeverage;
+  }
+
+  /**
+   * 检查开仓/加仓订单，不通过时抛出 TRADING_RISK_EXCEEDED（暂停导致的带 details.pause）
+   */
+  async checkOrder(order: { symbol: string; leverage: number }): Promise<void> {
+    const active = await riskControl.getActivePause(this.modelId);
+    if (active) {
+      throw this.pausedError(active);
+    }
+
+    const maxLeverage = this.maxLeverage(order.symbol);
+    if (order.leverage > maxLeverage) {
+      throw new TradingError(
+        ErrorType.TRADING_RISK_EXCEEDED,
+        `Leverage ${order.leverage}x exceeds ${order.symbol} limit ${maxLeverage}x`
+      );
+    }
+
+    const status = await this.evaluate();
+    const tripped = this.findBreach(status);
+    if (tripped) {
+      const pause = await riskControl.pause(this.modelId, tripped.limit, tripped.reason, {
+        until: tripped.daily ? new Date(startOfUtcDay().getTime() + 24 * 60 * 60 * 1000) : undefined,
+      });
+      throw this.pausedError(pause);
+    }
+  }
+
+  /**
+   * 当前风控指标
+   */
+  async evaluate(): Promise<RiskStatus> {
+    const dayStart = startOfUtcDay();
+    const resumedAt = await riskControl.getResumedAt(this.modelId);
+    const since = resumedAt ?? new Date(0);
+
+    const [metrics, before, firstToday, peak, recentTrades, tradesToday, pause] = await Promise.all([
+      performanceService.getMetrics(this.modelId),
+      prisma.performanceSnapshot.findFirst({
+        where: { modelId: this.modelId, timestamp: { lt: dayStart } },
+        orderBy: { timestamp: 'desc' },
+        select: { portfolioValue: true },
+      }),
+      prisma.performanceSnapshot.findFirst({
+        where: { modelId: this.modelId, timestamp: { gte: dayStart } },
+        orderBy: { timestamp: 'asc' },
+        select: { portfolioValue: true },
+      }),
+      prisma.performanceSnapshot.aggregate({
+        where: { modelId: this.modelId, timestamp: { gte: since } },
+        _max: { portfolioValue: true },
+      }),
+      prisma.trade.findMany({
+        where: { modelId: this.modelId, pnl: { not: null }, executedAt: { gte: since } },
+        orderBy: { executedAt: 'desc' },
+        take: this.limits.maxConsecutiveLosses,
+        select: { pnl: true },
+      }),
+      prisma.trade.count({
+        where: {
+          modelId: this.modelId,
+          executedAt: { gte: dayStart },
+          action: { in: ['OPEN_LONG', 'OPEN_SHORT', 'ADD'] },
+        },
+      }),
+      riskControl.getActivePause(this.modelId),
+    ]);
+
+    const current = metrics.portfolioValue;
+    const dayStartValue = before?.portfolioValue ?? firstToday?.portfolioValue ?? current;
+    const peakValue = Math.max(peak._max.portfolioValue ?? 0, current);
+
+    let consecutiveLosses = 0;
+    for (const trade of recentTrades) {
+      if ((trade.pnl ?? 0) >= 0) break;
+      consecutiveLosses++;
+    }
+
+    return {
+      modelId: this.modelId,
+      pause,
+      dailyPnLPercent: dayStartValue > 0 ? ((current - dayStartValue) / dayStartValue) * 100 : 0,
+      drawdown: peakValue > 0 ? ((peakValue - current) / peakValue) * 100 : 0,
+      consecutiveLosses,
+      tradesToday,
+    };
+  }
+
+  /**
+   * 第一个被突破的限制
+   */
+  private findBreach(
+    status: RiskStatus
+  ): { limit: RiskLimitName; reason: string; daily: boolean } | null {
+    const { limits } = this;
+
+    if (status.dailyPnLPercent <= -limits.maxDailyLoss) {
+      return {
+        limit: 'DAILY_LOSS',
+        reason: `Daily loss ${status.dailyPnLPercent.toFixed(2)}% reached limit -${limits.maxDailyLoss}%`,
+        daily: true,
+      };
+    }
+    if (status.drawdown >= limits.maxDrawdown) {
+      return {
+        limit: 'MAX_DRAWDOWN',
+        reason: `Drawdown ${status.drawdown.toFixed(2)}% from peak reached limit ${limits.maxDrawdown}%`,
+        daily: false,
+      };
+    }
+    if (status.consecutiveLosses >= limits.maxConsecutiveLosses) {
+      return {
+        limit: 'CONSECUTIVE_LOSSES',
+        reason: `${status.consecutiveLosses} consecutive losing trades`,
+        daily: false,
+      };
+    }
+    if (status.tradesToday >= limits.maxTradesPerDay) {
+      return {
+        limit: 'MAX_TRADES',
+        reason: `${status.tradesToday} trades today reached limit ${limits.maxTradesPerDay}`,
+        daily: true,
+      };
+    }
+    return null;
+  }
+
+  private pausedError(pause: TradingPause): TradingError {
+    return new TradingError(ErrorType.TRADING_RISK_EXCEEDED, `Trading paused: ${pause.reason}`, {
+      details: { pause },
+    });
+  }
+}
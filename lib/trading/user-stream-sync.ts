@@ -0,0 +1,196 @@
+/**
+ * 用户数据流同步
+ * 将交易所推送的成交、账户变动实时写入 Position/Trade/Account，
+ * 使止损止盈触发和强平无需等待对账即可反映到数据库
+ */
+
+import type {
+  UserDataEvent,
+  OrderTradeUpdateEvent,
+  AccountUpdateEvent,
+  MarginCallEvent,
+} from '../binance/user-stream';
+import { tradeRecorder } from './recorder';
+import { performanceService } from './performance';
+import type { FundingTracker } from './funding';
+import { ErrorLogger, TradingError, ErrorType, safeExecute } from '../utils/error-handler';
+
+type PositionSide = 'LONG' | 'SHORT';
+
+// 交易所侧触发的订单类型；引擎自己下的市价单由引擎入账
+const EXCHANGE_TRIGGERED_TYPES = [
+  'STOP_MARKET',
+  'TAKE_PROFIT_MARKET',
+  'STOP',
+  'TAKE_PROFIT',
+  'TRAILING_STOP_MARKET',
+];
+
+interface PendingFill {
+  pnl: number;
+  fee: number;
+}
+
+/**
+ * 成交所平的持仓方向（兼容单向持仓模式的 BOTH）
+ */
+function closedSide(event: OrderTradeUpdateEvent): PositionSide {
+  if (event.positionSide === 'LONG' || event.positionSide === 'SHORT') {
+    return event.positionSide;
+  }
+  return event.side === 'SELL' ? 'LONG' : 'SHORT';
+}
+
+export class UserStreamSync {
+  // 部分成交时累计盈亏和手续费，订单完全成交后一次入账
+  private pendingFills: Map<number, PendingFill> = new Map();
+  private queue: Promise<void> = Promise.resolve();
+  private funding: FundingTracker | null;
+
+  constructor(funding: FundingTracker | null = null) {
+    this.funding = funding;
+  }
+
+  /**
+   * 按到达顺序串行处理事件
+   */
+  enqueue(event: UserDataEvent): void {
+    this.runExclusive(() => this.handle(event)).catch((error) => {
+      console.error(`[UserStream] Failed to handle ${event.type}:`, error.message);
+    });
+  }
+
+  /**
+   * 在事件队列中执行任务（如对账），避免与推送同时写入同一持仓
+   */
+  runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+
+  async handle(event: UserDataEvent): Promise<void> {
+    switch (event.type) {
+      case 'ORDER_TRADE_UPDATE':
+        return await this.handleOrderUpdate(event);
+      case 'ACCOUNT_UPDATE':
+        return await this.handleAccountUpdate(event);
+      case 'MARGIN_CALL':
+        return this.handleMarginCall(event);
+    }
+  }
+
+  /**
+   * 保护单触发或强平成交：订单完全成交后补记平仓
+   */
+  private async handleOrderUpdate(event: OrderTradeUpdateEvent): Promise<void> {
+    const isExchangeTriggered =
+      event.isLiquidation || EXCHANGE_TRIGGERED_TYPES.includes(event.originalType);
+    if (!isExchangeTriggered) return;
+
+    if (event.executionType !== 'TRADE' && event.executionType !== 'CALCULATED') {
+      if (event.orderStatus === 'CANCELED' || event.orderStatus === 'EXPIRED') {
+        this.pendingFills.delete(event.orderId);
+      }
+      return;
+    }
+
+    const pending = this.pendingFills.get(event.orderId) || { pnl: 0, fee: 0 };
+    pending.pnl += event.realizedProfit;
+    pending.fee += event.commission;
+
+    if (event.orderStatus !== 'FILLED') {
+      this.pendingFills.set(event.orderId, pending);
+      return;
+    }
+    this.pendingFills.delete(event.orderId);
+
+    const side = closedSide(event);
+    const reason = event.isLiquidation
+      ? 'Liquidated on exchange'
+      : `${event.originalType} triggered on exchange`;
+
+    const allocations = await tradeRecorder.recordExchangeClose({
+      symbol: event.symbol,
+      side,
+      price: event.averagePrice || event.lastFilledPrice,
+      // closePosition 单平掉整个持仓；强平/减仓可能只平一部分
+      quantity: event.closePosition ? undefined : event.filledQuantity,
+      pnl: pending.pnl,
+      fee: pending.fee,
+      orderId: event.orderId,
+      closedAt: new Date(event.transactionTime),
+      reason,
+    });
+
+    if (allocations.length === 0) return;
+
+    const pnl = allocations.reduce((sum, a) => sum + a.pnl, 0);
+    const icon = event.isLiquidation ? '💥' : '📕';
+    console.log(
+      `${icon} [UserStream] ${event.symbol} ${side} ${reason} @ ${event.averagePrice}, PnL ${pnl.toFixed(4)}`
+    );
+
+    await this.syncAccounts(allocations.map((a) => a.modelId));
+  }
+
+  /**
+   * 持仓变动：按数量分摊未实现盈亏、入账资金费并刷新账户汇总
+   */
+  private async handleAccountUpdate(event: AccountUpdateEvent): Promise<void> {
+    const modelIds: string[] = [];
+
+    for (const position of event.positions) {
+      // 平仓由订单推送或对账处理
+      if (position.positionAmt === 0) continue;
+
+      const side: PositionSide =
+        position.positionSide === 'LONG' || position.positionSide === 'SHORT'
+          ? position.positionSide
+          : position.positionAmt > 0
+            ? 'LONG'
+            : 'SHORT';
+
+      modelIds.push(
+        ...(await tradeRecorder.allocateUnrealizedPnL(position.symbol, side, position.unrealizedPnL))
+      );
+    }
+
+    // 资金费结算推送：立即拉取收入流水入账（流水可能稍有延迟，定时同步兜底）
+    if (event.reason === 'FUNDING_FEE' && this.funding) {
+      const funding = this.funding;
+      const report = await safeExecute(() => funding.sync(), null, 'Funding sync');
+      if (report) modelIds.push(...report.allocations.map((a) => a.modelId));
+    }
+
+    await this.syncAccounts(modelIds);
+  }
+
+  /**
+   * 追加保证金通知：记录告警
+   */
+  private handleMarginCall(event: MarginCallEvent): void {
+    const positions = event.positions
+      .map((p) => `${p.symbol} ${p.positionSide} mark ${p.markPrice} mm ${p.maintenanceMargin.toFixed(2)}`)
+      .join('; ');
+
+    ErrorLogger.log(
+      new TradingError(ErrorType.TRADING_RISK_EXCEEDED, `Margin call: ${positions}`, {
+        details: { crossWalletBalance: event.crossWalletBalance, positions: event.positions },
+      })
+    );
+  }
+
+  private async syncAccounts(modelIds: string[]): Promise<void> {
+    for (const modelId of Array.from(new Set(modelIds))) {
+      await safeExecute(
+        () => performanceService.syncAccount(modelId),
+        null,
+        `Account sync for ${modelId}`
+      );
+    }
+  }
+}
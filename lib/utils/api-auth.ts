@@ -0,0 +1,23 @@
+/**
+ * 管理类 API 鉴权
+ * 请求需携带 API_SECRET_KEY：Authorization: Bearer <key> 或 X-API-Key: <key>
+ */
+
+import crypto from 'crypto';
+
+/**
+ * 校验请求密钥；未配置 API_SECRET_KEY 时一律拒绝
+ */
+export function isAuthorized(request: Request): boolean {
+  const secret = process.env.API_SECRET_KEY;
+  if (!secret) return false;
+
+  const authorization = request.headers.get('authorization') || '';
+  const provided = authorization.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length).trim()
+    : request.headers.get('x-api-key') || '';
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(provided);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
@@ -3,6 +3,8 @@
  * 包括错误分类、日志、重试策略
  */
 
+import { aiDecisionSchema, formatIssues } from '../ai/schema';
+
 export enum ErrorType {
   // Binance错误
   BINANCE_API_ERROR = 'BINANCE_API_ERROR',
@@ -62,6 +64,11 @@ export class TradingError extends Error {
  * 错误分类器
  */
 export function classifyError(error: any): TradingError {
+  // 已分类的错误
+  if (error instanceof TradingError) {
+    return error;
+  }
+
   // Binance API错误
   if (error.response?.data?.code) {
     const code = error.response.data.code;
@@ -297,27 +304,29 @@ export class Validator {
 
   /**
    * 验证风险参数
+   * minNotional 为交易对的最小名义价值（来自 exchangeInfo）
    */
   static validateRiskParams(params: {
     balance: number;
     positionSize: number;
     leverage: number;
+    minNotional: number;
   }): void {
-    const { balance, positionSize, leverage } = params;
+    const { balance, positionSize, leverage, minNotional } = params;
 
-    if (balance < 20) {
+    if (balance * leverage < minNotional) {
       throw new TradingError(
         ErrorType.TRADING_RISK_EXCEEDED,
-        'Insufficient balance for trading (minimum $20)'
+        `Insufficient balance for trading (minimum notional $${minNotional})`
       );
     }
 
     const notionalValue = (balance * positionSize) / 100 * leverage;
 
-    if (notionalValue < 20) {
+    if (notionalValue < minNotional) {
       throw new TradingError(
         ErrorType.TRADING_INVALID_PARAMS,
-        `Notional value ($${notionalValue.toFixed(2)}) must be at least $20`
+        `Notional value ($${notionalValue.toFixed(2)}) must be at least $${minNotional}`
       );
     }
 
@@ -333,33 +342,13 @@ export class Validator {
    * 验证AI决策
    */
   static validateAIDecision(decision: any): void {
-    const requiredFields = ['action', 'confidence', 'reasoning'];
-
-    for (const field of requiredFields) {
-      if (!(field in decision)) {
-        throw new TradingError(
-          ErrorType.AI_INVALID_RESPONSE,
-          `Missing required field: ${field}`
-        );
-      }
-    }
-
-    const validActions = ['BUY', 'SELL', 'HOLD', 'CLOSE'];
-    if (!validActions.includes(decision.action)) {
-      throw new TradingError(
-        ErrorType.AI_INVALID_RESPONSE,
-        `Invalid action: ${decision.action}`
-      );
-    }
+    const result = aiDecisionSchema.safeParse(decision);
 
-    if (
-      typeof decision.confidence !== 'number' ||
-      decision.confidence < 0 ||
-      decision.confidence > 100
-    ) {
+    if (!result.success) {
       throw new TradingError(
         ErrorType.AI_INVALID_RESPONSE,
-        'Confidence must be between 0 and 100'
+        `Invalid AI decision: ${formatIssues(result.error)}`,
+        { details: decision }
       );
     }
   }
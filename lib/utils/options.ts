@@ -0,0 +1,16 @@
+/**
+ * 配置合并工具
+ */
+
+/**
+ * 保留有效的配置项，用于与默认值合并：{ ...DEFAULTS, ...pickDefined(options) }
+ * 默认只去掉 undefined，可传入 accept 进一步过滤（如来自数据库 JSON 的非数字值）
+ */
+export function pickDefined<T extends object>(
+  options: Partial<T>,
+  accept: (value: unknown) => boolean = (value) => value !== undefined
+): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(options ?? {}).filter(([, value]) => accept(value))
+  ) as Partial<T>;
+}
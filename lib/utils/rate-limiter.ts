@@ -139,10 +139,10 @@ export class BinanceRateLimiter extends RateLimiter {
 
 /**
  * AI API速率限制器
- * 针对DeepSeek, OpenAI等
+ * 针对DeepSeek, OpenAI, Anthropic, 本地模型等
  */
 export class AIRateLimiter extends RateLimiter {
-  constructor(provider: 'deepseek' | 'openai' | 'anthropic') {
+  constructor(provider: 'deepseek' | 'openai' | 'anthropic' | 'local') {
     const configs: Record<string, RateLimitConfig> = {
       deepseek: {
         maxRequests: 100, // 保守估计
@@ -156,6 +156,10 @@ export class AIRateLimiter extends RateLimiter {
         maxRequests: 1000, // Claude RPM
         windowMs: 60 * 1000,
       },
+      local: {
+        maxRequests: 30, // 本地推理吞吐有限
+        windowMs: 60 * 1000,
+      },
     };
 
     super(configs[provider]);
@@ -180,6 +184,18 @@ export class ExponentialBackoff {
     this.maxRetries = maxRetries;
   }
 
+  /**
+   * 第 attempt 次重试前的等待时间：2^attempt * baseDelay（不超过 maxDelay）+ jitter
+   */
+  getDelay(attempt: number): number {
+    const delay = Math.min(
+      this.baseDelayMs * Math.pow(2, attempt),
+      this.maxDelayMs
+    );
+    const jitter = Math.random() * 1000; // 添加随机抖动
+    return delay + jitter;
+  }
+
   /**
    * 执行带重试的操作
    */
@@ -205,18 +221,13 @@ export class ExponentialBackoff {
           break;
         }
 
-        // 计算延迟：2^attempt * baseDelay + jitter
-        const delay = Math.min(
-          this.baseDelayMs * Math.pow(2, attempt),
-          this.maxDelayMs
-        );
-        const jitter = Math.random() * 1000; // 添加随机抖动
+        const delay = this.getDelay(attempt);
 
         console.log(
-          `Retry attempt ${attempt + 1}/${this.maxRetries} after ${(delay + jitter).toFixed(0)}ms`
+          `Retry attempt ${attempt + 1}/${this.maxRetries} after ${delay.toFixed(0)}ms`
         );
 
-        await new Promise((resolve) => setTimeout(resolve, delay + jitter));
+        await new Promise((resolve) => setTimeout(resolve, delay));
       }
     }
 
@@ -245,7 +256,7 @@ class RateLimitManager {
   /**
    * 获取AI限制器
    */
-  getAILimiter(provider: 'deepseek' | 'openai' | 'anthropic'): AIRateLimiter {
+  getAILimiter(provider: 'deepseek' | 'openai' | 'anthropic' | 'local'): AIRateLimiter {
     if (!this.ai.has(provider)) {
       this.ai.set(provider, new AIRateLimiter(provider));
     }
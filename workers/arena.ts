@@ -0,0 +1,211 @@
+/**
+ * 多模型竞技场 Worker
+ * 加载所有活跃模型，每个tick在同一市场快照上运行并输出排行榜
+ *
+ * 运行: npm run arena
+ */
+
+import { prisma } from '../lib/database/client';
+import { BinanceClient } from '../lib/binance/client';
+import { createAIProvider, isSupportedProvider } from '../lib/ai/factory';
+import { ArenaOrchestrator, ArenaModel } from '../lib/arena/orchestrator';
+import { parseTimeframes } from '../lib/indicators/timeframes';
+
+interface ArenaWorkerConfig {
+  symbols: string[];
+  tickInterval: number; // tick间隔（秒）
+  shutdownTimeout: number; // 优雅退出最长等待（秒）
+  minConfidence?: number;
+  testnet: boolean;
+  timeframes: string[]; // 多周期分析周期
+}
+
+class ArenaWorker {
+  private config: ArenaWorkerConfig;
+  private orchestrator: ArenaOrchestrator | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private stopped = false;
+
+  constructor(config: ArenaWorkerConfig) {
+    this.config = config;
+  }
+
+  /**
+   * 加载模型并启动
+   */
+  async start(): Promise<void> {
+    const models = await this.loadModels();
+    if (models.length === 0) {
+      throw new Error('No active models with a supported provider');
+    }
+
+    console.log('🏟️  Arena starting');
+    console.log(`   Models: ${models.map((m) => `${m.modelName} (${m.provider})`).join(', ')}`);
+    console.log(`   Symbols: ${this.config.symbols.join(', ')}`);
+    console.log(`   Interval: ${this.config.tickInterval}s`);
+
+    this.orchestrator = new ArenaOrchestrator({
+      symbols: this.config.symbols,
+      models,
+      // 竞技场只读取公共行情，不在交易所下单
+      binance: new BinanceClient({
+        apiKey: process.env.BINANCE_API_KEY || '',
+        apiSecret: process.env.BINANCE_API_SECRET || '',
+        testnet: this.config.testnet,
+      }),
+      minConfidence: this.config.minConfidence,
+      timeframes: this.config.timeframes,
+    });
+
+    await this.orchestrator.init();
+    this.schedule(0);
+  }
+
+  /**
+   * 读取活跃模型
+   */
+  private async loadModels(): Promise<ArenaModel[]> {
+    const models = await prisma.aIModel.findMany({ where: { active: true } });
+    const arenaModels: ArenaModel[] = [];
+
+    for (const model of models) {
+      const provider = model.provider;
+      if (!isSupportedProvider(provider)) {
+        console.warn(`⚠️  Model ${model.name} uses unsupported provider "${model.provider}", skipped`);
+        continue;
+      }
+
+      arenaModels.push({
+        modelId: model.id,
+        modelName: model.name,
+        provider,
+        ai: createAIProvider({
+          provider,
+          apiKey: model.apiKey,
+          model: model.apiModel ?? undefined,
+          baseURL: model.baseUrl ?? undefined,
+        }),
+        initialCapital: model.initialCapital,
+      });
+    }
+
+    return arenaModels;
+  }
+
+  /**
+   * 安排下一次tick
+   */
+  private schedule(delayMs: number): void {
+    if (this.stopped) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.runTick();
+    }, delayMs);
+  }
+
+  /**
+   * 执行一个tick并打印排行榜
+   */
+  private runTick(): void {
+    this.running = (async () => {
+      const result = await this.orchestrator!.tick();
+
+      console.log(`\n🏁 Tick #${result.tick} @ ${new Date(result.timestamp).toISOString()}`);
+      result.decisions.forEach((d) => {
+        const action = d.decision ? `${d.decision.action} (${d.decision.confidence}%)` : 'ERROR';
+        console.log(`   ${d.modelId} ${d.symbol} → ${action}${d.error ? ` | ${d.error}` : ''}`);
+      });
+
+      console.log('   Leaderboard:');
+      result.leaderboard.forEach((entry) => {
+        console.log(
+          `   #${entry.rank} ${entry.modelName.padEnd(16)} ` +
+            `$${entry.equity.toFixed(2).padStart(10)}  ` +
+            `${entry.totalReturn >= 0 ? '+' : ''}${entry.totalReturn.toFixed(2)}%  ` +
+            `Sharpe ${entry.sharpeRatio.toFixed(2)}  ` +
+            `DD ${entry.maxDrawdown.toFixed(2)}%  ` +
+            `Trades ${entry.totalTrades}`
+        );
+      });
+    })()
+      .catch((error) => {
+        console.error('[Arena] Tick failed:', error.message);
+      })
+      .finally(() => {
+        this.running = null;
+        this.schedule(this.config.tickInterval * 1000);
+      });
+  }
+
+  /**
+   * 优雅停止：等待进行中的tick结束
+   */
+  async stop(): Promise<void> {
+    if (this.stopped) return;
+    this.stopped = true;
+
+    console.log('🛑 Arena stopping...');
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.running) {
+      console.log('⏳ Waiting for running tick...');
+      const timeout = new Promise<void>((resolve) =>
+        setTimeout(resolve, this.config.shutdownTimeout * 1000)
+      );
+      await Promise.race([this.running, timeout]);
+    }
+
+    await prisma.$disconnect();
+    console.log('✅ Arena stopped');
+  }
+}
+
+/**
+ * 从环境变量读取配置
+ */
+function loadConfig(): ArenaWorkerConfig {
+  const symbols = (process.env.TRADING_SYMBOLS || 'BTCUSDT')
+    .split(',')
+    .map((s) => s.trim().toUpperCase())
+    .filter(Boolean);
+
+  return {
+    symbols,
+    tickInterval: parseInt(process.env.ARENA_INTERVAL || process.env.TRADING_INTERVAL || '300'),
+    shutdownTimeout: parseInt(process.env.SHUTDOWN_TIMEOUT || '60'),
+    minConfidence: process.env.MIN_CONFIDENCE ? parseFloat(process.env.MIN_CONFIDENCE) : undefined,
+    testnet: process.env.BINANCE_TESTNET === 'true',
+    timeframes: parseTimeframes(process.env.MARKET_TIMEFRAMES),
+  };
+}
+
+async function main() {
+  const worker = new ArenaWorker(loadConfig());
+
+  const shutdown = (signal: string) => {
+    console.log(`\nReceived ${signal}`);
+    worker
+      .stop()
+      .then(() => process.exit(0))
+      .catch((error) => {
+        console.error('❌ Shutdown failed:', error);
+        process.exit(1);
+      });
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+
+  await worker.start();
+}
+
+main().catch((error) => {
+  console.error('❌ Arena failed:', error);
+  process.exit(1);
+});
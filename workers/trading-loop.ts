@@ -0,0 +1,527 @@
+/**
+ * 主交易循环 Worker
+ * 从数据库加载活跃AI模型，按交易间隔驱动 TradingEngine
+ *
+ * 运行: npm run worker
+ */
+
+import { prisma } from '../lib/database/client';
+import { TradingEngine } from '../lib/trading/engine';
+import { isSupportedProvider } from '../lib/ai/factory';
+import { performanceService } from '../lib/trading/performance';
+import { safeExecute } from '../lib/utils/error-handler';
+import { PortfolioLimits } from '../lib/trading/portfolio';
+import { PositionReconciler, ReconcileReport } from '../lib/trading/reconciler';
+import { BinanceClient } from '../lib/binance/client';
+import { UserDataStream } from '../lib/binance/user-stream';
+import { UserStreamSync } from '../lib/trading/user-stream-sync';
+import { CandleStore } from '../lib/binance/candle-store';
+import { FundingTracker } from '../lib/trading/funding';
+import { parseTimeframes } from '../lib/indicators/timeframes';
+import { isSizingMethod, SizingParams } from '../lib/trading/position-sizing';
+import { RiskLimits } from '../lib/trading/risk-manager';
+import { LiquidationGuardOptions, MarginType } from '../lib/trading/liquidation';
+import { ExecutionOptions, isExecutionStyle } from '../lib/execution/executor';
+
+interface WorkerConfig {
+  symbols: string[];
+  tradingInterval: number; // 交易间隔（秒）
+  jitter: number; // 随机抖动（秒）
+  modelRefreshInterval: number; // 模型列表刷新间隔（秒）
+  reconcileInterval: number; // 持仓对账间隔（秒）
+  fundingSyncInterval: number; // 资金费同步间隔（秒）
+  shutdownTimeout: number; // 优雅退出最长等待（秒）
+  minConfidence?: number;
+  testnet: boolean;
+  paperTrading: boolean;
+  portfolio: Partial<PortfolioLimits>;
+  timeframes: string[]; // 多周期分析周期
+  risk: Partial<RiskLimits>;
+  marginType?: MarginType; // 保证金模式，未配置时沿用账户设置
+  liquidation: Partial<LiquidationGuardOptions>;
+  execution: Partial<ExecutionOptions>; // 入场执行方式
+}
+
+interface ModelRunner {
+  modelId: string;
+  modelName: string;
+  engine: TradingEngine;
+  timer: NodeJS.Timeout | null;
+  running: Promise<void> | null;
+}
+
+class TradingLoop {
+  private config: WorkerConfig;
+  private runners: Map<string, ModelRunner> = new Map();
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private reconcileTimer: NodeJS.Timeout | null = null;
+  private reconciling: Promise<void> | null = null;
+  private fundingTimer: NodeJS.Timeout | null = null;
+  private liveReconciler: PositionReconciler | null = null;
+  private fundingTracker: FundingTracker | null = null;
+  private userStream: UserDataStream | null = null;
+  private liveBinance: BinanceClient | null = null;
+  private userStreamSync: UserStreamSync | null = null;
+  private candles: CandleStore;
+  private stopped = false;
+
+  constructor(config: WorkerConfig) {
+    this.config = config;
+
+    // 所有模型共享一份实时K线缓存（公共行情，无需API密钥）
+    this.candles = new CandleStore(
+      new BinanceClient({ apiKey: '', apiSecret: '', testnet: config.testnet }),
+      config.testnet,
+      { intervals: Array.from(new Set(['1h', ...config.timeframes])) }
+    );
+
+    // 实盘所有模型共享一个币安账户，统一对账并订阅用户数据流；模拟盘按模型账户对账
+    if (!config.paperTrading) {
+      const binance = new BinanceClient({
+        apiKey: process.env.BINANCE_API_KEY!,
+        apiSecret: process.env.BINANCE_API_SECRET!,
+        testnet: config.testnet,
+      });
+      this.liveBinance = binance;
+      this.liveReconciler = new PositionReconciler(binance);
+      this.fundingTracker = new FundingTracker(binance);
+      this.userStream = new UserDataStream(binance, config.testnet);
+      this.userStreamSync = new UserStreamSync(this.fundingTracker);
+    }
+  }
+
+  /**
+   * 启动循环
+   */
+  async start(): Promise<void> {
+    console.log('🚀 Trading loop starting');
+    console.log(`   Symbols: ${this.config.symbols.join(', ')}`);
+    console.log(`   Interval: ${this.config.tradingInterval}s (±${this.config.jitter}s)`);
+    console.log(`   Mode: ${this.config.paperTrading ? 'paper' : this.config.testnet ? 'testnet' : 'live'}`);
+
+    // 下单按账户持仓模式自动调整，这里提前探测一次便于排查
+    if (this.liveBinance) {
+      await this.liveBinance
+        .isHedgeMode()
+        .then((hedge) => console.log(`   Position mode: ${hedge ? 'hedge' : 'one-way'}`))
+        .catch((error) => {
+          console.error('[TradingLoop] Failed to detect position mode:', error.message);
+        });
+    }
+
+    // 行情流不可用时引擎回退到 REST 拉取K线
+    await this.candles.start(this.config.symbols).catch((error) => {
+      console.error('[TradingLoop] Market streams failed to start:', error.message);
+    });
+
+    await this.syncModels();
+
+    if (this.userStream && this.userStreamSync) {
+      const sync = this.userStreamSync;
+      this.userStream.subscribe((event) => sync.enqueue(event));
+      // 用户数据流不可用时仍由定时对账兜底
+      await this.userStream.start().catch((error) => {
+        console.error('[TradingLoop] User data stream failed to start:', error.message);
+      });
+    }
+
+    this.refreshTimer = setInterval(() => {
+      this.syncModels().catch((error) => {
+        console.error('[TradingLoop] Failed to refresh models:', error.message);
+      });
+    }, this.config.modelRefreshInterval * 1000);
+
+    this.reconcileTimer = setInterval(() => this.reconcile(), this.config.reconcileInterval * 1000);
+
+    if (this.fundingTracker) {
+      this.syncFunding();
+      this.fundingTimer = setInterval(
+        () => this.syncFunding(),
+        this.config.fundingSyncInterval * 1000
+      );
+    }
+  }
+
+  /**
+   * 资金费入账：拉取收入流水分摊到持仓，并刷新涉及模型的账户汇总
+   */
+  private syncFunding(): void {
+    if (this.stopped || !this.fundingTracker || !this.userStreamSync) return;
+
+    const tracker = this.fundingTracker;
+    this.userStreamSync
+      .runExclusive(async () => {
+        const report = await tracker.sync();
+        if (report.payments === 0) return;
+
+        const total = report.allocations.reduce((sum, a) => sum + a.amount, 0);
+        console.log(`💸 [Funding] ${report.payments} payment(s) recorded, total ${total.toFixed(4)}`);
+
+        for (const modelId of Array.from(new Set(report.allocations.map((a) => a.modelId)))) {
+          await safeExecute(
+            () => performanceService.syncAccount(modelId),
+            null,
+            `Account sync for ${modelId}`
+          );
+        }
+      })
+      .catch((error) => {
+        console.error('[TradingLoop] Funding sync failed:', error.message);
+      });
+  }
+
+  /**
+   * 对账：撤销孤立保护单、补记交易所侧平仓
+   * 有交易周期在执行时跳过，避免与引擎同时写入同一持仓
+   */
+  private reconcile(): void {
+    if (this.stopped || this.reconciling) return;
+
+    const busy = Array.from(this.runners.values()).some((runner) => runner.running);
+    if (busy) return;
+
+    this.reconciling = (async () => {
+      const jobs: Array<{ label: string; reconciler: PositionReconciler }> = this.liveReconciler
+        ? [{ label: 'binance', reconciler: this.liveReconciler }]
+        : Array.from(this.runners.values()).map((runner) => ({
+            label: runner.modelName,
+            reconciler: new PositionReconciler(runner.engine.getVenue(), {
+              modelId: runner.modelId,
+            }),
+          }));
+
+      for (const { label, reconciler } of jobs) {
+        // 与用户数据流推送串行，避免同一笔平仓被重复入账
+        const report = this.userStreamSync
+          ? await this.userStreamSync.runExclusive(() => reconciler.reconcile())
+          : await reconciler.reconcile();
+        this.logReconcileReport(label, report);
+      }
+    })()
+      .catch((error) => {
+        console.error('[TradingLoop] Reconcile failed:', error.message);
+      })
+      .finally(() => {
+        this.reconciling = null;
+      });
+  }
+
+  private logReconcileReport(label: string, report: ReconcileReport): void {
+    report.cancelledOrders.forEach((o) => {
+      console.log(`🧹 [Reconcile:${label}] Cancelled orphaned ${o.type} #${o.orderId} on ${o.symbol}`);
+    });
+    report.closedPositions.forEach((p) => {
+      const pnl = p.pnl === null ? 'no fills found' : `PnL ${p.pnl.toFixed(4)} (${p.fills} fills)`;
+      console.log(`📕 [Reconcile:${label}] ${p.symbol} ${p.side} closed on exchange, ${pnl}`);
+    });
+    report.errors.forEach((error) => {
+      console.error(`[Reconcile:${label}] ${error}`);
+    });
+  }
+
+  /**
+   * 同步活跃模型：新增的启动调度，停用的移除
+   */
+  private async syncModels(): Promise<void> {
+    if (this.stopped) return;
+
+    const models = await prisma.aIModel.findMany({ where: { active: true } });
+    const activeIds = new Set(models.map((m) => m.id));
+
+    // 移除已停用的模型
+    for (const [modelId, runner] of this.runners) {
+      if (!activeIds.has(modelId)) {
+        console.log(`⏹️  Model ${runner.modelName} deactivated, stopping`);
+        if (runner.timer) clearTimeout(runner.timer);
+        this.runners.delete(modelId);
+      }
+    }
+
+    // 启动新模型
+    for (const model of models) {
+      if (this.runners.has(model.id)) continue;
+
+      const provider = model.provider;
+      if (!isSupportedProvider(provider)) {
+        console.warn(`⚠️  Model ${model.name} uses unsupported provider "${model.provider}", skipped`);
+        continue;
+      }
+
+      const sizingMethod = isSizingMethod(model.sizingMethod) ? model.sizingMethod : 'ai';
+      if (sizingMethod !== model.sizingMethod) {
+        console.warn(`⚠️  Model ${model.name} uses unknown sizing method "${model.sizingMethod}", using AI sizing`);
+      }
+
+      const engine = new TradingEngine({
+        symbols: this.config.symbols,
+        modelId: model.id,
+        modelName: model.name,
+        aiProvider: provider,
+        apiKey: model.apiKey,
+        aiModel: model.apiModel ?? undefined,
+        aiBaseURL: model.baseUrl ?? undefined,
+        binanceApiKey: process.env.BINANCE_API_KEY || '',
+        binanceApiSecret: process.env.BINANCE_API_SECRET || '',
+        testnet: this.config.testnet,
+        paperTrading: this.config.paperTrading,
+        paperBalance: model.initialCapital,
+        minConfidence: this.config.minConfidence,
+        tradingInterval: this.config.tradingInterval,
+        portfolio: this.config.portfolio,
+        candles: this.candles,
+        timeframes: this.config.timeframes,
+        sizing: {
+          method: sizingMethod,
+          params: (model.sizingParams ?? {}) as Partial<SizingParams>,
+        },
+        risk: this.config.risk,
+        marginType: this.config.marginType,
+        liquidation: this.config.liquidation,
+        execution: this.config.execution,
+      });
+
+      const runner: ModelRunner = {
+        modelId: model.id,
+        modelName: model.name,
+        engine,
+        timer: null,
+        running: null,
+      };
+
+      this.runners.set(model.id, runner);
+      console.log(`▶️  Model ${model.name} (${model.provider}) scheduled`);
+
+      // 首次执行也加入抖动，避免所有模型同时请求
+      this.schedule(runner, Math.random() * this.config.jitter * 1000);
+    }
+  }
+
+  /**
+   * 安排下一次执行
+   */
+  private schedule(runner: ModelRunner, delayMs: number): void {
+    if (this.stopped) return;
+
+    runner.timer = setTimeout(() => {
+      runner.timer = null;
+      this.runModel(runner);
+    }, delayMs);
+  }
+
+  /**
+   * 计算带抖动的下一次间隔
+   */
+  private nextDelay(): number {
+    const base = this.config.tradingInterval * 1000;
+    const jitter = (Math.random() * 2 - 1) * this.config.jitter * 1000;
+    return Math.max(1000, base + jitter);
+  }
+
+  /**
+   * 执行一个模型的交易周期（覆盖所有交易对）
+   */
+  private runModel(runner: ModelRunner): void {
+    // 同一模型的周期不重叠
+    if (runner.running) {
+      console.warn(`[TradingLoop] ${runner.modelName} still running, skipping tick`);
+      this.schedule(runner, this.nextDelay());
+      return;
+    }
+
+    runner.running = (async () => {
+      // 等待进行中的对账结束
+      if (this.reconciling) await this.reconciling;
+
+      const startedAt = Date.now();
+      const results = await runner.engine.executeTradingCycle();
+      const elapsed = Date.now() - startedAt;
+
+      console.log(`[${runner.modelName}] cycle finished (${elapsed}ms)`);
+      results.forEach((result) => {
+        const summary = `[${runner.modelName}] ${result.symbol} → ${result.action}`;
+        if (result.success) {
+          console.log(`${summary}${result.error ? ` | ${result.error}` : ''}`);
+        } else {
+          console.error(`${summary} | ${result.error}`);
+        }
+      });
+
+      // 每轮结束写入性能快照并更新账户汇总
+      await safeExecute(
+        () => performanceService.recordSnapshot(runner.modelId),
+        null,
+        `Performance snapshot for ${runner.modelName}`
+      );
+    })()
+      .catch((error) => {
+        console.error(`[TradingLoop] ${runner.modelName} cycle failed:`, error.message);
+      })
+      .finally(() => {
+        runner.running = null;
+        // 模型仍在活跃列表中才继续调度
+        if (this.runners.get(runner.modelId) === runner) {
+          this.schedule(runner, this.nextDelay());
+        }
+      });
+  }
+
+  /**
+   * 优雅停止：不再调度新周期，等待进行中的周期结束
+   */
+  async stop(): Promise<void> {
+    if (this.stopped) return;
+    this.stopped = true;
+
+    console.log('🛑 Trading loop stopping...');
+
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    if (this.reconcileTimer) {
+      clearInterval(this.reconcileTimer);
+      this.reconcileTimer = null;
+    }
+
+    if (this.fundingTimer) {
+      clearInterval(this.fundingTimer);
+      this.fundingTimer = null;
+    }
+
+    const inFlight: Promise<void>[] = this.reconciling ? [this.reconciling] : [];
+    this.runners.forEach((runner) => {
+      if (runner.timer) {
+        clearTimeout(runner.timer);
+        runner.timer = null;
+      }
+      if (runner.running) inFlight.push(runner.running);
+    });
+
+    if (inFlight.length > 0) {
+      console.log(`⏳ Waiting for ${inFlight.length} running cycle(s)...`);
+      const timeout = new Promise<void>((resolve) =>
+        setTimeout(resolve, this.config.shutdownTimeout * 1000)
+      );
+      await Promise.race([Promise.all(inFlight), timeout]);
+    }
+
+    if (this.userStream) {
+      await this.userStream.close();
+    }
+    this.candles.close();
+
+    this.runners.clear();
+    await prisma.$disconnect();
+    console.log('✅ Trading loop stopped');
+  }
+}
+
+function optionalNumber(value?: string): number | undefined {
+  return value ? parseFloat(value) : undefined;
+}
+
+/**
+ * 解析 "BTCUSDT:20,ETHUSDT:10" 形式的按标的杠杆上限
+ */
+function parseSymbolLeverage(value?: string): Record<string, number> | undefined {
+  if (!value) return undefined;
+
+  const limits: Record<string, number> = {};
+  value.split(',').forEach((entry) => {
+    const [symbol, leverage] = entry.split(':').map((s) => s.trim());
+    if (symbol && leverage && !isNaN(parseFloat(leverage))) {
+      limits[symbol.toUpperCase()] = parseFloat(leverage);
+    }
+  });
+  return limits;
+}
+
+function parseMarginType(value?: string): MarginType | undefined {
+  const marginType = value?.trim().toUpperCase();
+  return marginType === 'ISOLATED' || marginType === 'CROSSED' ? marginType : undefined;
+}
+
+/**
+ * 从环境变量读取配置
+ */
+function loadConfig(): WorkerConfig {
+  const symbols = (process.env.TRADING_SYMBOLS || 'BTCUSDT')
+    .split(',')
+    .map((s) => s.trim().toUpperCase())
+    .filter(Boolean);
+
+  return {
+    symbols,
+    tradingInterval: parseInt(process.env.TRADING_INTERVAL || '300'),
+    jitter: parseInt(process.env.TRADING_JITTER || '30'),
+    modelRefreshInterval: parseInt(process.env.MODEL_REFRESH_INTERVAL || '300'),
+    reconcileInterval: parseInt(process.env.RECONCILE_INTERVAL || '60'),
+    fundingSyncInterval: parseInt(process.env.FUNDING_SYNC_INTERVAL || '600'),
+    shutdownTimeout: parseInt(process.env.SHUTDOWN_TIMEOUT || '60'),
+    minConfidence: process.env.MIN_CONFIDENCE ? parseFloat(process.env.MIN_CONFIDENCE) : undefined,
+    testnet: process.env.BINANCE_TESTNET === 'true',
+    paperTrading: process.env.PAPER_TRADING === 'true',
+    portfolio: {
+      maxPositions: optionalNumber(process.env.PORTFOLIO_MAX_POSITIONS),
+      maxTotalExposure: optionalNumber(process.env.PORTFOLIO_MAX_EXPOSURE),
+      maxCorrelatedExposure: optionalNumber(process.env.PORTFOLIO_MAX_CORRELATED_EXPOSURE),
+      correlationThreshold: optionalNumber(process.env.PORTFOLIO_CORRELATION_THRESHOLD),
+    },
+    timeframes: parseTimeframes(process.env.MARKET_TIMEFRAMES),
+    risk: {
+      maxDailyLoss: optionalNumber(process.env.RISK_MAX_DAILY_LOSS),
+      maxDrawdown: optionalNumber(process.env.RISK_MAX_DRAWDOWN),
+      maxLeverage: optionalNumber(process.env.RISK_MAX_LEVERAGE),
+      symbolLeverage: parseSymbolLeverage(process.env.RISK_SYMBOL_LEVERAGE),
+      maxConsecutiveLosses: optionalNumber(process.env.RISK_MAX_CONSECUTIVE_LOSSES),
+      maxTradesPerDay: optionalNumber(process.env.RISK_MAX_TRADES_PER_DAY),
+    },
+    marginType: parseMarginType(process.env.MARGIN_TYPE),
+    liquidation: {
+      safetyRatio: optionalNumber(process.env.LIQUIDATION_SAFETY_RATIO),
+      minStopLoss: optionalNumber(process.env.LIQUIDATION_MIN_STOP_LOSS),
+      mode: process.env.LIQUIDATION_MODE === 'reject' ? 'reject' : undefined,
+    },
+    execution: {
+      style: isExecutionStyle(process.env.EXECUTION_STYLE) ? process.env.EXECUTION_STYLE : undefined,
+      chaseSeconds: optionalNumber(process.env.EXECUTION_CHASE_SECONDS),
+      repriceInterval: optionalNumber(process.env.EXECUTION_REPRICE_INTERVAL),
+      twapThreshold: optionalNumber(process.env.TWAP_THRESHOLD),
+      twapSlices: optionalNumber(process.env.TWAP_SLICES),
+      twapInterval: optionalNumber(process.env.TWAP_INTERVAL),
+    },
+  };
+}
+
+async function main() {
+  const config = loadConfig();
+
+  // 模拟盘只读取公共行情，无需API密钥
+  if (!config.paperTrading && (!process.env.BINANCE_API_KEY || !process.env.BINANCE_API_SECRET)) {
+    throw new Error('BINANCE_API_KEY and BINANCE_API_SECRET are required');
+  }
+
+  const loop = new TradingLoop(config);
+
+  const shutdown = (signal: string) => {
+    console.log(`\nReceived ${signal}`);
+    loop
+      .stop()
+      .then(() => process.exit(0))
+      .catch((error) => {
+        console.error('❌ Shutdown failed:', error);
+        process.exit(1);
+      });
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+
+  await loop.start();
+}
+
+main().catch((error) => {
+  console.error('❌ Trading loop failed:', error);
+  process.exit(1);
+});